@@ -0,0 +1,177 @@
+// History benchmark: patch stacks (src/lib/history) vs the deep-cloned snapshot stacks they replaced.
+// Replays the same seeded edit sequence (mostly element moves, some style edits, inserts and
+// deletes) against pages of increasing size and reports commit latency and what each stack
+// retains. Afterwards every patch undo step is checked against the matching snapshot.
+//
+//   bun run bench:history            (or: bun bench/history.bench.ts [commits])
+
+import { deepClone, type Page } from '../src/lib/schemas/project';
+import type { Element, ElementType } from '../src/lib/schemas/element';
+import { DEFAULT_SHADOW, defaultSizeFor, defaultStyleFor } from '../src/lib/schemas/elementDefaults';
+import { deepEqual, patchSize } from '../src/lib/history/patch';
+import { commitState, createPatchStack, redoState, undoState } from '../src/lib/history/patchStack';
+
+const SIZES = [100, 500, 1000];
+const COMMITS = Number(process.argv[2] ?? 300);
+const LIMIT = 100;
+const TYPES: ElementType[] = ['rectangle', 'ellipse', 'text', 'image', 'line'];
+
+// Seeded PRNG so both stacks see identical edits
+function rng(seed: number) {
+  return () => ((seed = (seed * 1664525 + 1013904223) >>> 0) / 2 ** 32);
+}
+
+let nextId = 0;
+function makeElement(rand: () => number): Element {
+  const type = TYPES[Math.floor(rand() * TYPES.length)];
+  const el: any = {
+    id: `el-${nextId++}`, name: type, type,
+    position: { x: Math.round(rand() * 1200), y: Math.round(rand() * 700) },
+    size: { dimensions: defaultSizeFor(type), locked: false },
+    shadow: { ...DEFAULT_SHADOW }, rotation: 0, opacity: 1, visible: true, zIndex: 1,
+  };
+  const style = defaultStyleFor(type);
+  if (Object.keys(style).length) el.style = style;
+  return el;
+}
+
+function makePage(count: number, rand: () => number): Page {
+  const now = 1_700_000_000_000; // fixed so both runs build identical pages
+  return {
+    id: 'page-bench', visible: true, backgroundColor: '#ffffff',
+    elements: Array.from({ length: count }, () => makeElement(rand)),
+    layouts: {
+      desktop: { stageSize: { width: 1280, height: 720 }, elementProps: {} },
+      tablet: { stageSize: { width: 1024, height: 768 }, elementProps: {} },
+      mobile: { stageSize: { width: 375, height: 667 }, elementProps: {} },
+    },
+    metadata: { title: 'Bench', duration: 0, version: 1, createdAt: now, updatedAt: now, lastEditedBy: { userId: 'system', name: 'System' } },
+    timelines: {}, triggers: [], variables: [], scripts: [],
+  } as Page;
+}
+
+type Category = 'transform' | 'style' | 'structure';
+
+function edit(page: Page, rand: () => number): Category {
+  const roll = rand();
+  const els = page.elements;
+  const el: any = els[Math.floor(rand() * els.length)];
+  page.metadata.updatedAt++;
+  if (roll < 0.7) {
+    el.position = { x: el.position.x + 5, y: el.position.y - 3 };
+    return 'transform';
+  }
+  if (roll < 0.85) {
+    el.opacity = Math.round(rand() * 100) / 100;
+    if (el.style) el.style = { ...el.style, strokeWidth: Math.ceil(rand() * 6) };
+    return 'style';
+  }
+  if (roll < 0.95) els.splice(Math.floor(rand() * els.length), 0, makeElement(rand));
+  else els.splice(Math.floor(rand() * els.length), 1);
+  return 'structure';
+}
+
+// Previous implementation: fingerprint, then push a deep clone per commit
+function pageHash(p: Page): string {
+  const parts: any[] = [p.metadata.updatedAt, p.backgroundColor, p.elements.length];
+  for (const el of p.elements) {
+    const styleSig = el.style ? JSON.stringify(el.style) : '';
+    parts.push(el.id, el.position.x, el.position.y, el.size?.dimensions?.width, el.size?.dimensions?.height, el.rotation, el.opacity, el.visible ? 1 : 0, el.zIndex, styleSig);
+  }
+  return parts.join('|');
+}
+
+function createSnapshotStack() {
+  const past: { data: Page; category: Category; ts: number }[] = [];
+  let lastHash = '';
+  return {
+    past,
+    commit(page: Page, category: Category) {
+      const h = pageHash(page);
+      if (h === lastHash) return;
+      past.push({ data: deepClone(page), category, ts: Date.now() });
+      if (past.length > LIMIT) past.splice(0, past.length - LIMIT);
+      lastHash = h;
+    },
+  };
+}
+
+function time(fn: () => void): number {
+  const t = performance.now();
+  fn();
+  return performance.now() - t;
+}
+
+function heapUsed(): number {
+  (globalThis as any).Bun?.gc?.(true);
+  (globalThis as any).gc?.();
+  return process.memoryUsage().heapUsed;
+}
+
+function stats(samples: number[]) {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+  return { mean, p95: sorted[Math.floor(sorted.length * 0.95)] };
+}
+
+const kb = (bytes: number) => `${(bytes / 1024).toFixed(0)} KB`;
+const ms = (v: number) => `${v.toFixed(3)} ms`;
+
+function run(count: number) {
+  const seed = 0x5eed + count;
+
+  // Snapshot stack
+  nextId = 0;
+  let rand = rng(seed);
+  let page = makePage(count, rand);
+  let heap0 = heapUsed();
+  const snapshots = createSnapshotStack();
+  snapshots.commit(page, 'structure');
+  const snapTimes: number[] = [];
+  for (let i = 0; i < COMMITS; i++) {
+    const cat = edit(page, rand);
+    snapTimes.push(time(() => snapshots.commit(page, cat)));
+  }
+  const snapHeap = heapUsed() - heap0;
+  const snapBytes = snapshots.past.reduce((n, s) => n + JSON.stringify(s.data).length, 0);
+
+  // Patch stack over the identical sequence (same seed)
+  nextId = 0;
+  rand = rng(seed);
+  page = makePage(count, rand);
+  heap0 = heapUsed();
+  const patches = createPatchStack<Page, Category>(LIMIT);
+  commitState(patches, page, 'structure');
+  const patchTimes: number[] = [];
+  for (let i = 0; i < COMMITS; i++) {
+    const cat = edit(page, rand);
+    patchTimes.push(time(() => commitState(patches, page, cat)));
+  }
+  const patchHeap = heapUsed() - heap0;
+  const patchBytes = JSON.stringify(patches.base).length + patches.past.reduce((n, e) => n + patchSize(e), 0);
+
+  // Undo must walk back through exactly the states the snapshot stack kept
+  let mismatches = 0;
+  const steps = Math.min(patches.past.length, snapshots.past.length - 1);
+  for (let k = 1; k <= steps; k++) {
+    const state = undoState(patches);
+    if (!deepEqual(state, snapshots.past[snapshots.past.length - 1 - k].data)) mismatches++;
+  }
+  let last: Page | null = null;
+  while (patches.future.length) last = redoState(patches);
+  if (!deepEqual(last, page)) mismatches++;
+
+  const s = stats(snapTimes);
+  const p = stats(patchTimes);
+  console.log(`\n${count} elements, ${COMMITS} commits (limit ${LIMIT})`);
+  console.table({
+    snapshot: { 'commit mean': ms(s.mean), 'commit p95': ms(s.p95), retained: kb(snapBytes), 'heap delta': kb(snapHeap) },
+    patch: { 'commit mean': ms(p.mean), 'commit p95': ms(p.p95), retained: kb(patchBytes), 'heap delta': kb(patchHeap) },
+  });
+  console.log(mismatches ? `  ✗ ${mismatches} undo/redo states differ from snapshots` : `  ✓ ${steps} undo steps and redo match snapshots`);
+  return mismatches;
+}
+
+let failures = 0;
+for (const count of SIZES) failures += run(count);
+process.exit(failures ? 1 : 0);
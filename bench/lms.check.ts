@@ -0,0 +1,193 @@
+// Tracking check: drives the SCORM and xAPI player plugins with a scripted fake player against
+// the in-memory stand-ins (src/lib/export/mockLms.ts, memoryLrs.ts) and asserts what they
+// write: manifest items, status / score / suspend data / session time on the LMS side,
+// statements and the offline queue on the LRS side.
+//
+//   bun run check:lms            (or: bun bench/lms.check.ts)
+
+import type { ProjectData } from '../src/lib/schemas/project';
+import type { PlayerApi, PlayerState } from '../src/lib/export/playerRuntime';
+import type { ScormRuntimeConfig, ScormVersion, XapiRuntimeConfig } from '../src/lib/export/types';
+import { buildManifest } from '../src/lib/export/scorm';
+import { scormRuntime } from '../src/lib/export/scormRuntime';
+import { xapiRuntime } from '../src/lib/export/xapiRuntime';
+import { createMockLms, installMockLms } from '../src/lib/export/mockLms';
+import { createMemoryLrs } from '../src/lib/export/memoryLrs';
+
+let failures = 0;
+function check(label: string, ok: boolean, detail?: unknown) {
+  if (!ok) failures++;
+  console.log(`  ${ok ? '✓' : '✗'} ${label}${ok || detail === undefined ? '' : ` (got ${JSON.stringify(detail)})`}`);
+}
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Two-page assessment lesson in one module
+const LESSON = { id: 'l1', moduleId: 'm1', pageIds: ['p1', 'p2'] };
+
+/** Just the parts of the player the plugins use: events, state and variables. */
+function fakePlayer() {
+  const listeners: Record<string, Set<(e: any) => void>> = {};
+  const state: PlayerState = { pageId: null, visited: [], values: {} };
+  const emit = (event: string, payload: any) => listeners[event]?.forEach((fn) => fn(payload));
+  const api: PlayerApi & { show(pageId: string): void; fire(id: string): void; complete(): void } = {
+    data: { pages: LESSON.pageIds.map((id) => ({ id, title: `Page ${id}` })) } as any,
+    on(event, fn) { (listeners[event] ??= new Set()).add(fn); return () => listeners[event].delete(fn); },
+    goTo() {}, next() {}, prev() {}, restrictTo() {},
+    getState: () => ({ ...state, visited: [...state.visited], values: { ...state.values } }),
+    setState(s) { Object.assign(state, s); },
+    getVariable: (name) => state.values[name] ?? null,
+    setVariable(name, value) { state.values[name] = value; emit('variable', { name, value }); },
+    show(pageId) {
+      state.pageId = pageId;
+      if (!state.visited.includes(pageId)) state.visited.push(pageId);
+      emit('page', { pageId, lessonId: LESSON.id, moduleId: LESSON.moduleId });
+    },
+    fire(id) { emit('trigger', { id, name: `Trigger ${id}` }); },
+    complete() { emit('complete', { visited: [...state.visited] }); },
+  };
+  return api;
+}
+
+function fakeWindow(search = '') {
+  const store = new Map<string, string>();
+  return {
+    location: { search },
+    crypto: globalThis.crypto,
+    navigator: { onLine: true },
+    localStorage: { getItem: (k: string) => store.get(k) ?? null, setItem: (k: string, v: string) => void store.set(k, v) },
+    addEventListener() {},
+  } as any;
+}
+
+// ---- SCORM ----------------------------------------------------------------------------
+
+function scormConfig(version: ScormVersion): ScormRuntimeConfig {
+  return {
+    version,
+    scoreVariable: 'score',
+    masteryScore: 80,
+    rules: { viewAll: false, requiredLessons: true, passAssessments: true, minScore: null },
+    scos: [{ id: LESSON.id, title: 'Quiz', pageIds: LESSON.pageIds, lessons: [{ id: LESSON.id, pageIds: LESSON.pageIds, required: true, autoComplete: false, assessment: true }] }],
+  };
+}
+
+function checkManifest() {
+  console.log('\nSCORM manifest');
+  const source = {
+    course: { id: 'course-1', metadata: { title: 'Course' } },
+    modulesById: { m1: { id: 'm1', lessons: [{ id: LESSON.id }], metadata: { title: 'Module' } } },
+  } as unknown as ProjectData;
+  const m12 = buildManifest(source, scormConfig('1.2'), 'lesson', ['index.html', 'player.js']);
+  check('1.2 schema version', m12.includes('<schemaversion>1.2</schemaversion>'));
+  check('1.2 mastery score on the assessment item', m12.includes('<adlcp:masteryscore>80</adlcp:masteryscore>'));
+  check('SCO launches its own pages', m12.includes('href="index.html?sco=l1"') && m12.includes('adlcp:scormtype="sco"'));
+  check('lesson SCO nested in its module item', /<item identifier="[^"]*m1[^"]*"><title>Module<\/title>\s*<item /.test(m12));
+  const m2004 = buildManifest(source, scormConfig('2004'), 'lesson', ['index.html', 'player.js']);
+  check('2004 schema version and scormType', m2004.includes('2004 4th Edition') && m2004.includes('adlcp:scormType="sco"'));
+  check('player files in the shared asset', m2004.includes('<file href="player.js"/>'));
+}
+
+async function checkScorm12() {
+  console.log('\nSCORM 1.2 runtime');
+  const lms = createMockLms('1.2');
+  const win = fakeWindow('?sco=l1');
+  installMockLms(win, lms);
+  const player = fakePlayer();
+  scormRuntime(win, scormConfig('1.2'))(player);
+  check('initialized', lms.state() === 'running', lms.state());
+  player.show('p1');
+  check('incomplete after the first page', lms.cmi['cmi.core.lesson_status'] === 'incomplete', lms.cmi['cmi.core.lesson_status']);
+  check('location follows the page', lms.cmi['cmi.core.lesson_location'] === 'p1');
+  player.setVariable('score', 90);
+  player.show('p2');
+  check('passed at 90 / 80', lms.cmi['cmi.core.lesson_status'] === 'passed', lms.cmi['cmi.core.lesson_status']);
+  check('raw score mirrored', lms.cmi['cmi.core.score.raw'] === '90' && lms.cmi['cmi.core.score.max'] === '100');
+  const suspend = JSON.parse(lms.cmi['cmi.suspend_data'] || '{}');
+  check('suspend data carries page, visited and variables', suspend.p === 'p2' && suspend.s?.length === 2 && suspend.v?.score === 90, suspend);
+  win.MavaScorm.finish();
+  check('session time in HHHH:MM:SS.SS', /^\d{4}:\d{2}:\d{2}\.\d{2}$/.test(lms.cmi['cmi.core.session_time']), lms.cmi['cmi.core.session_time']);
+  check('normal exit when complete', lms.cmi['cmi.core.exit'] === '');
+  check('committed and finished', lms.commits.length >= 2 && lms.state() === 'terminated');
+  check('no failed LMS calls', lms.calls.every((c) => c.result !== 'false'), lms.calls.filter((c) => c.result === 'false'));
+}
+
+async function checkScorm2004() {
+  console.log('\nSCORM 2004 runtime');
+  const saved = JSON.stringify({ p: 'p1', s: ['p1'], v: { score: 40 } });
+  const lms = createMockLms('2004', { 'cmi.entry': 'resume', 'cmi.suspend_data': saved });
+  const win = fakeWindow('?sco=l1');
+  installMockLms(win, lms);
+  const player = fakePlayer();
+  scormRuntime(win, scormConfig('2004'))(player);
+  check('resumed from suspend data', player.getState().pageId === 'p1' && player.getVariable('score') === 40, player.getState());
+  check('incomplete with one page left', lms.cmi['cmi.completion_status'] === 'incomplete', lms.cmi['cmi.completion_status']);
+  player.setVariable('score', 50);
+  player.show('p2');
+  check('completed and failed at 50 / 80', lms.cmi['cmi.completion_status'] === 'completed' && lms.cmi['cmi.success_status'] === 'failed',
+    [lms.cmi['cmi.completion_status'], lms.cmi['cmi.success_status']]);
+  check('scaled score', lms.cmi['cmi.score.scaled'] === '0.5', lms.cmi['cmi.score.scaled']);
+  await sleep(1100);
+  check('changes committed within a second', lms.commits.length >= 1);
+  win.MavaScorm.finish();
+  check('session time as an ISO duration', /^PT\d+H\d+M[\d.]+S$/.test(lms.cmi['cmi.session_time']), lms.cmi['cmi.session_time']);
+  check('normal exit', lms.cmi['cmi.exit'] === 'normal' && lms.state() === 'terminated');
+}
+
+// ---- xAPI -----------------------------------------------------------------------------
+
+async function checkXapi() {
+  console.log('\nxAPI runtime');
+  const config: XapiRuntimeConfig = {
+    activityBase: 'https://example.org/xapi', endpoint: '', auth: '',
+    actor: { name: 'Learner', mbox: 'mailto:learner@example.org' },
+    scoreVariable: 'score', masteryScore: 80,
+    course: { id: 'course-1', title: 'Course', cfNodeIds: ['cf-1'] },
+    modules: { m1: { title: 'Module', cfNodeIds: [] } },
+    lessons: { l1: { title: 'Quiz', moduleId: 'm1', assessment: true, autoComplete: false, pageIds: LESSON.pageIds, cfNodeIds: [] } },
+  };
+  const lrs = createMemoryLrs();
+  const win = fakeWindow();
+  win.MavaXapiTransport = lrs.transport;
+  const player = fakePlayer();
+  xapiRuntime(win, config)(player);
+
+  player.show('p1');
+  player.show('p2');
+  await sleep(20);
+  check('experienced per page', lrs.byVerb('experienced').length === 2, lrs.byVerb('experienced').length);
+  check('lesson completed on its last page', lrs.byVerb('completed').length === 1);
+  check('no result before the learner answers', lrs.byVerb('passed').length + lrs.byVerb('failed').length === 0);
+  check('competence nodes in context', JSON.stringify(lrs.statements[0]?.context ?? {}).includes('cf-1'));
+
+  for (let i = 0; i <= 90; i += 10) player.setVariable('score', i);
+  await sleep(400);
+  const passed = lrs.byVerb('passed');
+  check('one passed statement once the score settles', passed.length === 1 && (passed[0].result as any)?.score?.raw === 90, passed.map((s) => s.result));
+  check('score bursts answered once', lrs.byVerb('answered').length === 1, lrs.byVerb('answered').length);
+
+  for (let i = 0; i < 50; i++) player.fire('tick');
+  await sleep(400);
+  check('trigger bursts interacted once', lrs.byVerb('interacted').length === 1, lrs.byVerb('interacted').length);
+
+  lrs.offline = true;
+  player.show('p1');
+  await sleep(20);
+  const queued = JSON.parse(win.localStorage.getItem('mava.xapi.queue.course-1') ?? '[]');
+  check('offline statements kept in the persistent queue', queued.length === 1 && win.MavaXapi.queue.length === 1, queued.length);
+  lrs.offline = false;
+  await win.MavaXapi.flush();
+  check('queue drained when the LRS is back', win.MavaXapi.queue.length === 0 && lrs.byVerb('experienced').length === 3);
+
+  player.complete();
+  await sleep(20);
+  const course = lrs.byVerb('completed').find((s) => s.object.id === 'https://example.org/xapi/course-1');
+  check('course completed with a duration', !!course && /^PT[\d.]+S$/.test(String((course.result as any)?.duration)), course?.result);
+  check('a settled score is not reported twice', lrs.byVerb('passed').length === 1);
+}
+
+checkManifest();
+await checkScorm12();
+await checkScorm2004();
+await checkXapi();
+console.log(failures ? `\n✗ ${failures} check(s) failed` : '\n✓ all tracking checks passed');
+process.exit(failures ? 1 : 0);
@@ -1,3 +1,5 @@
+mod project;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -8,7 +10,18 @@ fn greet(name: &str) -> String {
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .plugin(tauri_plugin_dialog::init())
+        .manage(project::ProjectAccess::default())
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            project::project_new,
+            project::project_open,
+            project::project_read,
+            project::project_save,
+            project::project_save_as,
+            project::recent_projects,
+            project::recent_projects_clear
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
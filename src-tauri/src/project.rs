@@ -0,0 +1,291 @@
+//! `.mava` project files on disk.
+//!
+//! A project file is a zip archive produced by the frontend (`project.json`, `studio.json`,
+//! `assets/*`); the commands here only move bytes between the webview and the file system,
+//! show the native open/save dialogs and keep the recent-files list in the app config dir.
+//!
+//! Project bytes cross the IPC bridge as raw binary bodies (`tauri::ipc::Request` in,
+//! `tauri::ipc::Response` out) rather than JSON number arrays. Commands that take a path from the
+//! webview only accept paths the user picked in a dialog this session or recent projects, so a
+//! script in the webview cannot read or overwrite arbitrary files.
+
+use std::collections::HashSet;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::Mutex;
+use std::time::{SystemTime, UNIX_EPOCH};
+
+use serde::{Deserialize, Serialize};
+use tauri::ipc::{InvokeBody, Request, Response};
+use tauri::{AppHandle, Manager, State, WebviewWindow};
+use tauri_plugin_dialog::DialogExt;
+
+const EXTENSION: &str = "mava";
+const RECENT_FILE: &str = "recent-projects.json";
+const RECENT_LIMIT: usize = 10;
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct RecentProject {
+    pub path: String,
+    pub name: String,
+    /// Unix time in milliseconds.
+    pub opened_at: u64,
+}
+
+/// The file chosen by `project_open`; its bytes are fetched with `project_read`.
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct OpenedProject {
+    pub path: String,
+    pub name: String,
+}
+
+/// Paths the user chose through a dialog (or opened from recents) this session.
+#[derive(Default)]
+pub struct ProjectAccess(Mutex<HashSet<PathBuf>>);
+
+impl ProjectAccess {
+    fn allow(&self, path: &Path) {
+        if let Ok(mut set) = self.0.lock() {
+            set.insert(path.to_path_buf());
+        }
+    }
+
+    fn allows(&self, path: &Path) -> bool {
+        self.0.lock().map_or(false, |set| set.contains(path))
+    }
+}
+
+/// Reject paths the user never picked; a recent project counts as picked.
+fn ensure_allowed(app: &AppHandle, access: &ProjectAccess, path: &Path) -> Result<(), String> {
+    if access.allows(path) {
+        return Ok(());
+    }
+    let as_str = path.to_string_lossy();
+    if read_recent(app).iter().any(|r| r.path == as_str) {
+        access.allow(path);
+        return Ok(());
+    }
+    Err(format!("{} was not opened or saved as a project in this session", path.display()))
+}
+
+fn now_ms() -> u64 {
+    SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as u64)
+        .unwrap_or(0)
+}
+
+fn display_name(path: &Path) -> String {
+    path.file_stem()
+        .map(|s| s.to_string_lossy().into_owned())
+        .unwrap_or_else(|| path.to_string_lossy().into_owned())
+}
+
+fn with_extension(path: PathBuf) -> PathBuf {
+    if path.extension().map_or(false, |e| e.eq_ignore_ascii_case(EXTENSION)) {
+        path
+    } else {
+        let mut s = path.into_os_string();
+        s.push(".");
+        s.push(EXTENSION);
+        PathBuf::from(s)
+    }
+}
+
+fn set_title(window: &WebviewWindow, path: Option<&Path>) {
+    let title = match path {
+        Some(p) => format!("{} — Mava", display_name(p)),
+        None => "Untitled — Mava".to_string(),
+    };
+    let _ = window.set_title(&title);
+}
+
+// ---- Recent files ----
+
+fn recent_path(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app.path().app_config_dir().map_err(|e| e.to_string())?;
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir.join(RECENT_FILE))
+}
+
+fn read_recent(app: &AppHandle) -> Vec<RecentProject> {
+    recent_path(app)
+        .ok()
+        .and_then(|p| fs::read(p).ok())
+        .and_then(|raw| serde_json::from_slice(&raw).ok())
+        .unwrap_or_default()
+}
+
+fn write_recent(app: &AppHandle, list: &[RecentProject]) -> Result<(), String> {
+    let raw = serde_json::to_vec_pretty(list).map_err(|e| e.to_string())?;
+    fs::write(recent_path(app)?, raw).map_err(|e| e.to_string())
+}
+
+fn touch_recent(app: &AppHandle, path: &Path) {
+    let path_str = path.to_string_lossy().into_owned();
+    let mut list = read_recent(app);
+    list.retain(|r| r.path != path_str);
+    list.insert(
+        0,
+        RecentProject { name: display_name(path), path: path_str, opened_at: now_ms() },
+    );
+    list.truncate(RECENT_LIMIT);
+    if let Err(e) = write_recent(app, &list) {
+        eprintln!("[project] could not update recent files: {e}");
+    }
+}
+
+// ---- IPC bodies ----
+
+/// Raw bytes sent as the invoke body (`invoke(cmd, uint8Array, { headers })`).
+fn raw_body<'a>(request: &'a Request<'_>) -> Result<&'a [u8], String> {
+    match request.body() {
+        InvokeBody::Raw(bytes) => Ok(bytes),
+        _ => Err("Expected the project as a binary body".to_string()),
+    }
+}
+
+/// Header sent percent-encoded (`encodeURIComponent`), since paths and names need not be ASCII.
+fn header_value(request: &Request<'_>, name: &str) -> Result<String, String> {
+    let raw = request
+        .headers()
+        .get(name)
+        .and_then(|v| v.to_str().ok())
+        .ok_or_else(|| format!("Missing {name} header"))?;
+    percent_decode(raw).ok_or_else(|| format!("Malformed {name} header"))
+}
+
+fn percent_decode(s: &str) -> Option<String> {
+    let bytes = s.as_bytes();
+    let mut out = Vec::with_capacity(bytes.len());
+    let mut i = 0;
+    while i < bytes.len() {
+        if bytes[i] == b'%' {
+            let hex = std::str::from_utf8(bytes.get(i + 1..i + 3)?).ok()?;
+            out.push(u8::from_str_radix(hex, 16).ok()?);
+            i += 3;
+        } else {
+            out.push(bytes[i]);
+            i += 1;
+        }
+    }
+    String::from_utf8(out).ok()
+}
+
+// ---- File IO ----
+
+fn open_project(app: &AppHandle, window: &WebviewWindow, access: &ProjectAccess, path: PathBuf) -> Result<OpenedProject, String> {
+    if !path.is_file() {
+        return Err(format!("Could not read {}: not a file", path.display()));
+    }
+    access.allow(&path);
+    touch_recent(app, &path);
+    set_title(window, Some(&path));
+    Ok(OpenedProject { name: display_name(&path), path: path.to_string_lossy().into_owned() })
+}
+
+/// Write through a sibling temp file and rename, so a crash mid-write never truncates the project.
+fn write_project(app: &AppHandle, window: &WebviewWindow, path: &Path, bytes: &[u8]) -> Result<(), String> {
+    let mut tmp = path.as_os_str().to_owned();
+    tmp.push(".tmp");
+    let tmp = PathBuf::from(tmp);
+    fs::write(&tmp, bytes).map_err(|e| format!("Could not write {}: {e}", tmp.display()))?;
+    fs::rename(&tmp, path).map_err(|e| {
+        let _ = fs::remove_file(&tmp);
+        format!("Could not replace {}: {e}", path.display())
+    })?;
+    touch_recent(app, path);
+    set_title(window, Some(path));
+    Ok(())
+}
+
+fn pick_save_path(app: &AppHandle, suggested_name: &str) -> Result<Option<PathBuf>, String> {
+    let picked = app
+        .dialog()
+        .file()
+        .add_filter("Mava project", &[EXTENSION])
+        .set_file_name(format!("{suggested_name}.{EXTENSION}"))
+        .blocking_save_file();
+    match picked {
+        Some(p) => p.into_path().map(|p| Some(with_extension(p))).map_err(|e| e.to_string()),
+        None => Ok(None),
+    }
+}
+
+// ---- Commands ----
+// Dialog-backed commands are async so the blocking dialog never runs on the main thread.
+
+/// Start an untitled project: nothing touches the disk until the first save.
+#[tauri::command]
+pub fn project_new(window: WebviewWindow) {
+    set_title(&window, None);
+}
+
+/// Open `path` (a recent project), or ask for one when omitted. `None` means the dialog was
+/// cancelled. Read the bytes with `project_read`.
+#[tauri::command]
+pub async fn project_open(app: AppHandle, window: WebviewWindow, access: State<'_, ProjectAccess>, path: Option<String>) -> Result<Option<OpenedProject>, String> {
+    let path = match path {
+        Some(p) => {
+            let p = PathBuf::from(p);
+            ensure_allowed(&app, &access, &p)?;
+            p
+        }
+        None => {
+            let picked = app.dialog().file().add_filter("Mava project", &[EXTENSION]).blocking_pick_file();
+            match picked {
+                Some(p) => p.into_path().map_err(|e| e.to_string())?,
+                None => return Ok(None),
+            }
+        }
+    };
+    open_project(&app, &window, &access, path).map(Some)
+}
+
+/// Bytes of a project opened or saved this session, as a binary response.
+#[tauri::command]
+pub async fn project_read(app: AppHandle, access: State<'_, ProjectAccess>, path: String) -> Result<Response, String> {
+    let path = PathBuf::from(path);
+    ensure_allowed(&app, &access, &path)?;
+    let bytes = fs::read(&path).map_err(|e| format!("Could not read {}: {e}", path.display()))?;
+    Ok(Response::new(bytes))
+}
+
+/// Overwrite the project at the `x-mava-path` header path (the file the project was opened from
+/// or last saved as) with the binary body.
+#[tauri::command]
+pub async fn project_save(app: AppHandle, window: WebviewWindow, access: State<'_, ProjectAccess>, request: Request<'_>) -> Result<(), String> {
+    let path = PathBuf::from(header_value(&request, "x-mava-path")?);
+    ensure_allowed(&app, &access, &path)?;
+    write_project(&app, &window, &path, raw_body(&request)?)
+}
+
+/// Ask for a location (suggesting the `x-mava-name` header) and write the binary body there;
+/// returns the chosen path.
+#[tauri::command]
+pub async fn project_save_as(app: AppHandle, window: WebviewWindow, access: State<'_, ProjectAccess>, request: Request<'_>) -> Result<Option<String>, String> {
+    let suggested_name = header_value(&request, "x-mava-name")?;
+    let bytes = raw_body(&request)?;
+    let Some(path) = pick_save_path(&app, &suggested_name)? else { return Ok(None) };
+    write_project(&app, &window, &path, bytes)?;
+    access.allow(&path);
+    Ok(Some(path.to_string_lossy().into_owned()))
+}
+
+/// Recently opened or saved projects, most recent first; entries whose file is gone are dropped.
+#[tauri::command]
+pub fn recent_projects(app: AppHandle) -> Vec<RecentProject> {
+    let list = read_recent(&app);
+    let existing: Vec<RecentProject> = list.iter().filter(|r| Path::new(&r.path).is_file()).cloned().collect();
+    if existing.len() != list.len() {
+        let _ = write_recent(&app, &existing);
+    }
+    existing
+}
+
+#[tauri::command]
+pub fn recent_projects_clear(app: AppHandle) -> Result<(), String> {
+    write_recent(&app, &[])
+}
@@ -0,0 +1,32 @@
+import type { Action } from 'svelte/action';
+import type { Element } from '../schemas/element';
+import { attachElementEventRoot } from '../runtime/elementEvents';
+
+export type ElementEventRootParams = {
+  /** When false the node is not a trigger surface (e.g. plain editing). */
+  enabled?: boolean;
+  /** Current page elements, used to resolve ids and collection ancestry. */
+  elements: () => Element[];
+};
+
+/** Registers the node as the element-trigger surface while enabled. */
+export const elementEventRoot: Action<HTMLElement, ElementEventRootParams> = (node, params) => {
+  let detach: (() => void) | null = null;
+
+  function apply(p: ElementEventRootParams) {
+    if (p?.enabled && !detach) detach = attachElementEventRoot(node, () => params.elements());
+    else if (!p?.enabled && detach) { detach(); detach = null; }
+  }
+  apply(params);
+
+  return {
+    update(next) {
+      params = next;
+      apply(next);
+    },
+    destroy() {
+      detach?.();
+      detach = null;
+    },
+  };
+};
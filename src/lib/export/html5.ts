@@ -0,0 +1,318 @@
+// Standalone HTML5 export: walks course → modules → lessons → pages, pre-renders every page,
+// bundles the document's timelines, clips, keyframes, triggers, variables and scripts, and writes a folder
+// (index.html + assets) that plays offline from file:// — data ships as a script, not JSON,
+// so no fetch is needed. Packagers (SCORM/xAPI) build on `buildHtml5Files`.
+
+import { get } from 'svelte/store';
+import { projectData } from '../../stores/project';
+import { pageSequence, type ProjectData } from '../schemas/project';
+import { flushStudioState } from '../../stores/projectDocument';
+import { pageTimelineId } from '../../stores/timelineOrchestrator';
+import type { AuthoringStageKey } from '../../stores/stage';
+import { addNotification } from '../../stores/notifications';
+import { devOutput } from '../../stores/devOutput';
+import { escapeHtml, renderPageHtml } from './renderElement';
+import { mavaPlayer } from './playerRuntime';
+import { createZip } from './zip';
+import { joinStudioState } from '../persistence/studioState';
+import { sampleEasing } from '../runtime/easing';
+import { pathArcTable } from '../runtime/motionPath';
+import { EXPRESSION_PROPERTIES, parseExpression, type ExprNode } from '../runtime/expressions';
+import { baseValue, canAnimate } from '../runtime/keyframes';
+import type { Easing } from '../schemas/easing';
+import type { TimelineKeyframe } from '../schemas/timeline';
+import { EXPORT_FORMAT_VERSION, type ExportFile, type ExportedExpressionElement, type ExportedKeyframe, type ExportedMotionPath, type ExportedTimeline, type PlayerData } from './types';
+
+export interface Html5ExportOptions {
+  /** Which authoring stage's page timelines to ship. Default 'create'. */
+  timelineStage?: AuthoringStageKey;
+  /** Include pages/lessons/modules hidden in the outline. Default false. */
+  includeHidden?: boolean;
+}
+
+export interface CollectResult {
+  data: PlayerData;
+  /** Non-fatal problems (broken scripts, missing timelines) worth surfacing to the author. */
+  warnings: string[];
+}
+
+/** Extra files/scripts a packager injects alongside the player. */
+export interface Html5BuildExtras {
+  /** Script paths loaded before `player.js` (plugins register on `window.MavaPlayerPlugins`). */
+  headScripts?: string[];
+  files?: ExportFile[];
+}
+
+const DEFAULT_STAGE = { width: 1280, height: 720 };
+
+export function slug(s: string): string {
+  return (s || 'course').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'course';
+}
+
+// The player positions nodes in stage coordinates: x / y keyframes of nested elements get
+// their ancestors' (unanimated) offset added
+function stageOffset(page: ProjectData['pagesById'][string], elementId: string) {
+  const byId = new Map(page.elements.map((e) => [e.id, e]));
+  let x = 0; let y = 0;
+  let cur = byId.get(elementId);
+  for (let guard = 0; cur?.parentId && guard < 10; guard++) {
+    const parent = byId.get(cur.parentId);
+    if (!parent) break;
+    x += parent.position.x; y += parent.position.y;
+    cur = parent;
+  }
+  return { x, y };
+}
+
+// The player has no easing library: anything but linear and steps() ships as a lookup table
+function exportedEasing(easing: Easing | undefined): ExportedKeyframe['easing'] {
+  if (!easing || easing === 'linear') return 'linear';
+  if (typeof easing === 'object' && easing.kind === 'steps') return { ...easing };
+  return sampleEasing(easing);
+}
+
+// Motion paths ship pre-flattened; the first keyframe of each track carries the settings
+function exportedMotionPaths(page: ProjectData['pagesById'][string], keyframes: TimelineKeyframe[]) {
+  const out: Record<string, ExportedMotionPath> = {};
+  for (const k of keyframes) {
+    if (k.property !== 'motionPath' || !k.motionPath || out[k.elementId]) continue;
+    const el = page.elements.find((e) => e.id === k.elementId);
+    const table = pathArcTable(page.elements.find((e) => e.id === k.motionPath!.pathId), page.elements);
+    if (!el || !table) continue;
+    const round = (n: number) => Math.round(n * 100) / 100;
+    out[k.elementId] = {
+      points: table.points.flatMap(([x, y]) => [round(x), round(y)]),
+      lengths: table.lengths.map(round),
+      closed: table.closed,
+      autoOrient: !!k.motionPath.autoOrient,
+      halfWidth: el.size.dimensions.width / 2,
+      halfHeight: el.size.dimensions.height / 2,
+      rotation: el.rotation || 0,
+    };
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+// Expressions ship parsed; every element of the page is listed so references resolve in the player
+function exportedExpressions(page: ProjectData['pagesById'][string], warnings: string[]) {
+  if (!page.elements.some((e) => e.expressions && Object.values(e.expressions).some(Boolean))) return undefined;
+  const out: Record<string, ExportedExpressionElement> = {};
+  for (const el of page.elements) {
+    const props = EXPRESSION_PROPERTIES.filter((p) => canAnimate(el, p));
+    const entry: ExportedExpressionElement = {
+      name: el.name,
+      offset: stageOffset(page, el.id),
+      base: Object.fromEntries(props.map((p) => [p, baseValue(el, p) as number])),
+    };
+    const parsed: Record<string, ExprNode> = {};
+    for (const p of props) {
+      const src = el.expressions?.[p];
+      if (!src?.trim()) continue;
+      try { parsed[p] = parseExpression(src); } catch (e) {
+        warnings.push(`Expression ${el.name}.${p} on page "${page.metadata?.title ?? page.id}" is invalid and was left out: ${(e as Error).message}`);
+      }
+    }
+    if (Object.keys(parsed).length) entry.expressions = parsed;
+    out[el.id] = entry;
+  }
+  return out;
+}
+
+// data.js may also be inlined by hosts; keep `</script>` and the JS-hostile line separators escaped
+function safeJson(v: unknown): string {
+  return JSON.stringify(v).replace(/<\/(script)/gi, '<\\/$1').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+}
+
+/** Snapshot everything the player needs from a project document. */
+export function collectPlayerData(opts: Html5ExportOptions = {}, source: ProjectData = get(projectData)): CollectResult {
+  // Store edits reach the open document after a short debounce; don't export a stale copy
+  if (source === get(projectData)) flushStudioState();
+  const studio = joinStudioState(source);
+  const warnings: string[] = [];
+  const stageKey = opts.timelineStage ?? 'create';
+  const seq = pageSequence(source).filter((loc) => opts.includeHidden || (
+    source.modulesById[loc.moduleId]?.visible !== false &&
+    source.lessonsById[loc.lessonId]?.visible !== false &&
+    source.pagesById[loc.pageId]?.visible !== false
+  ));
+
+  const timelines: Record<string, ExportedTimeline> = {};
+  const pages = seq.map((loc) => {
+    const page = source.pagesById[loc.pageId];
+    const tlId = pageTimelineId(page.id, stageKey);
+    const rec = studio.timelines.find((t) => t.id === tlId);
+    const expressions = exportedExpressions(page, warnings);
+    const exportTimeline = (id: string) => {
+      const rec = studio.timelines.find((t) => t.id === id);
+      if (!rec || timelines[id]) return;
+      const keyframes = [...(studio.keyframes[id] ?? [])].sort((a, b) => a.time - b.time);
+      const motionPaths = exportedMotionPaths(page, keyframes);
+      const nested = (rec.nested ?? []).filter((c) => {
+        if (studio.timelines.some((t) => t.id === c.timelineId)) return true;
+        warnings.push(`Timeline "${rec.name}" nests ${c.timelineId}, which no longer exists; skipped.`);
+        return false;
+      });
+      timelines[id] = {
+        id,
+        duration: rec.duration,
+        loop: !!rec.loop,
+        cuePoints: (rec.cuePoints ?? []).map((c) => ({ ...c })),
+        clips: (studio.clips[id] ?? []).map((c) => ({ elementId: c.elementId, start: c.start, end: c.end })),
+        keyframes: keyframes.map((k) => {
+          const axis = k.property === 'x' || k.property === 'y' ? k.property : null;
+          const value = axis && typeof k.value === 'number' ? k.value + stageOffset(page, k.elementId)[axis] : k.value;
+          return { elementId: k.elementId, property: k.property, time: k.time, value, easing: exportedEasing(k.easing) };
+        }),
+        ...(motionPaths ? { motionPaths } : {}),
+        ...(nested.length ? { nested: nested.map((c) => ({ ...c })) } : {}),
+      };
+      // Nested sequences ship alongside; the player samples them through their clips
+      nested.forEach((c) => exportTimeline(c.timelineId));
+    };
+    if (rec) exportTimeline(tlId);
+    return {
+      id: page.id,
+      moduleId: loc.moduleId,
+      lessonId: loc.lessonId,
+      title: page.metadata?.title ?? page.id,
+      background: page.backgroundColor ?? '#ffffff',
+      html: renderPageHtml(page),
+      elements: page.elements.map((e) => ({ id: e.id, name: e.name, type: e.type, ...(e.parentId ? { parentId: e.parentId } : {}) })),
+      timelineId: rec ? tlId : null,
+      ...(expressions ? { expressions } : {}),
+    };
+  });
+  if (!pages.length) warnings.push('The course has no visible pages.');
+
+  // Triggers bound to timelines outside the export (other stages, deleted pages) can never fire
+  const triggers = studio.triggers.filter((t) => {
+    const tlId = t.source.kind === 'timeline' ? t.source.timelineId ?? t.timelineId : null;
+    if (tlId && !timelines[tlId]) {
+      warnings.push(`Trigger "${t.name}" targets timeline ${tlId}, which is not part of the export; skipped.`);
+      return false;
+    }
+    return true;
+  });
+
+  const exportedPageIds = new Set(pages.map((p) => p.id));
+  const values = studio.variables.values;
+  const variables = studio.variables.defs
+    .filter((d) => d.scope === 'global' || (d.pageId && exportedPageIds.has(d.pageId)))
+    .map((d) => ({ id: d.id, name: d.name, scope: d.scope, pageId: d.pageId, type: d.type, readOnly: d.readOnly, initial: values[d.id] ?? null }));
+
+  const scriptList = studio.scripts
+    .filter((s) => s.scope === 'global' || (s.pageId && exportedPageIds.has(s.pageId)))
+    .filter((s) => {
+      try {
+        // Syntax check only; the body is not executed here
+        new Function('Mava', '"use strict";\n' + (s.code ?? ''));
+        return true;
+      } catch (e: any) {
+        warnings.push(`Script "${s.name}" has a syntax error and was left out: ${e?.message ?? e}`);
+        return false;
+      }
+    })
+    .map((s) => ({ id: s.id, name: s.name, scope: s.scope, pageId: s.pageId ?? null, code: s.code ?? '' }));
+
+  const firstPage = pages.length ? source.pagesById[pages[0].id] : null;
+  const data: PlayerData = {
+    format: 'mava-html5',
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    course: { id: source.course.id, title: source.course.metadata?.title ?? 'Course', description: source.course.metadata?.description },
+    stage: { ...(firstPage?.layouts?.desktop?.stageSize ?? DEFAULT_STAGE) },
+    pages,
+    timelines,
+    triggers: JSON.parse(JSON.stringify(triggers)),
+    variables,
+    scripts: scriptList,
+  };
+  return { data, warnings };
+}
+
+const PLAYER_CSS = `*,*::before,*::after{box-sizing:border-box}
+html,body{margin:0;height:100%;background:#111827;font-family:system-ui,-apple-system,"Segoe UI",Roboto,sans-serif}
+.mava-player{display:flex;flex-direction:column;height:100%}
+.mava-viewport{position:relative;flex:1;overflow:hidden}
+.mava-stage{position:absolute;left:50%;top:50%;transform-origin:center center;overflow:hidden;background:#fff}
+.mava-el{user-select:none}
+.mava-el svg{display:block}
+.mava-el img{display:block;pointer-events:none}
+.mava-hotspot:focus-visible{outline:2px solid #2563eb;outline-offset:2px}
+.mava-nav{display:flex;align-items:center;justify-content:center;gap:12px;padding:8px;background:#1f2937;color:#e5e7eb;font-size:14px}
+.mava-nav button{background:#374151;color:inherit;border:0;border-radius:4px;padding:6px 12px;cursor:pointer}
+.mava-nav button:disabled{opacity:.4;cursor:default}
+`;
+
+function indexHtml(data: PlayerData, headScripts: string[]): string {
+  const scriptsTags = ['data.js', 'scripts.js', ...headScripts, 'player.js']
+    .map((src) => `  <script src="${escapeHtml(src)}"></script>`)
+    .join('\n');
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(data.course.title)}</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <div id="mava-player"></div>
+${scriptsTags}
+</body>
+</html>
+`;
+}
+
+function scriptsJs(data: PlayerData): string {
+  const entries = data.scripts.map((s) =>
+    `  ${JSON.stringify(s.id)}: function (Mava) {\n"use strict";\n${s.code}\n}`);
+  return `window.__MAVA_SCRIPTS__ = {\n${entries.join(',\n')}\n};\n`;
+}
+
+function playerJs(): string {
+  return `(function () {\nvar mavaPlayer = ${mavaPlayer.toString()};\nmavaPlayer(window.__MAVA_COURSE__, document.getElementById('mava-player'));\n})();\n`;
+}
+
+/** Files of a playable export rooted at `index.html`. */
+export function buildHtml5Files(data: PlayerData, extras: Html5BuildExtras = {}): ExportFile[] {
+  return [
+    { path: 'index.html', content: indexHtml(data, extras.headScripts ?? []) },
+    { path: 'styles.css', content: PLAYER_CSS },
+    { path: 'data.js', content: `window.__MAVA_COURSE__ = ${safeJson(data)};\n` },
+    { path: 'scripts.js', content: scriptsJs(data) },
+    { path: 'player.js', content: playerJs() },
+    ...(extras.files ?? []),
+  ];
+}
+
+/** Trigger a browser download of `bytes`. */
+export function downloadBlob(bytes: Uint8Array | string, filename: string, type = 'application/zip') {
+  const blob = new Blob([bytes as BlobPart], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Export the open project as a zipped HTML5 folder and download it. */
+export function exportHtml5(opts: Html5ExportOptions = {}) {
+  try {
+    const { data, warnings } = collectPlayerData(opts);
+    const files = buildHtml5Files(data);
+    const name = `${slug(data.course.title)}-html5.zip`;
+    downloadBlob(createZip(files), name);
+    for (const w of warnings) devOutput.append('warn', w, { source: 'export' });
+    addNotification(
+      warnings.length ? `Exported ${name} with ${warnings.length} warning(s); see Output` : `Exported ${name}`,
+      { type: warnings.length ? 'warn' : 'info' },
+    );
+  } catch (e: any) {
+    devOutput.append('error', `HTML5 export failed: ${e?.message ?? e}`, { source: 'export' });
+    addNotification('HTML5 export failed', { type: 'error' });
+  }
+}
@@ -0,0 +1,51 @@
+// In-memory LRS stand-in for the xAPI plugin. Install its transport as `window.MavaXapiTransport`
+// (or on a fake window) to capture statements without a network; toggle `offline` to make
+// sends fail and exercise the plugin's queue and retry path.
+
+import type { XapiStatement, XapiTransport } from './xapiRuntime';
+
+export interface MemoryLrs {
+  transport: XapiTransport;
+  /** Accepted statements in arrival order. */
+  statements: XapiStatement[];
+  /** While true every send rejects, as if the LRS were unreachable. */
+  offline: boolean;
+  /** Number of send attempts (including failed ones). */
+  attempts: number;
+  byVerb(verb: string): XapiStatement[];
+  clear(): void;
+}
+
+// Just enough of the spec's required-property checks to catch malformed statements early
+function validate(s: XapiStatement): string | null {
+  if (!s?.id) return 'missing id';
+  if (!s.actor || (!s.actor.mbox && !s.actor.account && !s.actor.name)) return 'missing actor';
+  if (!s.verb?.id || !/^[a-z][a-z0-9+.-]*:/i.test(s.verb.id)) return 'verb id must be an IRI';
+  if (s.object?.objectType !== 'Activity' || !/^[a-z][a-z0-9+.-]*:/i.test(s.object.id)) return 'object must be an Activity with an IRI id';
+  if (!s.timestamp || Number.isNaN(Date.parse(s.timestamp))) return 'invalid timestamp';
+  return null;
+}
+
+export function createMemoryLrs(): MemoryLrs {
+  const lrs: MemoryLrs = {
+    statements: [],
+    offline: false,
+    attempts: 0,
+    transport: {
+      async send(batch) {
+        lrs.attempts++;
+        if (lrs.offline) throw new Error('LRS offline');
+        for (const s of batch) {
+          const problem = validate(s);
+          if (problem) throw new Error(`Invalid statement ${s?.id ?? '?'}: ${problem}`);
+        }
+        // Statement ids are idempotency keys: a resent batch must not duplicate
+        const seen = new Set(lrs.statements.map((s) => s.id));
+        lrs.statements.push(...batch.filter((s) => !seen.has(s.id)));
+      },
+    },
+    byVerb: (verb) => lrs.statements.filter((s) => s.verb.display['en-US'] === verb || s.verb.id.endsWith(`/${verb}`)),
+    clear() { lrs.statements = []; lrs.attempts = 0; },
+  };
+  return lrs;
+}
@@ -0,0 +1,135 @@
+// In-memory SCORM LMS API for exercising SCORM packages and the scorm.js plugin without an LMS.
+// Implements the call protocol (initialize → get/set/commit → finish) with the standard error
+// codes for out-of-order calls, keeps the CMI data model as a flat key/value map and records
+// every call so behaviour can be asserted. `installMockLms` exposes it where the plugin looks.
+
+import type { ScormApi12, ScormApi2004 } from './scormRuntime';
+import type { ScormVersion } from './types';
+
+export interface MockLmsCall {
+  method: string;
+  args: string[];
+  result: string;
+}
+
+export interface MockLms {
+  version: ScormVersion;
+  api: ScormApi12 | ScormApi2004;
+  /** Current CMI values (seeded defaults plus everything the content set). */
+  cmi: Record<string, string>;
+  /** Snapshot of `cmi` at each successful commit. */
+  commits: Array<Record<string, string>>;
+  calls: MockLmsCall[];
+  state(): 'not-initialized' | 'running' | 'terminated';
+}
+
+// Elements a SCO may not write (LMS-owned) per version
+const READ_ONLY: Record<ScormVersion, Set<string>> = {
+  '1.2': new Set(['cmi.core.student_id', 'cmi.core.student_name', 'cmi.core.entry', 'cmi.core.credit', 'cmi.core.total_time', 'cmi.launch_data']),
+  '2004': new Set(['cmi.learner_id', 'cmi.learner_name', 'cmi.entry', 'cmi.credit', 'cmi.total_time', 'cmi.launch_data', 'cmi.mode']),
+};
+
+const WRITE_ONLY: Record<ScormVersion, Set<string>> = {
+  '1.2': new Set(['cmi.core.exit', 'cmi.core.session_time']),
+  '2004': new Set(['cmi.exit', 'cmi.session_time']),
+};
+
+const ERRORS: Record<ScormVersion, Record<string, string>> = {
+  '1.2': { '0': 'No error', '101': 'General exception', '301': 'Not initialized', '401': 'Not implemented error', '403': 'Element is read only', '404': 'Element is write only' },
+  '2004': { '0': 'No error', '103': 'Already initialized', '104': 'Content instance terminated', '112': 'Termination before initialization', '113': 'Termination after termination', '122': 'Retrieve data before initialization', '123': 'Retrieve data after termination', '132': 'Store data before initialization', '133': 'Store data after termination', '142': 'Commit before initialization', '143': 'Commit after termination', '401': 'Undefined data model element', '404': 'Data model element is read only', '405': 'Data model element is write only' },
+};
+
+function defaults(version: ScormVersion): Record<string, string> {
+  return version === '1.2'
+    ? { 'cmi.core.student_id': 'learner-1', 'cmi.core.student_name': 'Learner, Test', 'cmi.core.entry': 'ab-initio', 'cmi.core.credit': 'credit', 'cmi.core.lesson_status': 'not attempted', 'cmi.core.total_time': '0000:00:00', 'cmi.suspend_data': '', 'cmi.core.lesson_location': '' }
+    : { 'cmi.learner_id': 'learner-1', 'cmi.learner_name': 'Learner, Test', 'cmi.entry': 'ab-initio', 'cmi.credit': 'credit', 'cmi.mode': 'normal', 'cmi.completion_status': 'unknown', 'cmi.success_status': 'unknown', 'cmi.total_time': 'PT0S', 'cmi.suspend_data': '', 'cmi.location': '' };
+}
+
+/** Create a mock LMS. `seed` overrides CMI values, e.g. suspend data to test resume. */
+export function createMockLms(version: ScormVersion, seed: Record<string, string> = {}): MockLms {
+  const cmi: Record<string, string> = { ...defaults(version), ...seed };
+  const commits: Array<Record<string, string>> = [];
+  const calls: MockLmsCall[] = [];
+  let phase: ReturnType<MockLms['state']> = 'not-initialized';
+  let lastError = '0';
+  const is2004 = version === '2004';
+
+  const record = (method: string, args: string[], result: string) => { calls.push({ method, args, result }); return result; };
+  const fail = (code: string, falseValue = 'false') => { lastError = code; return falseValue; };
+  const ok = (value = 'true') => { lastError = '0'; return value; };
+
+  // Out-of-order calls map to version specific codes: [before init, after terminate]
+  const guard = (before: string, after: string): string | null => {
+    if (phase === 'not-initialized') return is2004 ? before : '301';
+    if (phase === 'terminated') return is2004 ? after : '301';
+    return null;
+  };
+
+  const initialize = () => {
+    if (phase === 'running') return fail(is2004 ? '103' : '101');
+    if (phase === 'terminated') return fail(is2004 ? '104' : '101');
+    phase = 'running';
+    return ok();
+  };
+  const finish = () => {
+    if (phase !== 'running') return fail(phase === 'terminated' ? (is2004 ? '113' : '101') : (is2004 ? '112' : '301'));
+    commits.push({ ...cmi });
+    phase = 'terminated';
+    // A suspended exit resumes next launch
+    const exit = cmi[is2004 ? 'cmi.exit' : 'cmi.core.exit'];
+    cmi[is2004 ? 'cmi.entry' : 'cmi.core.entry'] = exit === 'suspend' ? 'resume' : '';
+    return ok();
+  };
+  const getValue = (key: string) => {
+    const err = guard('122', '123');
+    if (err) return fail(err, '');
+    if (WRITE_ONLY[version].has(key)) return fail(is2004 ? '405' : '404', '');
+    if (!(key in cmi) && !key.startsWith('cmi.')) return fail('401', '');
+    return ok(cmi[key] ?? '');
+  };
+  const setValue = (key: string, value: string) => {
+    const err = guard('132', '133');
+    if (err) return fail(err);
+    if (READ_ONLY[version].has(key)) return fail(is2004 ? '404' : '403');
+    if (!key.startsWith('cmi.')) return fail('401');
+    cmi[key] = String(value);
+    return ok();
+  };
+  const commit = () => {
+    const err = guard('142', '143');
+    if (err) return fail(err);
+    commits.push({ ...cmi });
+    return ok();
+  };
+  const errorString = (code: string) => ERRORS[version][code] ?? 'Unknown error';
+
+  const api = is2004
+    ? {
+        Initialize: (a: '') => record('Initialize', [a], initialize()),
+        Terminate: (a: '') => record('Terminate', [a], finish()),
+        GetValue: (k: string) => record('GetValue', [k], getValue(k)),
+        SetValue: (k: string, v: string) => record('SetValue', [k, v], setValue(k, v)),
+        Commit: (a: '') => record('Commit', [a], commit()),
+        GetLastError: () => lastError,
+        GetErrorString: errorString,
+      } satisfies ScormApi2004
+    : {
+        LMSInitialize: (a: '') => record('LMSInitialize', [a], initialize()),
+        LMSFinish: (a: '') => record('LMSFinish', [a], finish()),
+        LMSGetValue: (k: string) => record('LMSGetValue', [k], getValue(k)),
+        LMSSetValue: (k: string, v: string) => record('LMSSetValue', [k, v], setValue(k, v)),
+        LMSCommit: (a: '') => record('LMSCommit', [a], commit()),
+        LMSGetLastError: () => lastError,
+        LMSGetErrorString: errorString,
+      } satisfies ScormApi12;
+
+  return { version, api, cmi, commits, calls, state: () => phase };
+}
+
+/** Expose a mock LMS on `win` under the name the SCORM plugin searches for. */
+export function installMockLms(win: any, lms: MockLms): () => void {
+  const name = lms.version === '2004' ? 'API_1484_11' : 'API';
+  const prev = win[name];
+  win[name] = lms.api;
+  return () => { win[name] = prev; };
+}
@@ -0,0 +1,699 @@
+// Standalone course player shipped as `player.js` in HTML5 exports.
+// `mavaPlayer` is serialized with Function.prototype.toString(), so it must not reference
+// anything outside its own body (no imports at runtime, no module-level helpers). It mirrors
+// the studio runtime at a smaller scale: page timelines with clips/keyframes/cues, the
+// canonical trigger model with nested conditions, page + global variables and scripts
+// running against a reduced `Mava` API.
+//
+// Packagers (SCORM, xAPI) hook in through `window.MavaPlayerPlugins`: each plugin is called
+// with the player API before the first page starts, so it can restore state and listen to events.
+
+import type { PlayerData } from './types';
+
+export type PlayerEvent = 'page' | 'variable' | 'complete' | 'trigger';
+
+export interface PlayerState {
+  pageId: string | null;
+  visited: string[];
+  /** Variable values keyed by variable id. */
+  values: Record<string, unknown>;
+}
+
+export interface PlayerApi {
+  readonly data: PlayerData;
+  on(event: PlayerEvent, fn: (payload: any) => void): () => void;
+  goTo(pageId: string): void;
+  next(): void;
+  prev(): void;
+  getState(): PlayerState;
+  setState(state: Partial<PlayerState>): void;
+  /** Limit navigation to these pages (in course order); used by per-lesson/module SCOs. */
+  restrictTo(pageIds: string[]): void;
+  getVariable(name: string, pageId?: string): unknown;
+  setVariable(name: string, value: unknown, pageId?: string): void;
+}
+
+export function mavaPlayer(data: PlayerData, mount: HTMLElement): PlayerApi {
+  const win = window as any;
+  const listeners: Record<string, Set<(payload: any) => void>> = {};
+  const emit = (event: PlayerEvent, payload: any) => {
+    for (const fn of Array.from(listeners[event] ?? [])) { try { fn(payload); } catch (e) { console.warn('[mava] listener failed', e); } }
+  };
+
+  // ---- Variables -------------------------------------------------------------------------
+  const values: Record<string, unknown> = {};
+  for (const v of data.variables) values[v.id] = JSON.parse(JSON.stringify(v.initial ?? null));
+  const resolveVar = (name: string, pageId?: string | null) =>
+    data.variables.find((v) => v.name === name && v.scope === 'page' && v.pageId === (pageId ?? current?.id)) ??
+    data.variables.find((v) => v.name === name && v.scope === 'global') ?? null;
+  const getVar = (name: string, pageId?: string | null) => { const d = resolveVar(name, pageId); return d ? values[d.id] : undefined; };
+  const setVar = (name: string, value: unknown, pageId?: string | null) => {
+    const d = resolveVar(name, pageId);
+    if (!d) { console.warn(`[mava] unknown variable "${name}"`); return; }
+    if (d.readOnly) { console.warn(`[mava] variable "${name}" is read-only`); return; }
+    if (Object.is(values[d.id], value)) return;
+    values[d.id] = value;
+    emit('variable', { id: d.id, name: d.name, value });
+  };
+
+  // ---- Conditions (same coercion rules as the studio evaluator) -------------------------------
+  const inferType = (v: unknown) => v == null ? 'undefined' : Array.isArray(v) ? 'array' : typeof v === 'object' ? 'object' : typeof v;
+  const coerceTo = (type: string, v: any): any => {
+    if (type === 'number') { if (typeof v === 'number') return v; if (typeof v === 'boolean') return v ? 1 : 0; const n = Number(v); return typeof v === 'string' && v.trim() !== '' && Number.isFinite(n) ? n : NaN; }
+    if (type === 'boolean') { if (typeof v === 'boolean') return v; if (typeof v === 'number') return v !== 0; return /^(true|1|yes|on)$/i.test(String(v ?? '').trim()); }
+    if (type === 'string') return v == null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+    return v;
+  };
+  const equals = (a: any, b: any) => (typeof a === 'object' && a && typeof b === 'object' && b) ? JSON.stringify(a) === JSON.stringify(b) : Object.is(a, b) || a === b;
+  const operand = (ref: any) => {
+    if (ref?.type !== 'variable') return { isVar: false, value: ref?.value, type: inferType(ref?.value), missing: false };
+    const d = resolveVar(ref.name);
+    return { isVar: true, value: d ? values[d.id] : undefined, type: d ? d.type : 'undefined', missing: !d };
+  };
+  const evaluate = (node: any): boolean => {
+    if (!node) return true;
+    if (node.kind === 'group') {
+      const items = (node.items ?? []).map(evaluate);
+      return !items.length || (node.logic === 'OR' ? items.some(Boolean) : items.every(Boolean));
+    }
+    const l = operand(node.left); const r = operand(node.right);
+    if (l.missing || r.missing) return false;
+    if (node.op === 'includes') {
+      if (Array.isArray(l.value)) return l.value.some((x: any) => equals(x, coerceTo(inferType(x), r.value)));
+      return typeof l.value === 'string' && l.value.includes(String(r.value ?? ''));
+    }
+    const byLeft = l.isVar || !r.isVar;
+    const type = byLeft ? l.type : r.type;
+    const a = byLeft ? l.value : coerceTo(type, l.value);
+    const b = byLeft ? coerceTo(type, r.value) : r.value;
+    if (node.op === '==') return equals(a, b);
+    if (node.op === '!=') return !equals(a, b);
+    const numeric = typeof a === 'number' && typeof b === 'number' && !Number.isNaN(a) && !Number.isNaN(b);
+    if (!numeric && !(typeof a === 'string' && typeof b === 'string')) return false;
+    switch (node.op) {
+      case '>': return a > b;
+      case '<': return a < b;
+      case '>=': return a >= b;
+      case '<=': return a <= b;
+      default: return false;
+    }
+  };
+
+  // ---- Stage -----------------------------------------------------------------------------
+  mount.innerHTML = '';
+  mount.className = 'mava-player';
+  const viewport = document.createElement('div');
+  viewport.className = 'mava-viewport';
+  const stageNode = document.createElement('div');
+  stageNode.className = 'mava-stage';
+  stageNode.style.width = `${data.stage.width}px`;
+  stageNode.style.height = `${data.stage.height}px`;
+  viewport.appendChild(stageNode);
+  const nav = document.createElement('nav');
+  nav.className = 'mava-nav';
+  nav.innerHTML = '<button type="button" data-nav="prev">&#9664; Prev</button><span class="mava-progress"></span><button type="button" data-nav="next">Next &#9654;</button>';
+  mount.append(viewport, nav);
+  const progress = nav.querySelector('.mava-progress') as HTMLElement;
+  const prevBtn = nav.querySelector('[data-nav="prev"]') as HTMLButtonElement;
+  const nextBtn = nav.querySelector('[data-nav="next"]') as HTMLButtonElement;
+
+  const fit = () => {
+    const scale = Math.min(viewport.clientWidth / data.stage.width, viewport.clientHeight / data.stage.height) || 1;
+    stageNode.style.transform = `translate(-50%, -50%) scale(${scale})`;
+  };
+  window.addEventListener('resize', fit);
+
+  // ---- Timeline --------------------------------------------------------------------------
+  type Listener = (e: any) => void;
+  const makeTimeline = (id: string) => {
+    const rec = data.timelines[id];
+    const tl = {
+      id,
+      duration: rec?.duration ?? 0,
+      loop: !!rec?.loop,
+      time: 0,
+      playing: false,
+      subs: new Set<Listener>(),
+      emit(e: any) { for (const fn of Array.from(tl.subs)) { try { fn(e); } catch (err) { console.warn('[mava] timeline listener failed', err); } } },
+      play() { if (tl.playing) return; if (tl.time >= tl.duration && !tl.loop) tl.time = 0; tl.playing = true; tl.emit({ type: 'play' }); },
+      pause() { if (!tl.playing) return; tl.playing = false; tl.emit({ type: 'pause' }); },
+      stop() { const was = tl.playing; tl.playing = false; tl.time = 0; paint(); if (was) tl.emit({ type: 'stop' }); },
+      seek(ms: number) { tl.time = Math.max(0, Math.min(tl.duration, Math.floor(Number(ms) || 0))); paint(); tl.emit({ type: 'seek', time: tl.time }); },
+      advance(dt: number) {
+        if (!tl.playing) return;
+        const prev = tl.time;
+        let next = prev + dt;
+        let wrapped = false;
+        if (next >= tl.duration) {
+          if (tl.loop && tl.duration > 0) { next = next % tl.duration; wrapped = true; }
+          else next = tl.duration;
+        }
+        tl.time = next;
+        for (const cue of rec?.cuePoints ?? []) {
+          const hit = wrapped ? (cue.time > prev || cue.time <= next) : (cue.time > prev && cue.time <= next);
+          if (hit) tl.emit({ type: 'cue', cue });
+        }
+        if (wrapped) { nestedCues(tl, rec, prev, tl.duration, [], new Set([id])); nestedCues(tl, rec, -1, next, [], new Set([id])); }
+        else nestedCues(tl, rec, prev, next, [], new Set([id]));
+        if (wrapped) tl.emit({ type: 'loop' });
+        if (!wrapped && next >= tl.duration && !tl.loop) { tl.playing = false; tl.emit({ type: 'pause' }); }
+      },
+    };
+    return tl;
+  };
+  type Timeline = ReturnType<typeof makeTimeline>;
+
+  // Curves arrive as lookup tables (see ExportedKeyframe.easing); steps() as parameters
+  const ease = (easing: any, t: number) => {
+    if (Array.isArray(easing) && easing.length > 1) {
+      const n = easing.length - 1;
+      const i = Math.max(0, Math.min(n - 1, Math.floor(t * n)));
+      return easing[i] + (easing[i + 1] - easing[i]) * (t * n - i);
+    }
+    if (easing?.kind === 'steps') {
+      const n = Math.max(1, Math.round(easing.count) || 1);
+      return t >= 1 ? 1 : Math.min(1, (Math.floor(t * n) + (easing.position === 'start' ? 1 : 0)) / n);
+    }
+    return t;
+  };
+  const sample = (kfs: any[], t: number) => {
+    if (t <= kfs[0].time) return kfs[0].value;
+    const last = kfs[kfs.length - 1];
+    if (t >= last.time) return last.value;
+    for (let i = 0; i < kfs.length - 1; i++) {
+      const a = kfs[i]; const b = kfs[i + 1];
+      if (t >= a.time && t <= b.time) {
+        const span = b.time - a.time || 1;
+        return a.value + (b.value - a.value) * ease(b.easing, (t - a.time) / span);
+      }
+    }
+    return last.value;
+  };
+  // Point and direction at `progress` of a flattened path (see runtime/motionPath)
+  const pathPoint = (mp: any, progress: number) => {
+    const { points, lengths } = mp;
+    const n = lengths.length;
+    const total = lengths[n - 1] || 0;
+    if (!n) return null;
+    if (n === 1 || total <= 0) return { x: points[0], y: points[1], angle: 0 };
+    const p = mp.closed ? progress - Math.floor(progress) : Math.max(0, Math.min(1, progress));
+    const d = p * total;
+    let lo = 0; let hi = n - 1;
+    while (hi - lo > 1) { const mid = (lo + hi) >> 1; if (lengths[mid] <= d) lo = mid; else hi = mid; }
+    const span = lengths[hi] - lengths[lo];
+    const t = span > 0 ? (d - lengths[lo]) / span : 0;
+    const ax = points[lo * 2]; const ay = points[lo * 2 + 1];
+    const bx = points[hi * 2]; const by = points[hi * 2 + 1];
+    return { x: ax + (bx - ax) * t, y: ay + (by - ay) * t, angle: (Math.atan2(by - ay, bx - ax) * 180) / Math.PI };
+  };
+  // Child time of a nested clip at parent time `t` (see runtime/nestedTimelines)
+  const nestedAt = (clip: any, d: number, t: number) => {
+    if (d <= 0) return 0;
+    const offset = Math.max(0, clip.offset ?? 0) % d;
+    const speed = clip.speed > 0 ? clip.speed : 1;
+    const loops = clip.loops >= 1 ? Math.floor(clip.loops) : 1;
+    const played = (t - clip.start) * speed;
+    if (played < 0) return offset;
+    const total = loops * d;
+    const at = offset + Math.min(played, total);
+    const time = at % d;
+    return played >= total && time === 0 && at > 0 ? d : time;
+  };
+  // Cues of nested timelines crossed while the parent moved prev -> next, re-emitted on the
+  // parent with the path of timelines they came through
+  const nestedCues = (tl: any, layer: any, prev: number, next: number, path: string[], seen: Set<string>) => {
+    for (const clip of layer?.nested ?? []) {
+      const child = data.timelines[clip.timelineId];
+      if (!child || seen.has(child.id) || child.duration <= 0) continue;
+      const speed = clip.speed > 0 ? clip.speed : 1;
+      const total = (clip.loops >= 1 ? Math.floor(clip.loops) : 1) * child.duration;
+      const from = (prev - clip.start) * speed;
+      const to = (next - clip.start) * speed;
+      if (to < 0 || from >= total) continue;
+      const offset = Math.max(0, clip.offset ?? 0) % child.duration;
+      const iter = (p: number) => Math.floor((offset + Math.max(0, Math.min(p, total))) / child.duration);
+      const cp = nestedAt(clip, child.duration, prev);
+      const cn = nestedAt(clip, child.duration, next);
+      const wrapped = iter(to) !== iter(from) && cn !== child.duration;
+      const via = [...path, child.id];
+      for (const cue of child.cuePoints ?? []) {
+        const hit = wrapped ? (cue.time > cp || cue.time <= cn) : (cue.time > cp && cue.time <= cn);
+        if (hit) tl.emit({ type: 'cue', cue, path: via });
+      }
+      const deeper = new Set([...seen, child.id]);
+      if (wrapped) { nestedCues(tl, child, cp, child.duration, via, deeper); nestedCues(tl, child, -1, cn, via, deeper); }
+      else nestedCues(tl, child, cp, cn, via, deeper);
+    }
+  };
+  // Walker for the parsed property expressions (see runtime/expressions; same semantics)
+  const exprFns: Record<string, (...a: number[]) => number> = {
+    sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan, atan2: Math.atan2,
+    sqrt: Math.sqrt, abs: Math.abs, sign: Math.sign, floor: Math.floor, ceil: Math.ceil, round: Math.round,
+    exp: Math.exp, log: Math.log, pow: Math.pow, min: Math.min, max: Math.max,
+    clamp: (x, lo, hi) => Math.max(lo, Math.min(hi, x)),
+    lerp: (a, b, k) => a + (b - a) * k,
+    mod: (a, b) => ((a % b) + b) % b,
+    rad: (d) => (d * Math.PI) / 180,
+    deg: (r) => (r * 180) / Math.PI,
+  };
+  const evalExpr = (n: any, env: any): number => {
+    switch (n.k) {
+      case 'num': return n.v;
+      case 'name': return env[n.name];
+      case 'var': {
+        const v = getVar(n.name);
+        const num = typeof v === 'boolean' ? (v ? 1 : 0) : typeof v === 'string' && v.trim() === '' ? NaN : Number(v);
+        if (v === undefined || Number.isNaN(num)) throw new Error(`Variable "${n.name}" is not a number`);
+        return num;
+      }
+      case 'prop': return env.property(n.element, n.prop);
+      case 'unary': { const a = evalExpr(n.a, env); return n.op === '-' ? -a : n.op === '!' ? (a ? 0 : 1) : a; }
+      case 'cond': return evalExpr(n.c, env) ? evalExpr(n.a, env) : evalExpr(n.b, env);
+      case 'call': {
+        if (!Object.hasOwn(exprFns, n.fn)) throw new Error(`Unknown function "${n.fn}"`);
+        return exprFns[n.fn](...n.args.map((a: any) => evalExpr(a, env)));
+      }
+      case 'binary': {
+        if (n.op === '&&') return evalExpr(n.a, env) && evalExpr(n.b, env) ? 1 : 0;
+        if (n.op === '||') return evalExpr(n.a, env) || evalExpr(n.b, env) ? 1 : 0;
+        const a = evalExpr(n.a, env); const b = evalExpr(n.b, env);
+        switch (n.op) {
+          case '+': return a + b; case '-': return a - b; case '*': return a * b; case '/': return a / b;
+          case '%': return a % b; case '^': return Math.pow(a, b);
+          case '==': return a === b ? 1 : 0; case '!=': return a !== b ? 1 : 0;
+          case '<': return a < b ? 1 : 0; case '<=': return a <= b ? 1 : 0;
+          case '>': return a > b ? 1 : 0; case '>=': return a >= b ? 1 : 0;
+        }
+      }
+    }
+    throw new Error('Malformed expression');
+  };
+  const exprErrors = new Set<string>();
+
+  // ---- Page session ----------------------------------------------------------------------
+  let index = -1;
+  let current: PlayerData['pages'][number] | null = null;
+  let timeline: Timeline | null = null;
+  let sessionOffs: Array<() => void> = [];
+  const visited = new Set<string>();
+  // Pages this launch plays (a SCO may cover a single lesson or module of the course)
+  let pages = data.pages;
+  const tickSubs = new Set<(t: number, dt: number) => void>();
+  const nodes = new Map<string, HTMLElement>();
+
+  function paint() {
+    if (!current || !timeline) return;
+    const rec = data.timelines[timeline.id];
+    if (!rec) return;
+    const alive = new Set<string>();
+    const hasClip = new Set<string>();
+    for (const c of rec.clips) {
+      hasClip.add(c.elementId);
+      if (timeline.time >= c.start && timeline.time < c.end) alive.add(c.elementId);
+    }
+    // The last frame keeps clips ending exactly at the duration visible
+    if (timeline.time >= timeline.duration) for (const c of rec.clips) if (c.end >= timeline.duration) alive.add(c.elementId);
+    nodes.forEach((node, id) => { node.style.visibility = hasClip.has(id) && !alive.has(id) ? 'hidden' : ''; });
+    // Tracks of nested timelines first (deepest first, at their mapped time), then our own:
+    // the nearer timeline wins per element + property
+    const byTarget = new Map<string, { kfs: any[]; time: number; rec: any }>();
+    const addLayer = (layer: any, time: number, seen: Set<string>) => {
+      for (const clip of layer.nested ?? []) {
+        const child = data.timelines[clip.timelineId];
+        if (!child || seen.has(child.id)) continue;
+        addLayer(child, nestedAt(clip, child.duration, time), new Set([...seen, child.id]));
+      }
+      const own = new Map<string, any[]>();
+      for (const k of layer.keyframes) {
+        const key = `${k.elementId}\u0000${k.property}`;
+        if (!own.has(key)) own.set(key, []);
+        own.get(key)!.push(k);
+      }
+      own.forEach((kfs, key) => byTarget.set(key, { kfs, time, rec: layer }));
+    };
+    addLayer(rec, timeline.time, new Set([rec.id]));
+    const transforms = new Map<HTMLElement, { rotation?: number; scale?: number; orient?: number; baseRotation?: number }>();
+    // Track values by element + property (x / y in stage coordinates), read by expressions
+    const sampled = new Map<string, number>();
+    byTarget.forEach(({ kfs, time, rec: layer }, key) => {
+      const [elementId, property] = key.split('\u0000');
+      const node = nodes.get(elementId);
+      // Colour and text-size tracks are not played back here (shapes render as SVG)
+      if (!node || typeof kfs[0].value !== 'number') return;
+      const v = sample(kfs, time);
+      sampled.set(key, v);
+      const followsPath = byTarget.has(`${elementId}\u0000motionPath`);
+      switch (property) {
+        case 'opacity': node.style.opacity = String(Math.max(0, Math.min(1, v))); break;
+        case 'x': if (!followsPath) node.style.left = `${v}px`; break;
+        case 'y': if (!followsPath) node.style.top = `${v}px`; break;
+        case 'width': node.style.width = `${Math.max(0, v)}px`; break;
+        case 'height': node.style.height = `${Math.max(0, v)}px`; break;
+        case 'blur': node.style.filter = v > 0 ? `blur(${v}px)` : ''; break;
+        case 'rotation': case 'scale': {
+          const t = transforms.get(node) ?? {};
+          t[property] = v;
+          transforms.set(node, t);
+          break;
+        }
+        case 'motionPath': {
+          // The path carries the element's centre (x / y tracks are skipped above)
+          const mp = layer.motionPaths?.[elementId];
+          const at = mp ? pathPoint(mp, v) : null;
+          if (!at) break;
+          node.style.left = `${at.x - mp!.halfWidth}px`;
+          node.style.top = `${at.y - mp!.halfHeight}px`;
+          sampled.set(`${elementId}\u0000x`, at.x - mp!.halfWidth);
+          sampled.set(`${elementId}\u0000y`, at.y - mp!.halfHeight);
+          if (mp!.autoOrient) {
+            const t = transforms.get(node) ?? {};
+            t.orient = at.angle;
+            t.baseRotation = mp!.rotation;
+            transforms.set(node, t);
+          }
+          break;
+        }
+      }
+    });
+    if (current.expressions) paintExpressions(current.expressions, sampled, transforms);
+    transforms.forEach((t, node) => {
+      // Keep the rendered rotation when only the scale is animated
+      if (node.dataset.baseTransform === undefined) node.dataset.baseTransform = node.style.transform;
+      const orient = t.orient !== undefined ? t.orient + (t.rotation ?? t.baseRotation ?? 0) : undefined;
+      const rotate = orient !== undefined ? `rotate(${orient}deg)` : t.rotation !== undefined ? `rotate(${t.rotation}deg)` : node.dataset.baseTransform;
+      node.style.transform = `${rotate ?? ''}${t.scale !== undefined ? ` scale(${t.scale})` : ''}`.trim();
+    });
+  }
+
+  // Expressions run after the tracks; x / y are evaluated in local units and painted in stage ones
+  function paintExpressions(els: Record<string, any>, sampled: Map<string, number>, transforms: Map<HTMLElement, any>) {
+    const done = new Map<string, number>();
+    const active = new Set<string>();
+    const valueOf = (id: string, prop: string) => {
+      const v = sampled.get(`${id}\u0000${prop}`);
+      const off = prop === 'x' ? els[id].offset.x : prop === 'y' ? els[id].offset.y : 0;
+      return v !== undefined ? v - off : els[id].base[prop] ?? 0;
+    };
+    const resolve = (id: string, prop: string): number => {
+      const key = `${id}\u0000${prop}`;
+      if (done.has(key)) return done.get(key)!;
+      const node = els[id].expressions?.[prop];
+      if (!node) return valueOf(id, prop);
+      if (active.has(key)) throw new Error(`Circular reference to ${els[id].name}.${prop}`);
+      active.add(key);
+      let result = valueOf(id, prop);
+      try {
+        const v = evalExpr(node, {
+          t: timeline!.time,
+          duration: timeline!.duration,
+          value: result,
+          property: (name: string, p: string) => {
+            const other = Object.keys(els).find((k) => els[k].name === name);
+            if (!other) throw new Error(`No element named "${name}"`);
+            return resolve(other, p);
+          },
+        });
+        if (!Number.isFinite(v)) throw new Error(`Result is ${v}`);
+        result = v;
+      } catch (e: any) {
+        const msg = `Expression ${els[id].name}.${prop}: ${e?.message ?? e}`;
+        if (!exprErrors.has(msg)) { exprErrors.add(msg); console.warn('[mava]', msg); }
+      } finally {
+        active.delete(key);
+      }
+      done.set(key, result);
+      return result;
+    };
+    for (const id of Object.keys(els)) {
+      const node = nodes.get(id);
+      for (const prop of Object.keys(els[id].expressions ?? {})) {
+        const v = resolve(id, prop);
+        if (!node) continue;
+        switch (prop) {
+          case 'opacity': node.style.opacity = String(Math.max(0, Math.min(1, v))); break;
+          case 'x': node.style.left = `${v + els[id].offset.x}px`; break;
+          case 'y': node.style.top = `${v + els[id].offset.y}px`; break;
+          case 'width': node.style.width = `${Math.max(0, v)}px`; break;
+          case 'height': node.style.height = `${Math.max(0, v)}px`; break;
+          case 'blur': node.style.filter = v > 0 ? `blur(${v}px)` : ''; break;
+          case 'rotation': case 'scale': {
+            const t = transforms.get(node) ?? {};
+            t[prop] = v;
+            transforms.set(node, t);
+            break;
+          }
+          // fontSize: text sizes are baked into the rendered markup, as for keyframes
+        }
+      }
+    }
+  }
+
+  const chainFor = (id: string | null) => {
+    const byId = new Map((current?.elements ?? []).map((e) => [e.id, e]));
+    const chain: Array<{ id: string; name: string; type: string; parentId?: string }> = [];
+    let cur = id ? byId.get(id) : undefined;
+    while (cur && !chain.includes(cur)) { chain.push(cur); cur = cur.parentId ? byId.get(cur.parentId) : undefined; }
+    return chain;
+  };
+  const compileSelector = (selector: string) => {
+    const types = ['line', 'rectangle', 'ellipse', 'path', 'text', 'image', 'hotspot', 'collection', 'component', 'polygon'];
+    const tests = String(selector ?? '').split(',').map((s) => s.trim()).filter(Boolean).map((p) => {
+      if (p === '*') return () => true;
+      if (p.startsWith('#')) return (el: any) => el.id === p.slice(1);
+      const name = (p.startsWith('@') ? p.slice(1) : p).toLowerCase();
+      if (!p.startsWith('@') && types.includes(p)) return (el: any) => el.type === p || String(el.name ?? '').toLowerCase() === name;
+      return (el: any) => String(el.name ?? '').toLowerCase() === name;
+    });
+    return (el: any) => tests.some((t) => t(el));
+  };
+  const elementIdFrom = (target: EventTarget | null) => {
+    const hit = target instanceof Element ? target.closest('[data-element-id]') : null;
+    return hit && stageNode.contains(hit) ? hit.getAttribute('data-element-id') : null;
+  };
+  const onElement = (selector: string, event: string, handler: () => void) => {
+    const matches = compileSelector(selector);
+    const fire = (ids: Array<{ id: string }>) => { if (ids.some(matches)) handler(); };
+    const listen = (type: string, fn: (e: any) => void) => { stageNode.addEventListener(type, fn); return () => stageNode.removeEventListener(type, fn); };
+    if (event === 'mouseenter' || event === 'mouseleave') {
+      const domType = event === 'mouseenter' ? 'pointerover' : 'pointerout';
+      // over: target is entered, relatedTarget left; out: the reverse. Either way only elements
+      // not shared with relatedTarget's chain actually crossed the boundary.
+      return listen(domType, (e) => {
+        const otherIds = new Set(chainFor(elementIdFrom(e.relatedTarget)).map((x) => x.id));
+        fire(chainFor(elementIdFrom(e.target)).filter((x) => !otherIds.has(x.id)));
+      });
+    }
+    if (event === 'keypress') {
+      return listen('keydown', (e) => { if (!e.repeat && !['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) fire(chainFor(elementIdFrom(e.target))); });
+    }
+    return listen(event, (e) => fire(chainFor(elementIdFrom(e.target))));
+  };
+
+  const timelineFor = (id?: string | null) => (!id || id === timeline?.id ? timeline : null);
+  const runActions = (actions: any[], def: any) => {
+    for (const action of actions ?? []) {
+      if (action.condition && !evaluate(action.condition)) continue;
+      const tl = timelineFor(action.timelineId ?? def.timelineId);
+      switch (action.kind) {
+        case 'log': console.log(`[trigger:${def.name}]`, action.message); break;
+        case 'timeline.play': tl?.play(); break;
+        case 'timeline.pause': tl?.pause(); break;
+        case 'timeline.stop': tl?.stop(); break;
+        case 'timeline.seek': tl?.seek(action.ms); break;
+        case 'timeline.loop': if (tl) tl.loop = !!action.loop; break;
+        case 'variable.set': setVar(action.name, action.value); break;
+        case 'variable.adjust': setVar(action.name, Number(getVar(action.name) ?? 0) + (Number(action.by) || 0)); break;
+        default: console.warn('[mava] unknown action', action.kind);
+      }
+    }
+  };
+  const running = new Set<string>();
+  const fireTrigger = (def: any) => {
+    if (running.has(def.id)) return;
+    if (def.conditions && !evaluate(def.conditions)) return;
+    running.add(def.id);
+    try { runActions(def.actions, def); emit('trigger', { id: def.id, name: def.name }); } finally { running.delete(def.id); }
+  };
+  const bindTrigger = (def: any): (() => void) | null => {
+    if (!def?.enabled) return null;
+    const src = def.source;
+    switch (src?.kind) {
+      case 'timeline': {
+        const tl = timelineFor(src.timelineId ?? def.timelineId);
+        if (!tl) return null;
+        const fn: Listener = (e) => {
+          if (e.type !== src.event) return;
+          if (src.event === 'cue' && (src.cueId || src.cueName)) {
+            const cue = e.cue ?? {};
+            const byId = src.cueId && cue.id === src.cueId;
+            const byName = src.cueName && (cue.name ?? cue.label) === src.cueName;
+            if (!byId && !byName) return;
+          }
+          fireTrigger(def);
+        };
+        tl.subs.add(fn);
+        return () => tl.subs.delete(fn);
+      }
+      case 'element': return onElement(src.selector, src.event, () => fireTrigger(def));
+      case 'timer': {
+        const ms = Math.max(0, Number(src.delayMs) || 0);
+        if (src.event === 'interval') { const h = setInterval(() => fireTrigger(def), Math.max(16, ms)); return () => clearInterval(h); }
+        const h = setTimeout(() => fireTrigger(def), ms);
+        return () => clearTimeout(h);
+      }
+      case 'variable': {
+        const fn = (e: any) => { if (!src.name || e.name === src.name) fireTrigger(def); };
+        (listeners.variable ??= new Set()).add(fn);
+        return () => listeners.variable?.delete(fn);
+      }
+      default: return null;
+    }
+  };
+
+  const makeMava = () => {
+    const timers = new Set<() => void>();
+    const variables = new Proxy({
+      get: (name: string) => getVar(name),
+      set: (name: string, value: unknown) => setVar(name, value),
+    } as Record<string, any>, {
+      get: (t, p) => typeof p === 'string' && !(p in t) ? getVar(p) : Reflect.get(t, p),
+      set: (t, p, v) => { if (typeof p !== 'string' || p in t) return false; setVar(p, v); return true; },
+    });
+    const api = {
+      get time() { return { value: performance.now() }; },
+      onTick(fn: (t: number, dt: number) => void) { tickSubs.add(fn); return () => tickSubs.delete(fn); },
+      variables,
+      timeline: {
+        get value() { return { id: timeline?.id, time: timeline?.time ?? 0, duration: timeline?.duration ?? 0, playing: !!timeline?.playing }; },
+        play: () => timeline?.play(),
+        pause: () => timeline?.pause(),
+        seek: (ms: number) => timeline?.seek(ms),
+      },
+      builtin: {
+        project: { value: { title: data.course.title } },
+        page: { value: { id: current?.id ?? null, elements: current?.elements ?? [] } },
+      },
+      log: (...a: unknown[]) => console.log(...a),
+      warn: (...a: unknown[]) => console.warn(...a),
+      error: (...a: unknown[]) => console.error(...a),
+      setTimeout(fn: () => void, ms: number) { const h = setTimeout(fn, ms); const off = () => { clearTimeout(h); timers.delete(off); }; timers.add(off); return off; },
+      setInterval(fn: () => void, ms: number) { const h = setInterval(fn, ms); const off = () => { clearInterval(h); timers.delete(off); }; timers.add(off); return off; },
+      lerp: (a: number, b: number, t: number) => a + (b - a) * t,
+    };
+    return { api, dispose: () => Array.from(timers).forEach((off) => off()) };
+  };
+
+  const runScripts = (pageId: string) => {
+    const list = [
+      ...data.scripts.filter((s) => s.scope === 'global'),
+      ...data.scripts.filter((s) => s.scope === 'page' && s.pageId === pageId),
+    ];
+    if (!list.length) return;
+    const { api, dispose } = makeMava();
+    sessionOffs.push(dispose);
+    const compiled: Record<string, (mava: unknown) => unknown> = win.__MAVA_SCRIPTS__ ?? {};
+    for (const s of list) {
+      try {
+        // Precompiled bodies avoid eval (LMS frames often forbid it); source is the fallback
+        const fn = compiled[s.id] ?? new Function('Mava', '"use strict";\n' + s.code);
+        const ret = fn(api);
+        if (typeof ret === 'function') sessionOffs.push(ret as () => void);
+      } catch (e: any) {
+        console.error(`[${s.name}]`, String(e?.message ?? e));
+      }
+    }
+  };
+
+  const stopSession = () => {
+    while (sessionOffs.length) { const off = sessionOffs.pop(); try { off?.(); } catch { /* ignore */ } }
+    tickSubs.clear();
+    timeline?.stop();
+    timeline = null;
+  };
+
+  const updateNav = () => {
+    progress.textContent = `${index + 1} / ${pages.length}`;
+    prevBtn.disabled = index <= 0;
+    nextBtn.disabled = index >= pages.length - 1;
+  };
+
+  const show = (i: number) => {
+    const page = pages[i];
+    if (!page) return;
+    stopSession();
+    index = i;
+    current = page;
+    stageNode.style.background = page.background;
+    stageNode.innerHTML = page.html;
+    nodes.clear();
+    stageNode.querySelectorAll<HTMLElement>('[data-element-id]').forEach((n) => nodes.set(n.getAttribute('data-element-id')!, n));
+    document.title = `${page.title} — ${data.course.title}`;
+    if (location.hash !== `#${page.id}`) history.replaceState(null, '', `#${page.id}`);
+    timeline = page.timelineId && data.timelines[page.timelineId] ? makeTimeline(page.timelineId) : null;
+    for (const def of data.triggers) {
+      const off = bindTrigger(def);
+      if (off) sessionOffs.push(off);
+    }
+    runScripts(page.id);
+    paint();
+    timeline?.play();
+    fit();
+    updateNav();
+    visited.add(page.id);
+    emit('page', { pageId: page.id, moduleId: page.moduleId, lessonId: page.lessonId, index, total: pages.length });
+    if (pages.every((p) => visited.has(p.id))) emit('complete', { visited: Array.from(visited) });
+  };
+
+  let last = performance.now();
+  const frame = (now: number) => {
+    const dt = now - last;
+    last = now;
+    if (timeline?.playing) {
+      timeline.advance(dt);
+      paint();
+      timeline.emit({ type: 'tick', time: timeline.time, dt });
+    }
+    for (const fn of Array.from(tickSubs)) { try { fn(now, dt); } catch (e) { console.error(e); } }
+    requestAnimationFrame(frame);
+  };
+
+  const indexOf = (pageId: string) => pages.findIndex((p) => p.id === pageId);
+  const api: PlayerApi = {
+    data,
+    on(event, fn) { (listeners[event] ??= new Set()).add(fn); return () => listeners[event]?.delete(fn); },
+    goTo(pageId) { const i = indexOf(pageId); if (i >= 0) show(i); },
+    next() { if (index < pages.length - 1) show(index + 1); },
+    prev() { if (index > 0) show(index - 1); },
+    getState: () => ({ pageId: current?.id ?? null, visited: Array.from(visited), values: JSON.parse(JSON.stringify(values)) }),
+    setState(state) {
+      for (const [id, v] of Object.entries(state.values ?? {})) if (id in values) values[id] = v;
+      for (const id of state.visited ?? []) if (data.pages.some((p) => p.id === id)) visited.add(id);
+      if (state.pageId && indexOf(state.pageId) >= 0 && state.pageId !== current?.id) show(indexOf(state.pageId));
+    },
+    restrictTo(pageIds) {
+      const keep = new Set(pageIds);
+      const next = data.pages.filter((p) => keep.has(p.id));
+      if (!next.length) return;
+      pages = next;
+      if (current && !keep.has(current.id)) show(0);
+      else if (current) { index = indexOf(current.id); updateNav(); }
+    },
+    getVariable: (name, pageId) => getVar(name, pageId),
+    setVariable: (name, value, pageId) => setVar(name, value, pageId),
+  };
+
+  prevBtn.addEventListener('click', () => api.prev());
+  nextBtn.addEventListener('click', () => api.next());
+  window.addEventListener('hashchange', () => { const i = indexOf(location.hash.slice(1)); if (i >= 0 && i !== index) show(i); });
+
+  win.MavaPlayer = api;
+  for (const plugin of Array.isArray(win.MavaPlayerPlugins) ? win.MavaPlayerPlugins : []) {
+    try { plugin(api); } catch (e) { console.warn('[mava] plugin failed', e); }
+  }
+  if (index < 0) {
+    const fromHash = indexOf(location.hash.slice(1));
+    show(fromHash >= 0 ? fromHash : 0);
+  }
+  requestAnimationFrame(frame);
+  return api;
+}
@@ -0,0 +1,210 @@
+// Static HTML/CSS/SVG rendering of page elements for exported players.
+// Output is absolutely positioned in stage coordinates; nested elements are flattened with
+// their parent offsets added, mirroring how CreateStage lays them out.
+
+import type { Element } from '../schemas/element';
+import type { Page } from '../schemas/project';
+
+export function escapeHtml(s: unknown): string {
+  return String(s ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function px(n: unknown): string { return `${Number(n) || 0}px`; }
+
+function styleAttr(decls: Record<string, string | number | undefined | null>): string {
+  const out = Object.entries(decls)
+    .filter(([, v]) => v !== undefined && v !== null && v !== '')
+    .map(([k, v]) => `${k}:${v}`)
+    .join(';');
+  return out ? ` style="${escapeHtml(out)}"` : '';
+}
+
+function absPosition(el: Element, byId: Map<string, Element>) {
+  let x = el.position.x; let y = el.position.y;
+  let cur: Element | undefined = el;
+  let guard = 0;
+  while (cur?.parentId && guard < 10) {
+    const parent = byId.get(cur.parentId);
+    if (!parent) break;
+    x += parent.position.x; y += parent.position.y;
+    cur = parent; guard++;
+  }
+  return { x, y };
+}
+
+function fontWeight(w: unknown): string | undefined {
+  if (typeof w === 'number') return String(w);
+  const map: Record<string, string> = { light: '300', normal: '400', medium: '500', semibold: '600', bold: '700', black: '900' };
+  return typeof w === 'string' ? map[w] ?? w : undefined;
+}
+
+function textDecls(t: any): Record<string, string | undefined> {
+  if (!t) return {};
+  return {
+    'font-size': t.fontSize ? px(t.fontSize) : undefined,
+    'font-family': t.fontFamily,
+    color: t.textColor,
+    'font-style': t.fontStyle,
+    'text-align': t.textAlign,
+    'font-weight': fontWeight(t.fontWeight),
+    'text-transform': t.textTransform,
+    'line-height': t.lineHeight ? String(t.lineHeight) : undefined,
+    'letter-spacing': t.letterSpacing ? `${t.letterSpacing}em` : undefined,
+  };
+}
+
+function radiusDecl(style: any): string | undefined {
+  const r = style?.borderRadius;
+  if (typeof r === 'number') return px(r);
+  const d = r?.dimensions;
+  if (!d) return undefined;
+  if (r.locked) return px(d.topLeft);
+  return `${px(d.topLeft)} ${px(d.topRight)} ${px(d.bottomRight)} ${px(d.bottomLeft)}`;
+}
+
+function strokeDash(style: any): string | undefined {
+  if (style?.strokeStyle === 'dashed') return `${(style.strokeWidth || 1) * 4} ${(style.strokeWidth || 1) * 2}`;
+  if (style?.strokeStyle === 'dotted') return `${style.strokeWidth || 1} ${(style.strokeWidth || 1) * 2}`;
+  return undefined;
+}
+
+function svgWrap(w: number, h: number, inner: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="100%" height="100%" viewBox="0 0 ${w} ${h}" preserveAspectRatio="none" overflow="visible">${inner}</svg>`;
+}
+
+export function pathData(commands: Array<Record<string, any>>): string {
+  return (commands ?? []).map((c) => {
+    switch (c.type) {
+      case 'M': case 'L': return `${c.type}${c.x} ${c.y}`;
+      case 'C': return `C${c.x1} ${c.y1} ${c.x2} ${c.y2} ${c.x} ${c.y}`;
+      case 'Q': return `Q${c.x1} ${c.y1} ${c.x} ${c.y}`;
+      case 'Z': return 'Z';
+      default: return '';
+    }
+  }).join(' ');
+}
+
+function polygonPoints(sides: number, w: number, h: number): string {
+  const n = Math.max(3, Math.floor(sides) || 3);
+  const pts: string[] = [];
+  for (let i = 0; i < n; i++) {
+    const a = -Math.PI / 2 + (i * 2 * Math.PI) / n;
+    pts.push(`${(w / 2 + (w / 2) * Math.cos(a)).toFixed(2)},${(h / 2 + (h / 2) * Math.sin(a)).toFixed(2)}`);
+  }
+  return pts.join(' ');
+}
+
+function innerMarkup(el: Element): { decls: Record<string, string | undefined>; inner: string } {
+  const w = el.size.dimensions.width;
+  const h = el.size.dimensions.height;
+  const s: any = (el as any).style ?? {};
+  const stroke = (fill: string) =>
+    `stroke="${escapeHtml(s.strokeColor ?? 'none')}" stroke-width="${Number(s.strokeWidth) || 0}"${strokeDash(s) ? ` stroke-dasharray="${strokeDash(s)}"` : ''} fill="${escapeHtml(fill)}"`;
+  const embeddedText = s.textContent?.content
+    ? `<div${styleAttr({ width: '100%', height: '100%', display: 'flex', 'align-items': 'center', 'justify-content': 'center', ...textDecls(s.textContent) })}>${escapeHtml(s.textContent.content)}</div>`
+    : '';
+
+  switch (el.type) {
+    case 'rectangle':
+    case 'hotspot':
+    case 'ellipse':
+      return {
+        decls: {
+          background: el.type === 'hotspot' ? 'transparent' : s.fillColor,
+          border: s.strokeWidth ? `${px(s.strokeWidth)} ${s.strokeStyle ?? 'solid'} ${s.strokeColor ?? 'transparent'}` : undefined,
+          'border-radius': el.type === 'ellipse' ? '50%' : radiusDecl(s),
+          cursor: el.type === 'hotspot' ? 'pointer' : undefined,
+          padding: s.padding ? `${px(s.padding.top)} ${px(s.padding.right)} ${px(s.padding.bottom)} ${px(s.padding.left)}` : undefined,
+          'box-sizing': 'border-box',
+        },
+        inner: embeddedText,
+      };
+    case 'polygon':
+      return { decls: {}, inner: svgWrap(w, h, `<polygon points="${polygonPoints(s.sides, w, h)}" ${stroke(s.fillColor ?? 'none')}/>`) + embeddedText };
+    case 'line':
+      return { decls: {}, inner: svgWrap(w, h, `<line x1="0" y1="${h / 2}" x2="${w}" y2="${h / 2}" ${stroke('none')}/>`) };
+    case 'path':
+      return { decls: {}, inner: svgWrap(w, h, `<path d="${escapeHtml(pathData((el as any).commands))}${s.closed ? ' Z' : ''}" ${stroke(s.closed ? s.fillColor ?? 'none' : 'none')}/>`) };
+    case 'text': {
+      const text = s.content ?? s.inlineStyle?.content ?? '';
+      const valign: Record<string, string> = { top: 'flex-start', middle: 'center', bottom: 'flex-end' };
+      return {
+        decls: {
+          display: 'flex',
+          'flex-direction': 'column',
+          'justify-content': valign[s.verticalAlign] ?? 'flex-start',
+          'white-space': s.whiteSpace ?? 'pre-wrap',
+          'text-decoration': s.textDecoration,
+          'word-spacing': s.wordSpacing ? `${s.wordSpacing}em` : undefined,
+          'text-shadow': s.textShadow?.blur || s.textShadow?.offsetX || s.textShadow?.offsetY
+            ? `${px(s.textShadow.offsetX)} ${px(s.textShadow.offsetY)} ${px(s.textShadow.blur)} ${s.textShadow.color}` : undefined,
+          ...textDecls(s.inlineStyle),
+        },
+        inner: `<div>${escapeHtml(text)}</div>`,
+      };
+    }
+    case 'image': {
+      // Stored as percentages (100 = unchanged)
+      const f = s.filters ?? {};
+      const filter = [
+        f.brightness != null ? `brightness(${f.brightness}%)` : '',
+        f.contrast != null ? `contrast(${f.contrast}%)` : '',
+        f.grayscale ? `grayscale(${f.grayscale}%)` : '',
+        f.blur ? `blur(${px(f.blur)})` : '',
+      ].filter(Boolean).join(' ');
+      return {
+        decls: { 'border-radius': radiusDecl(s), overflow: 'hidden' },
+        inner: s.src ? `<img src="${escapeHtml(s.src)}" alt="${escapeHtml(s.alt)}"${styleAttr({ width: '100%', height: '100%', 'object-fit': s.fit ?? 'contain', filter: filter || undefined, opacity: s.opacity ?? undefined })}>` : '',
+      };
+    }
+    case 'collection':
+    case 'component':
+      // Members render as their own nodes; the container only paints its own background/border
+      return {
+        decls: {
+          background: s.fillColor && s.fillColor !== 'transparent' ? s.fillColor : undefined,
+          'border-radius': radiusDecl(s),
+        },
+        inner: '',
+      };
+    default:
+      return { decls: {}, inner: '' };
+  }
+}
+
+/** Render a single element as an absolutely positioned node in stage coordinates. */
+export function renderElementHtml(el: Element, byId: Map<string, Element>): string {
+  const pos = absPosition(el, byId);
+  const { decls, inner } = innerMarkup(el);
+  const sh = el.shadow;
+  const base = {
+    position: 'absolute',
+    left: px(pos.x),
+    top: px(pos.y),
+    width: px(el.size.dimensions.width),
+    height: px(el.size.dimensions.height),
+    transform: el.rotation ? `rotate(${el.rotation}deg)` : undefined,
+    'transform-origin': 'center center',
+    opacity: el.opacity != null && el.opacity !== 1 ? String(el.opacity) : undefined,
+    filter: el.blur ? `blur(${px(el.blur)})` : undefined,
+    'box-shadow': sh && (sh.blur || sh.offsetX || sh.offsetY) ? `${px(sh.offsetX)} ${px(sh.offsetY)} ${px(sh.blur)} ${sh.color}` : undefined,
+    'z-index': String(el.zIndex ?? 0),
+    display: el.visible === false ? 'none' : undefined,
+  };
+  const interactive = el.type === 'hotspot' ? ' role="button" tabindex="0"' : '';
+  return `<div class="mava-el mava-${el.type}" data-element-id="${escapeHtml(el.id)}" data-name="${escapeHtml(el.name)}"${interactive}${styleAttr({ ...base, ...decls })}>${inner}</div>`;
+}
+
+/** Render every element of a page, ordered by zIndex so DOM order matches paint order. */
+export function renderPageHtml(page: Page): string {
+  const byId = new Map(page.elements.map((e) => [e.id, e]));
+  return [...page.elements]
+    .sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0))
+    .map((el) => renderElementHtml(el, byId))
+    .join('\n');
+}
@@ -0,0 +1,226 @@
+// SCORM 1.2 / 2004 (4th edition) packaging on top of the HTML5 export.
+// One shared player folder serves every SCO: each resource launches `index.html?sco=<id>` and
+// the scorm.js plugin restricts navigation to that SCO's pages. SCOs are cut per lesson (module
+// items become aggregations) or per module.
+//
+// Course.metadata.completionRequirements tokens:
+//   'view-all'         every lesson must be viewed, including `required: false` ones
+//   'required-lessons' only required lessons count (default when no tokens are given)
+//   'pass-assessments' assessment lessons must reach the mastery score to pass
+//   'min-score:<n>'    explicit 0-100 threshold for passing, applied to every SCO
+// Unknown tokens are reported as warnings and ignored.
+
+import { get } from 'svelte/store';
+import { projectData } from '../../stores/project';
+import type { Lesson, ProjectData } from '../schemas/project';
+import { addNotification } from '../../stores/notifications';
+import { devOutput } from '../../stores/devOutput';
+import { buildHtml5Files, collectPlayerData, downloadBlob, slug, type Html5ExportOptions } from './html5';
+import { escapeHtml } from './renderElement';
+import { scormRuntime } from './scormRuntime';
+import { createZip } from './zip';
+import type { CompletionRules, ExportFile, PlayerData, ScormLessonRule, ScormRuntimeConfig, ScormSco, ScormVersion } from './types';
+
+export interface ScormExportOptions extends Html5ExportOptions {
+  version: ScormVersion;
+  /** SCO granularity. Default 'lesson'. */
+  scoPer?: 'lesson' | 'module';
+  /** Passing score (0-100) for assessment SCOs. Default 80; null disables pass/fail. */
+  masteryScore?: number | null;
+  /** Number variable holding the learner score (0-100). Default 'score'. */
+  scoreVariable?: string;
+}
+
+export interface ScormPackage {
+  files: ExportFile[];
+  config: ScormRuntimeConfig;
+  warnings: string[];
+}
+
+export function parseCompletionRequirements(tokens: string[] | undefined, warnings: string[] = []): CompletionRules {
+  const rules: CompletionRules = { viewAll: false, requiredLessons: true, passAssessments: false, minScore: null };
+  for (const raw of tokens ?? []) {
+    const token = String(raw).trim().toLowerCase();
+    if (token === 'view-all') rules.viewAll = true;
+    else if (token === 'required-lessons') rules.requiredLessons = true;
+    else if (token === 'pass-assessments') rules.passAssessments = true;
+    else if (token.startsWith('min-score:')) {
+      const n = Number(token.slice('min-score:'.length));
+      if (Number.isFinite(n) && n >= 0 && n <= 100) rules.minScore = n;
+      else warnings.push(`Completion requirement "${raw}" needs a score between 0 and 100; ignored.`);
+    } else if (token) {
+      warnings.push(`Unknown completion requirement "${raw}"; ignored.`);
+    }
+  }
+  return rules;
+}
+
+// xs:ID: letter/underscore first, then name characters (no colons)
+function xmlId(prefix: string, id: string): string {
+  return `${prefix}-${id.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+function lessonRule(lesson: Lesson, data: PlayerData): ScormLessonRule {
+  return {
+    id: lesson.id,
+    pageIds: data.pages.filter((p) => p.lessonId === lesson.id).map((p) => p.id),
+    required: lesson.metadata?.required !== false,
+    autoComplete: !!lesson.metadata?.autoComplete,
+    assessment: lesson.type === 'assessment',
+  };
+}
+
+/** Cut the exported pages into SCOs; empty lessons/modules (all pages hidden) produce none. */
+export function buildScos(source: ProjectData, data: PlayerData, scoPer: 'lesson' | 'module'): ScormSco[] {
+  const lessonIds = [...new Set(data.pages.map((p) => p.lessonId))];
+  const moduleIds = [...new Set(data.pages.map((p) => p.moduleId))];
+  if (scoPer === 'module') {
+    return moduleIds.map((mid) => {
+      const mod = source.modulesById[mid];
+      const lessons = lessonIds
+        .filter((lid) => data.pages.some((p) => p.lessonId === lid && p.moduleId === mid))
+        .map((lid) => lessonRule(source.lessonsById[lid], data));
+      return { id: mid, title: mod?.metadata?.title ?? mid, pageIds: lessons.flatMap((l) => l.pageIds), lessons };
+    });
+  }
+  return lessonIds.map((lid) => {
+    const lesson = source.lessonsById[lid];
+    const rule = lessonRule(lesson, data);
+    return { id: lid, title: lesson?.metadata?.title ?? lid, pageIds: rule.pageIds, lessons: [rule] };
+  });
+}
+
+function threshold(config: ScormRuntimeConfig): number | null {
+  return config.rules.minScore ?? config.masteryScore;
+}
+
+function isGraded(config: ScormRuntimeConfig, sco: ScormSco): boolean {
+  return threshold(config) != null && (config.rules.minScore != null || (config.rules.passAssessments && sco.lessons.some((l) => l.assessment)));
+}
+
+// Only required lessons contribute to course rollup unless every lesson must be viewed
+function excludedFromRollup(config: ScormRuntimeConfig, sco: ScormSco): boolean {
+  return config.rules.requiredLessons && !config.rules.viewAll && sco.lessons.every((l) => !l.required);
+}
+
+function sequencing2004(config: ScormRuntimeConfig, sco: ScormSco): string {
+  const parts: string[] = [];
+  if (excludedFromRollup(config, sco)) {
+    parts.push('<imsss:rollupRules rollupObjectiveSatisfied="false" rollupProgressCompletion="false" objectiveMeasureWeight="0"/>');
+  }
+  if (isGraded(config, sco)) {
+    parts.push(`<imsss:objectives><imsss:primaryObjective objectiveID="${xmlId('OBJ', sco.id)}" satisfiedByMeasure="true"><imsss:minNormalizedMeasure>${(threshold(config)! / 100).toFixed(2)}</imsss:minNormalizedMeasure></imsss:primaryObjective></imsss:objectives>`);
+  }
+  return parts.length ? `<imsss:sequencing>${parts.join('')}</imsss:sequencing>` : '';
+}
+
+function scoItem(config: ScormRuntimeConfig, sco: ScormSco, indent: string): string {
+  const is2004 = config.version === '2004';
+  const extra = is2004
+    ? sequencing2004(config, sco)
+    : isGraded(config, sco) ? `<adlcp:masteryscore>${threshold(config)}</adlcp:masteryscore>` : '';
+  return `${indent}<item identifier="${xmlId('ITEM', sco.id)}" identifierref="${xmlId('RES', sco.id)}" isvisible="true"><title>${escapeHtml(sco.title)}</title>${extra}</item>`;
+}
+
+export function buildManifest(source: ProjectData, config: ScormRuntimeConfig, scoPer: 'lesson' | 'module', fileList: string[]): string {
+  const is2004 = config.version === '2004';
+  const courseTitle = escapeHtml(source.course.metadata?.title ?? 'Course');
+
+  let items: string;
+  if (scoPer === 'module') {
+    items = config.scos.map((s) => scoItem(config, s, '      ')).join('\n');
+  } else {
+    // Module aggregations holding their lesson SCOs, in course order
+    const modules = [...new Set(config.scos.map((s) => moduleOf(source, s.id)).filter((m): m is string => !!m))];
+    items = modules.map((mid) => {
+      const lessons = config.scos.filter((s) => moduleOf(source, s.id) === mid);
+      const title = escapeHtml(source.modulesById[mid]?.metadata?.title ?? mid);
+      return `      <item identifier="${xmlId('MOD', mid)}"><title>${title}</title>\n${lessons.map((s) => scoItem(config, s, '        ')).join('\n')}\n      </item>`;
+    }).join('\n');
+  }
+
+  const fileTags = fileList.map((f) => `<file href="${escapeHtml(f)}"/>`).join('');
+  const scormType = is2004 ? 'adlcp:scormType' : 'adlcp:scormtype';
+  // Player files live in one shared asset resource every SCO depends on
+  const resources = [
+    ...config.scos.map((s) =>
+      `    <resource identifier="${xmlId('RES', s.id)}" type="webcontent" ${scormType}="sco" href="index.html?sco=${encodeURIComponent(s.id)}"><file href="index.html"/><dependency identifierref="RES-player"/></resource>`),
+    `    <resource identifier="RES-player" type="webcontent" ${scormType}="asset">${fileTags}</resource>`,
+  ].join('\n');
+
+  const header = is2004
+    ? `<manifest identifier="${xmlId('MANIFEST', source.course.id)}" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata><schema>ADL SCORM</schema><schemaversion>2004 4th Edition</schemaversion></metadata>`
+    : `<manifest identifier="${xmlId('MANIFEST', source.course.id)}" version="1"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata><schema>ADL SCORM</schema><schemaversion>1.2</schemaversion></metadata>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+${header}
+  <organizations default="ORG-1">
+    <organization identifier="ORG-1">
+      <title>${courseTitle}</title>
+${items}
+    </organization>
+  </organizations>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+}
+
+function moduleOf(source: ProjectData, lessonId: string): string | undefined {
+  return Object.values(source.modulesById).find((m) => m.lessons.some((l) => l.id === lessonId))?.id;
+}
+
+function scormJs(config: ScormRuntimeConfig): string {
+  return `(function () {\nvar scormRuntime = ${scormRuntime.toString()};\nscormRuntime(window, ${JSON.stringify(config)});\n})();\n`;
+}
+
+/** Build the SCORM package files for `source` (defaults to the open project). */
+export function buildScormPackage(opts: ScormExportOptions, source: ProjectData = get(projectData)): ScormPackage {
+  const { data, warnings } = collectPlayerData(opts, source);
+  const scoPer = opts.scoPer ?? 'lesson';
+  const config: ScormRuntimeConfig = {
+    version: opts.version,
+    scoreVariable: opts.scoreVariable ?? 'score',
+    masteryScore: opts.masteryScore === undefined ? 80 : opts.masteryScore,
+    rules: parseCompletionRequirements(source.course.metadata?.completionRequirements, warnings),
+    scos: buildScos(source, data, scoPer),
+  };
+  if (!config.scos.length) warnings.push('No SCOs were produced: every lesson is empty or hidden.');
+  if (!data.variables.some((v) => v.name === config.scoreVariable) && config.scos.some((s) => isGraded(config, s))) {
+    warnings.push(`Score variable "${config.scoreVariable}" does not exist; graded SCOs will never pass.`);
+  }
+  const player = buildHtml5Files(data, { headScripts: ['scorm.js'], files: [{ path: 'scorm.js', content: scormJs(config) }] });
+  const manifest = buildManifest(source, config, scoPer, player.map((f) => f.path));
+  return { files: [{ path: 'imsmanifest.xml', content: manifest }, ...player], config, warnings };
+}
+
+/** Export the open project as a SCORM zip and download it. */
+export function exportScorm(opts: ScormExportOptions) {
+  try {
+    const { files, warnings } = buildScormPackage(opts);
+    const name = `${slug(get(projectData).course.metadata?.title ?? '')}-scorm${opts.version === '2004' ? '2004' : '12'}.zip`;
+    downloadBlob(createZip(files), name);
+    for (const w of warnings) devOutput.append('warn', w, { source: 'export' });
+    addNotification(
+      warnings.length ? `Exported ${name} with ${warnings.length} warning(s); see Output` : `Exported ${name}`,
+      { type: warnings.length ? 'warn' : 'info' },
+    );
+  } catch (e: any) {
+    devOutput.append('error', `SCORM export failed: ${e?.message ?? e}`, { source: 'export' });
+    addNotification('SCORM export failed', { type: 'error' });
+  }
+}
@@ -0,0 +1,183 @@
+// SCORM player plugin shipped as `scorm.js` in SCORM packages.
+// Like the player, `scormRuntime` is serialized with toString() and must stay self-contained.
+// It locates the LMS API (SCORM 1.2 `API` or 2004 `API_1484_11`) in the frame hierarchy,
+// restores suspend data, mirrors the score variable, derives completion/success from the
+// lesson rules in the config and reports session time on exit. With no LMS present the
+// course still plays; it just is not tracked.
+
+import type { PlayerApi } from './playerRuntime';
+import type { ScormRuntimeConfig } from './types';
+
+/** Subset of the LMS API shared by 1.2 (`LMS*` names) and 2004; see mockLms.ts. */
+export interface ScormApi12 {
+  LMSInitialize(arg: ''): string;
+  LMSFinish(arg: ''): string;
+  LMSGetValue(key: string): string;
+  LMSSetValue(key: string, value: string): string;
+  LMSCommit(arg: ''): string;
+  LMSGetLastError(): string;
+  LMSGetErrorString(code: string): string;
+}
+
+export interface ScormApi2004 {
+  Initialize(arg: ''): string;
+  Terminate(arg: ''): string;
+  GetValue(key: string): string;
+  SetValue(key: string, value: string): string;
+  Commit(arg: ''): string;
+  GetLastError(): string;
+  GetErrorString(code: string): string;
+}
+
+export type ScormPlugin = (player: PlayerApi) => void;
+
+/**
+ * Register the SCORM plugin on `win.MavaPlayerPlugins` and return it. Tests can pass a fake
+ * window (with a mock `API`/`API_1484_11`) and call the returned plugin with a fake player.
+ */
+export function scormRuntime(win: any, config: ScormRuntimeConfig): ScormPlugin {
+  const is2004 = config.version === '2004';
+  const keys = is2004
+    ? { suspend: 'cmi.suspend_data', location: 'cmi.location', entry: 'cmi.entry', raw: 'cmi.score.raw', min: 'cmi.score.min', max: 'cmi.score.max', session: 'cmi.session_time', exit: 'cmi.exit' }
+    : { suspend: 'cmi.suspend_data', location: 'cmi.core.lesson_location', entry: 'cmi.core.entry', raw: 'cmi.core.score.raw', min: 'cmi.core.score.min', max: 'cmi.core.score.max', session: 'cmi.core.session_time', exit: 'cmi.core.exit' };
+  const suspendLimit = is2004 ? 64000 : 4096;
+
+  const findApi = (): any => {
+    const name = is2004 ? 'API_1484_11' : 'API';
+    const search = (w: any) => {
+      for (let depth = 0; w && depth < 8; depth++) {
+        try { if (w[name]) return w[name]; } catch { return null; } // cross-origin parent
+        if (!w.parent || w.parent === w) break;
+        w = w.parent;
+      }
+      return null;
+    };
+    return search(win) ?? (win.opener ? search(win.opener) : null);
+  };
+
+  const plugin: ScormPlugin = (player) => {
+    const params = new URLSearchParams(String(win.location?.search ?? ''));
+    const sco = config.scos.find((s) => s.id === params.get('sco')) ?? config.scos[0];
+    if (sco) player.restrictTo(sco.pageIds);
+
+    const api = findApi();
+    if (!api) { console.warn('[mava] SCORM API not found; running untracked'); return; }
+    const call = (m12: string, m2004: string, ...args: string[]) => {
+      try { return String(api[is2004 ? m2004 : m12](...args)); } catch (e) { console.warn('[mava] SCORM call failed', m2004, e); return ''; }
+    };
+    const lastError = () => call('LMSGetLastError', 'GetLastError');
+    const set = (key: string, value: string) => {
+      if (call('LMSSetValue', 'SetValue', key, value) !== 'true') console.warn(`[mava] SetValue ${key} failed (${lastError()})`);
+    };
+    const getValue = (key: string) => call('LMSGetValue', 'GetValue', key);
+
+    if (call('LMSInitialize', 'Initialize', '') !== 'true') { console.warn(`[mava] SCORM Initialize failed (${lastError()})`); return; }
+    const startedAt = Date.now();
+    let finished = false;
+
+    // ---- Resume ----
+    const entry = getValue(keys.entry);
+    const raw = getValue(keys.suspend);
+    if (raw && entry !== 'ab-initio') {
+      try {
+        const saved = JSON.parse(raw);
+        player.setState({ pageId: saved.p ?? null, visited: saved.s ?? [], values: saved.v ?? {} });
+      } catch { console.warn('[mava] ignoring unreadable suspend data'); }
+    }
+
+    // ---- Status ----
+    const threshold = config.rules.minScore ?? config.masteryScore;
+    const readScore = (): number | null => {
+      const v = Number(player.getVariable(config.scoreVariable));
+      return Number.isFinite(v) ? Math.max(0, Math.min(100, v)) : null;
+    };
+    const evaluate = () => {
+      const visited = new Set(player.getState().visited);
+      const lessons = sco?.lessons ?? [];
+      const counted = config.rules.viewAll || !config.rules.requiredLessons ? lessons : lessons.filter((l) => l.required);
+      const considered = counted.length ? counted : lessons;
+      const done = (l: { pageIds: string[]; autoComplete: boolean }) =>
+        l.autoComplete ? l.pageIds.some((id) => visited.has(id)) : l.pageIds.every((id) => visited.has(id));
+      const completed = considered.every(done);
+      const score = readScore();
+      const graded = threshold != null && (config.rules.minScore != null || (config.rules.passAssessments && lessons.some((l) => l.assessment)));
+      const success = !graded || score == null || !completed ? 'unknown' : score >= threshold! ? 'passed' : 'failed';
+      return { completed, score, success };
+    };
+
+    let lastStatus = '';
+    const report = () => {
+      const { completed, score, success } = evaluate();
+      if (score != null) {
+        set(keys.min, '0');
+        set(keys.max, '100');
+        set(keys.raw, String(Math.round(score * 100) / 100));
+        if (is2004) set('cmi.score.scaled', String(Math.round(score) / 100));
+      }
+      const status = is2004
+        ? `${completed ? 'completed' : 'incomplete'}|${success}`
+        : !completed ? 'incomplete' : success === 'unknown' ? 'completed' : success;
+      if (status === lastStatus) return;
+      lastStatus = status;
+      if (is2004) {
+        const [c, s] = status.split('|');
+        set('cmi.completion_status', c);
+        set('cmi.success_status', s);
+      } else {
+        set('cmi.core.lesson_status', status);
+      }
+    };
+
+    const saveState = () => {
+      const st = player.getState();
+      let data = JSON.stringify({ p: st.pageId, s: st.visited, v: st.values });
+      if (data.length > suspendLimit) {
+        // Variables are the bulk; keep navigation state when the LMS limit is hit
+        console.warn(`[mava] suspend data exceeds ${suspendLimit} characters; variables were not saved`);
+        data = JSON.stringify({ p: st.pageId, s: st.visited });
+      }
+      set(keys.suspend, data);
+      if (st.pageId) set(keys.location, st.pageId);
+    };
+
+    let commitTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleCommit = () => {
+      if (commitTimer || finished) return;
+      commitTimer = setTimeout(() => { commitTimer = null; if (!finished) call('LMSCommit', 'Commit', ''); }, 1000);
+    };
+    const update = () => { if (finished) return; saveState(); report(); scheduleCommit(); };
+
+    const sessionTime = (ms: number) => {
+      const total = Math.max(0, Math.round(ms / 10)) / 100; // seconds, 2 decimals
+      const h = Math.floor(total / 3600);
+      const m = Math.floor((total % 3600) / 60);
+      const s = total - h * 3600 - m * 60;
+      if (is2004) return `PT${h}H${m}M${s.toFixed(2).replace(/\.?0+$/, '')}S`;
+      return `${String(h).padStart(4, '0')}:${String(m).padStart(2, '0')}:${s.toFixed(2).padStart(5, '0')}`;
+    };
+
+    const finish = () => {
+      if (finished) return;
+      saveState();
+      report();
+      finished = true;
+      if (commitTimer) { clearTimeout(commitTimer); commitTimer = null; }
+      const { completed } = evaluate();
+      set(keys.session, sessionTime(Date.now() - startedAt));
+      set(keys.exit, completed ? (is2004 ? 'normal' : '') : 'suspend');
+      call('LMSCommit', 'Commit', '');
+      call('LMSFinish', 'Terminate', '');
+    };
+
+    player.on('page', update);
+    player.on('variable', update);
+    player.on('complete', update);
+    win.addEventListener?.('pagehide', finish);
+    win.addEventListener?.('beforeunload', finish);
+    (win.MavaScorm ??= {}).finish = finish;
+    report();
+  };
+
+  (win.MavaPlayerPlugins ??= []).push(plugin);
+  return plugin;
+}
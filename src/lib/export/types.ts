@@ -0,0 +1,189 @@
+// Shapes written into an exported course (`data.js`) and read by the player runtime.
+// Everything here must stay plain JSON: the player runs standalone without the studio.
+
+import type { CuePoint, NestedTimelineClip } from '../schemas/timeline';
+import type { TriggerDef } from '../schemas/triggers';
+
+/** Bump when the exported data shape changes in a way older players cannot read. */
+export const EXPORT_FORMAT_VERSION = 1 as const;
+
+export interface ExportedKeyframe {
+  elementId: string;
+  property: string;
+  time: number;
+  /** Numbers (x / y in stage coordinates) or a CSS colour. */
+  value: number | string;
+  /** 'linear', a steps() easing, or any other curve sampled at even points (see sampleEasing). */
+  easing: 'linear' | number[] | { kind: 'steps'; count: number; position?: 'start' | 'end' };
+}
+
+export interface ExportedClip {
+  elementId: string;
+  start: number;
+  end: number;
+}
+
+export interface ExportedTimeline {
+  id: string;
+  duration: number;
+  loop: boolean;
+  cuePoints: CuePoint[];
+  clips: ExportedClip[];
+  keyframes: ExportedKeyframe[];
+  /** Paths followed by elements with a motionPath track, by element id. */
+  motionPaths?: Record<string, ExportedMotionPath>;
+  /** Timelines played inside this one (also in `timelines`); their keyframes sit under its own. */
+  nested?: NestedTimelineClip[];
+}
+
+/** A flattened path in stage coordinates (the player samples it like runtime/motionPath). */
+export interface ExportedMotionPath {
+  /** x0, y0, x1, y1, ... */
+  points: number[];
+  /** Cumulative arc length at each point. */
+  lengths: number[];
+  closed: boolean;
+  autoOrient: boolean;
+  /** Half the element's designed size: the path carries its centre. */
+  halfWidth: number;
+  halfHeight: number;
+  /** Designed rotation, added to the tangent with autoOrient. */
+  rotation: number;
+}
+
+export interface ExportedPage {
+  id: string;
+  moduleId: string;
+  lessonId: string;
+  title: string;
+  background: string;
+  /** Pre-rendered element markup (absolutely positioned, `data-element-id` on each node). */
+  html: string;
+  /** Minimal element index for selector matching and collection bubbling. */
+  elements: Array<{ id: string; name: string; type: string; parentId?: string }>;
+  /** Page timeline played on entry (may be absent when the page never had one). */
+  timelineId: string | null;
+  /** Present when elements of the page have property expressions; keyed by element id. */
+  expressions?: Record<string, ExportedExpressionElement>;
+}
+
+/** What the player needs to evaluate expressions against (and on) one element. */
+export interface ExportedExpressionElement {
+  name: string;
+  /** Summed ancestor positions: expressions see x / y in the element's own (local) units. */
+  offset: { x: number; y: number };
+  /** Designed values of the expression properties (`value` when nothing animates them). */
+  base: Record<string, number>;
+  /** Parsed expressions by property (runtime/expressions ExprNode trees). */
+  expressions?: Record<string, unknown>;
+}
+
+export interface ExportedVariable {
+  id: string;
+  name: string;
+  scope: 'global' | 'page';
+  pageId?: string;
+  type: string;
+  readOnly?: boolean;
+  initial: unknown;
+}
+
+export interface ExportedScript {
+  id: string;
+  name: string;
+  scope: 'global' | 'page';
+  pageId?: string | null;
+  code: string;
+}
+
+export interface PlayerData {
+  format: 'mava-html5';
+  version: number;
+  exportedAt: number;
+  course: { id: string; title: string; description?: string };
+  stage: { width: number; height: number };
+  pages: ExportedPage[];
+  timelines: Record<string, ExportedTimeline>;
+  triggers: TriggerDef[];
+  variables: ExportedVariable[];
+  /** Script metadata; bodies are precompiled into `scripts.js` (`window.__MAVA_SCRIPTS__[id]`). */
+  scripts: ExportedScript[];
+}
+
+export interface ExportFile {
+  path: string;
+  content: string | Uint8Array;
+}
+
+// ---- SCORM ------------------------------------------------------------------------------
+
+export type ScormVersion = '1.2' | '2004';
+
+/** How Course.metadata.completionRequirements are interpreted (see scorm.ts for tokens). */
+export interface CompletionRules {
+  /** Every lesson must be viewed, required or not. */
+  viewAll: boolean;
+  /** Lessons with `required: false` do not count towards completion. */
+  requiredLessons: boolean;
+  /** Assessment lessons must reach the mastery score for the SCO to pass. */
+  passAssessments: boolean;
+  /** Explicit score threshold (0-100) overriding the mastery score. */
+  minScore: number | null;
+}
+
+export interface ScormLessonRule {
+  id: string;
+  pageIds: string[];
+  required: boolean;
+  /** Complete as soon as any page of the lesson is shown. */
+  autoComplete: boolean;
+  assessment: boolean;
+}
+
+export interface ScormSco {
+  id: string;
+  title: string;
+  pageIds: string[];
+  lessons: ScormLessonRule[];
+}
+
+/** Written into `scorm.js` and read by the SCORM player plugin. */
+export interface ScormRuntimeConfig {
+  version: ScormVersion;
+  /** Score variable (number, 0-100) mirrored to cmi score. */
+  scoreVariable: string;
+  masteryScore: number | null;
+  rules: CompletionRules;
+  scos: ScormSco[];
+}
+
+// ---- xAPI -------------------------------------------------------------------------------
+
+export interface XapiActivityNode {
+  title: string;
+  cfNodeIds: string[];
+}
+
+export interface XapiLessonNode extends XapiActivityNode {
+  moduleId: string;
+  assessment: boolean;
+  autoComplete: boolean;
+  pageIds: string[];
+}
+
+/** Written into `xapi.js` and read by the xAPI player plugin. */
+export interface XapiRuntimeConfig {
+  /** Absolute IRI prefix; activities are `<base>/<courseId>/module/<id>/lesson/<id>/page/<id>`. */
+  activityBase: string;
+  /** LRS endpoint (ending in `/`); launch parameters override it. Empty => local queue only. */
+  endpoint: string;
+  /** `Basic …` authorization header value. */
+  auth: string;
+  /** Fallback actor when the launch does not supply one. */
+  actor: { name: string; mbox?: string; account?: { homePage: string; name: string } };
+  scoreVariable: string;
+  masteryScore: number | null;
+  course: XapiActivityNode & { id: string };
+  modules: Record<string, XapiActivityNode>;
+  lessons: Record<string, XapiLessonNode>;
+}
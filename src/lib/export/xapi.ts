@@ -0,0 +1,98 @@
+// xAPI (Tin Can) export: the HTML5 player plus `xapi.js`, which reports learning activity to an
+// LRS. Activity ids are derived from course/module/lesson/page ids under `activityBase`; the
+// course's `metadata.url` is used as base when set so ids stay stable across re-exports.
+
+import { get } from 'svelte/store';
+import { projectData } from '../../stores/project';
+import type { ProjectData } from '../schemas/project';
+import { addNotification } from '../../stores/notifications';
+import { devOutput } from '../../stores/devOutput';
+import { buildHtml5Files, collectPlayerData, downloadBlob, slug, type Html5ExportOptions } from './html5';
+import { xapiRuntime } from './xapiRuntime';
+import { createZip } from './zip';
+import type { ExportFile, PlayerData, XapiRuntimeConfig } from './types';
+
+export interface XapiExportOptions extends Html5ExportOptions {
+  /** LRS endpoint; leave empty to rely on launch parameters (or the local store). */
+  endpoint?: string;
+  username?: string;
+  password?: string;
+  /** Actor used when the launch does not provide one. */
+  actorName?: string;
+  actorEmail?: string;
+  activityBase?: string;
+  scoreVariable?: string;
+  masteryScore?: number | null;
+}
+
+export const DEFAULT_ACTIVITY_BASE = 'https://mava.studio/xapi/activities';
+
+function basicAuth(user?: string, pass?: string): string {
+  if (!user) return '';
+  const bytes = new TextEncoder().encode(`${user}:${pass ?? ''}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+export function buildXapiConfig(source: ProjectData, data: PlayerData, opts: XapiExportOptions = {}): XapiRuntimeConfig {
+  const modules: XapiRuntimeConfig['modules'] = {};
+  const lessons: XapiRuntimeConfig['lessons'] = {};
+  for (const page of data.pages) {
+    const mod = source.modulesById[page.moduleId];
+    const lesson = source.lessonsById[page.lessonId];
+    modules[page.moduleId] ??= { title: mod?.metadata?.title ?? page.moduleId, cfNodeIds: [...(mod?.cfNodeIds ?? [])] };
+    lessons[page.lessonId] ??= {
+      title: lesson?.metadata?.title ?? page.lessonId,
+      cfNodeIds: [...(lesson?.cfNodeIds ?? [])],
+      moduleId: page.moduleId,
+      assessment: lesson?.type === 'assessment',
+      autoComplete: !!lesson?.metadata?.autoComplete,
+      pageIds: [],
+    };
+    lessons[page.lessonId].pageIds.push(page.id);
+  }
+  const email = opts.actorEmail?.trim();
+  return {
+    activityBase: opts.activityBase?.trim() || source.course.metadata?.url || DEFAULT_ACTIVITY_BASE,
+    endpoint: opts.endpoint?.trim() ?? '',
+    auth: basicAuth(opts.username, opts.password),
+    actor: email
+      ? { name: opts.actorName?.trim() || email, mbox: `mailto:${email}` }
+      : { name: opts.actorName?.trim() || 'Anonymous learner', account: { homePage: 'https://mava.studio', name: 'anonymous' } },
+    scoreVariable: opts.scoreVariable ?? 'score',
+    masteryScore: opts.masteryScore === undefined ? 80 : opts.masteryScore,
+    course: { id: source.course.id, title: data.course.title, cfNodeIds: [...(source.course.cfNodeIds ?? [])] },
+    modules,
+    lessons,
+  };
+}
+
+function xapiJs(config: XapiRuntimeConfig): string {
+  return `(function () {\nvar xapiRuntime = ${xapiRuntime.toString()};\nxapiRuntime(window, ${JSON.stringify(config)});\n})();\n`;
+}
+
+/** Build the xAPI export files for `source` (defaults to the open project). */
+export function buildXapiPackage(opts: XapiExportOptions = {}, source: ProjectData = get(projectData)): { files: ExportFile[]; config: XapiRuntimeConfig; warnings: string[] } {
+  const { data, warnings } = collectPlayerData(opts, source);
+  const config = buildXapiConfig(source, data, opts);
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(config.activityBase)) warnings.push(`Activity base "${config.activityBase}" is not an absolute IRI.`);
+  if (config.auth && !config.endpoint) warnings.push('LRS credentials were given without an endpoint; they are only used with launch parameters.');
+  const files = buildHtml5Files(data, { headScripts: ['xapi.js'], files: [{ path: 'xapi.js', content: xapiJs(config) }] });
+  return { files, config, warnings };
+}
+
+/** Export the open project with xAPI reporting and download it. */
+export function exportXapi(opts: XapiExportOptions = {}) {
+  try {
+    const { files, warnings } = buildXapiPackage(opts);
+    const name = `${slug(get(projectData).course.metadata?.title ?? '')}-xapi.zip`;
+    downloadBlob(createZip(files), name);
+    for (const w of warnings) devOutput.append('warn', w, { source: 'export' });
+    addNotification(
+      warnings.length ? `Exported ${name} with ${warnings.length} warning(s); see Output` : `Exported ${name}`,
+      { type: warnings.length ? 'warn' : 'info' },
+    );
+  } catch (e: any) {
+    devOutput.append('error', `xAPI export failed: ${e?.message ?? e}`, { source: 'export' });
+    addNotification('xAPI export failed', { type: 'error' });
+  }
+}
@@ -0,0 +1,260 @@
+// xAPI player plugin shipped as `xapi.js` in xAPI exports. Serialized with toString() like the
+// player, so it must stay self-contained.
+//
+// Statements emitted:
+//   experienced  page shown                    (object: page; parent: lesson; grouping: module, course)
+//   answered     variable changed on a page      (object: page interaction `…/page/<id>/variable/<name>`;
+//                bursts, e.g. a script counting per frame, collapse into one statement with the last value)
+//   interacted   trigger fired                 (object: `…/page/<id>/trigger/<id>`; debounced per
+//                trigger like answered, so interval timers don't flood the LRS)
+//   completed    lesson finished / all course pages seen
+//   passed|failed assessment lesson finished and scored: decided when the score variable settles
+//                while the lesson is open, when the learner leaves it, or when the course completes
+//                (not when its last page is shown: the learner has not answered yet)
+// Competence framework nodes (`cfNodeIds` of course, module and lesson) travel as a context
+// extension. Statements go through a persistent offline queue to a pluggable transport:
+// `window.MavaXapiTransport` when set (tests, custom LRS bridges), the LRS over HTTP when an
+// endpoint is known (config or TinCan launch parameters), otherwise a localStorage store.
+
+import type { PlayerApi } from './playerRuntime';
+import type { XapiRuntimeConfig } from './types';
+
+export interface XapiStatement {
+  id: string;
+  actor: Record<string, unknown>;
+  verb: { id: string; display: Record<string, string> };
+  object: { objectType: 'Activity'; id: string; definition?: Record<string, unknown> };
+  result?: Record<string, unknown>;
+  context?: Record<string, unknown>;
+  timestamp: string;
+}
+
+/** Anything that can deliver a batch of statements; reject to keep them queued. */
+export interface XapiTransport {
+  send(statements: XapiStatement[]): Promise<void>;
+}
+
+export function xapiRuntime(win: any, config: XapiRuntimeConfig): (player: PlayerApi) => void {
+  const EXT_CF = 'https://mava.studio/xapi/extensions/cf-node-ids';
+  const VERBS: Record<string, string> = {
+    experienced: 'http://adlnet.gov/expapi/verbs/experienced',
+    answered: 'http://adlnet.gov/expapi/verbs/answered',
+    interacted: 'http://adlnet.gov/expapi/verbs/interacted',
+    completed: 'http://adlnet.gov/expapi/verbs/completed',
+    passed: 'http://adlnet.gov/expapi/verbs/passed',
+    failed: 'http://adlnet.gov/expapi/verbs/failed',
+  };
+  const TYPES = {
+    course: 'http://adlnet.gov/expapi/activities/course',
+    module: 'http://adlnet.gov/expapi/activities/module',
+    lesson: 'http://adlnet.gov/expapi/activities/lesson',
+    assessment: 'http://adlnet.gov/expapi/activities/assessment',
+    page: 'http://adlnet.gov/expapi/activities/media',
+    interaction: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+  };
+
+  // ---- Launch (TinCan launch parameters override the exported defaults) ----
+  const params = new URLSearchParams(String(win.location?.search ?? ''));
+  const endpoint = params.get('endpoint') ?? config.endpoint;
+  const auth = params.get('auth') ?? config.auth;
+  const registration = params.get('registration') ?? undefined;
+  let actor: Record<string, unknown> = { objectType: 'Agent', ...config.actor };
+  try { const a = params.get('actor'); if (a) actor = JSON.parse(a); } catch { console.warn('[mava] invalid xAPI actor launch parameter'); }
+
+  const uuid = () => {
+    if (win.crypto?.randomUUID) return win.crypto.randomUUID();
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+      const r = (Math.random() * 16) | 0;
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    });
+  };
+
+  // ---- Activities ----
+  const courseIri = `${config.activityBase.replace(/\/+$/, '')}/${encodeURIComponent(config.course.id)}`;
+  const moduleIri = (mid: string) => `${courseIri}/module/${encodeURIComponent(mid)}`;
+  const lessonIri = (lid: string) => `${moduleIri(config.lessons[lid]?.moduleId ?? '_')}/lesson/${encodeURIComponent(lid)}`;
+  const pageIri = (lid: string, pid: string) => `${lessonIri(lid)}/page/${encodeURIComponent(pid)}`;
+  const activity = (id: string, type: string, name?: string) => ({
+    objectType: 'Activity' as const,
+    id,
+    definition: { type, ...(name ? { name: { 'en-US': name } } : {}) },
+  });
+  const courseActivity = () => activity(courseIri, TYPES.course, config.course.title);
+  const moduleActivity = (mid: string) => activity(moduleIri(mid), TYPES.module, config.modules[mid]?.title);
+  const lessonActivity = (lid: string) => {
+    const l = config.lessons[lid];
+    return activity(lessonIri(lid), l?.assessment ? TYPES.assessment : TYPES.lesson, l?.title);
+  };
+
+  // Context for anything inside a lesson: parent lesson, grouping module + course, CF nodes
+  const context = (lid: string | null, parent?: ReturnType<typeof activity>) => {
+    const l = lid ? config.lessons[lid] : null;
+    const m = l ? config.modules[l.moduleId] : null;
+    const cf = [...new Set([...config.course.cfNodeIds, ...(m?.cfNodeIds ?? []), ...(l?.cfNodeIds ?? [])])];
+    return {
+      ...(registration ? { registration } : {}),
+      contextActivities: {
+        ...(parent ? { parent: [parent] } : {}),
+        grouping: [courseActivity(), ...(l ? [moduleActivity(l.moduleId)] : [])].filter((a) => a.id !== parent?.id),
+      },
+      ...(cf.length ? { extensions: { [EXT_CF]: cf } } : {}),
+    };
+  };
+
+  // ---- Transport + offline queue ----
+  const queueKey = `mava.xapi.queue.${config.course.id}`;
+  const storage = (() => { try { return win.localStorage ?? null; } catch { return null; } })();
+  const readQueue = (): any[] => { try { return JSON.parse(storage?.getItem(queueKey) ?? '[]'); } catch { return []; } };
+  const queue: any[] = readQueue();
+  const persist = () => { try { storage?.setItem(queueKey, JSON.stringify(queue)); } catch { /* quota: keep in memory */ } };
+
+  const httpTransport = {
+    async send(statements: any[]) {
+      const res = await win.fetch(`${endpoint.replace(/\/?$/, '/')}statements`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Experience-API-Version': '1.0.3', ...(auth ? { Authorization: auth } : {}) },
+        body: JSON.stringify(statements),
+      });
+      // 4xx other than auth/throttling will never succeed; drop instead of retrying forever
+      if (!res.ok && (res.status >= 500 || res.status === 401 || res.status === 403 || res.status === 429)) throw new Error(`LRS responded ${res.status}`);
+      if (!res.ok) console.warn(`[mava] LRS rejected ${statements.length} statement(s): ${res.status}`);
+    },
+  };
+  const localTransport = {
+    async send(statements: any[]) {
+      const key = `mava.xapi.statements.${config.course.id}`;
+      const prev = JSON.parse(storage?.getItem(key) ?? '[]');
+      storage?.setItem(key, JSON.stringify([...prev, ...statements]));
+    },
+  };
+  const transport = () => win.MavaXapiTransport ?? (endpoint ? httpTransport : localTransport);
+
+  let sending = false;
+  let retryDelay = 1000;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const flush = async (): Promise<void> => {
+    if (sending || !queue.length) return;
+    if (win.navigator && win.navigator.onLine === false) return;
+    sending = true;
+    const batch = queue.slice(0, 50);
+    try {
+      await transport().send(batch);
+      queue.splice(0, batch.length);
+      persist();
+      retryDelay = 1000;
+      sending = false;
+      if (queue.length) return flush();
+    } catch (e) {
+      sending = false;
+      console.warn('[mava] xAPI send failed; will retry', e);
+      if (!retryTimer) {
+        retryTimer = setTimeout(() => { retryTimer = null; flush(); }, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, 60000);
+      }
+    }
+  };
+  const send = (verb: string, object: any, extra: { result?: any; context?: any } = {}) => {
+    queue.push({
+      id: uuid(),
+      actor,
+      verb: { id: VERBS[verb], display: { 'en-US': verb } },
+      object,
+      ...(extra.result ? { result: extra.result } : {}),
+      ...(extra.context ? { context: extra.context } : {}),
+      timestamp: new Date().toISOString(),
+    });
+    persist();
+    flush();
+  };
+
+  const plugin = (player: PlayerApi) => {
+    const startedAt = Date.now();
+    let pageId: string | null = null;
+    let lessonId: string | null = null;
+    const completedLessons = new Set<string>();
+    // Score last reported as passed / failed per assessment lesson; a changed score reports again
+    const judged = new Map<string, number>();
+    let courseCompleted = false;
+
+    const score = () => {
+      const v = Number(player.getVariable(config.scoreVariable));
+      return Number.isFinite(v) ? Math.max(0, Math.min(100, v)) : null;
+    };
+    const duration = (ms: number) => `PT${Math.round(ms / 10) / 100}S`;
+
+    const checkLessons = () => {
+      const visited = new Set(player.getState().visited);
+      for (const [lid, l] of Object.entries(config.lessons)) {
+        if (completedLessons.has(lid) || !l.pageIds.length) continue;
+        const done = l.autoComplete ? l.pageIds.some((id) => visited.has(id)) : l.pageIds.every((id) => visited.has(id));
+        if (!done) continue;
+        completedLessons.add(lid);
+        send('completed', lessonActivity(lid), { result: { completion: true }, context: context(lid, moduleActivity(l.moduleId)) });
+      }
+    };
+
+    const judge = (lid: string | null) => {
+      const l = lid ? config.lessons[lid] : null;
+      if (!lid || !l?.assessment || config.masteryScore == null || !completedLessons.has(lid)) return;
+      const s = score();
+      if (s == null || judged.get(lid) === s) return;
+      judged.set(lid, s);
+      const passed = s >= config.masteryScore;
+      const result = { score: { scaled: s / 100, raw: s, min: 0, max: 100 }, success: passed, completion: true };
+      send(passed ? 'passed' : 'failed', lessonActivity(lid), { result, context: context(lid, moduleActivity(l.moduleId)) });
+    };
+
+    player.on('page', (e) => {
+      // Leaving an assessment: whatever the score is now is the learner's answer
+      if (lessonId && lessonId !== e.lessonId) judge(lessonId);
+      pageId = e.pageId;
+      lessonId = e.lessonId;
+      const title = player.data.pages.find((p) => p.id === e.pageId)?.title;
+      send('experienced', activity(pageIri(e.lessonId, e.pageId), TYPES.page, title), { context: context(e.lessonId, lessonActivity(e.lessonId)) });
+      checkLessons();
+    });
+    const pendingAnswers = new Map<string, ReturnType<typeof setTimeout>>();
+    let pendingJudge: ReturnType<typeof setTimeout> | undefined;
+    player.on('variable', (e) => {
+      if (!pageId || !lessonId) return;
+      const at = { pageId, lessonId };
+      if (e.name === config.scoreVariable) {
+        clearTimeout(pendingJudge);
+        pendingJudge = setTimeout(() => judge(at.lessonId), 300);
+      }
+      clearTimeout(pendingAnswers.get(e.name));
+      pendingAnswers.set(e.name, setTimeout(() => {
+        pendingAnswers.delete(e.name);
+        const object = activity(`${pageIri(at.lessonId, at.pageId)}/variable/${encodeURIComponent(e.name)}`, TYPES.interaction, e.name);
+        const value = player.getVariable(e.name, at.pageId);
+        const response = typeof value === 'string' ? value : JSON.stringify(value);
+        send('answered', object, { result: { response }, context: context(at.lessonId, activity(pageIri(at.lessonId, at.pageId), TYPES.page)) });
+      }, 300));
+    });
+    const pendingTriggers = new Map<string, ReturnType<typeof setTimeout>>();
+    player.on('trigger', (e) => {
+      if (!pageId || !lessonId) return;
+      const at = { pageId, lessonId };
+      clearTimeout(pendingTriggers.get(e.id));
+      pendingTriggers.set(e.id, setTimeout(() => {
+        pendingTriggers.delete(e.id);
+        const object = activity(`${pageIri(at.lessonId, at.pageId)}/trigger/${encodeURIComponent(e.id)}`, TYPES.interaction, e.name);
+        send('interacted', object, { context: context(at.lessonId, activity(pageIri(at.lessonId, at.pageId), TYPES.page)) });
+      }, 300));
+    });
+    player.on('complete', () => {
+      checkLessons();
+      for (const lid of completedLessons) judge(lid);
+      if (courseCompleted) return;
+      courseCompleted = true;
+      send('completed', courseActivity(), { result: { completion: true, duration: duration(Date.now() - startedAt) }, context: context(null) });
+    });
+
+    win.addEventListener?.('online', () => { retryDelay = 1000; flush(); });
+    win.MavaXapi = { queue, flush, actor };
+    flush();
+  };
+
+  (win.MavaPlayerPlugins ??= []).push(plugin);
+  return plugin;
+}
@@ -0,0 +1,174 @@
+// Human readable labels for history entries ("Moved 3 elements", "Changed fill"), read off
+// the paths a patch touches. Labels are best effort: anything unrecognised falls back to a
+// generic wording for the entry's category.
+
+import type { Patch, PatchOp, PatchPath } from './patch';
+
+export type HistorySubject = 'page' | 'lesson' | 'module' | 'timeline' | 'stage';
+
+const STYLE_NAMES: Record<string, string> = {
+  fillColor: 'fill',
+  strokeColor: 'stroke',
+  strokeWidth: 'stroke width',
+  strokeStyle: 'stroke style',
+  borderRadius: 'corner radius',
+  padding: 'padding',
+  fontSize: 'font size',
+  fontFamily: 'font',
+  fontWeight: 'font weight',
+  color: 'text color',
+  textAlign: 'text alignment',
+  placement: 'text placement',
+  highlight: 'highlight',
+  content: 'text',
+  src: 'image',
+  alt: 'alt text',
+  fit: 'image fit',
+  filters: 'filters',
+  sides: 'sides',
+  radius: 'radius',
+  closed: 'path',
+  smooth: 'path smoothing',
+};
+
+// Element fields with a verb of their own; the rest read "Changed <name>"
+const ELEMENT_VERBS: Record<string, string> = { position: 'Moved', size: 'Resized', rotation: 'Rotated' };
+const ELEMENT_FIELDS: Record<string, string> = {
+  opacity: 'opacity',
+  visible: 'visibility',
+  zIndex: 'stacking order',
+  shadow: 'shadow',
+  name: 'name',
+  triggers: 'triggers',
+  animations: 'animations',
+  commands: 'path',
+  parentId: 'grouping',
+  memberIds: 'grouping',
+};
+
+const FALLBACK: Record<string, string> = {
+  transform: 'Transform',
+  style: 'Style change',
+  structure: 'Edit',
+  meta: 'Details changed',
+  timeline: 'Timeline edit',
+};
+
+const plural = (n: number, noun: string) => (n === 1 ? `1 ${noun}` : `${n} ${noun}s`);
+
+function idsOf(items: unknown[]): string[] {
+  return items.map((v: any) => v?.id).filter((id): id is string => typeof id === 'string');
+}
+
+/** Splices directly on `path`, as ids added and removed (inverse splices re-insert what was removed). */
+function listChanges(patch: Patch, path: PatchPath) {
+  const at = (op: PatchOp) => op.op === 'splice' && op.path.length === path.length && op.path.every((k, i) => k === path[i]);
+  const added = new Set<string>();
+  const removed = new Set<string>();
+  for (const op of patch.forward) if (at(op) && op.op === 'splice') idsOf(op.insert).forEach((id) => added.add(id));
+  for (const op of patch.inverse) if (at(op) && op.op === 'splice') idsOf(op.insert).forEach((id) => removed.add(id));
+  const moved = [...added].filter((id) => removed.has(id)).length;
+  return { added: added.size - moved, removed: removed.size - moved, moved };
+}
+
+/** Ops below `prefix`, with the prefix stripped. */
+function under(ops: PatchOp[], prefix: PatchPath): PatchOp[] {
+  const out: PatchOp[] = [];
+  for (const op of ops) {
+    if (op.path.length < prefix.length || !prefix.every((k, i) => op.path[i] === k)) continue;
+    out.push({ ...op, path: op.path.slice(prefix.length) });
+  }
+  return out;
+}
+
+function sub(patch: Patch, prefix: PatchPath): Patch {
+  return { forward: under(patch.forward, prefix), inverse: under(patch.inverse, prefix) };
+}
+
+function describeElements(patch: Patch): string | null {
+  const { added, removed, moved } = listChanges(patch, []);
+  if (added && removed) return 'Replaced elements';
+  if (added) return `Added ${plural(added, 'element')}`;
+  if (removed) return `Deleted ${plural(removed, 'element')}`;
+
+  // Field edits: which elements (by index) each field touched
+  const touched = new Map<string, Set<number | string>>();
+  for (const op of patch.forward) {
+    if (op.path.length === 0) continue;
+    const field = op.path.length === 1 ? '*' : op.path[1] === 'style' && op.path.length > 2 ? `style.${op.path[2]}` : String(op.path[1]);
+    if (!touched.has(field)) touched.set(field, new Set());
+    touched.get(field)!.add(op.path[0]);
+  }
+  if (!touched.size) return moved ? 'Reordered elements' : null;
+  const count = new Set([...touched.values()].flatMap((s) => [...s])).size;
+  const on = count > 1 ? ` on ${count} elements` : '';
+  const fields = [...touched.keys()];
+  if (fields.length === 1) {
+    const field = fields[0];
+    if (ELEMENT_VERBS[field]) return `${ELEMENT_VERBS[field]} ${plural(count, 'element')}`;
+    if (field.startsWith('style.')) return `Changed ${STYLE_NAMES[field.slice(6)] ?? field.slice(6)}${on}`;
+    if (ELEMENT_FIELDS[field]) return `Changed ${ELEMENT_FIELDS[field]}${on}`;
+  }
+  if (fields.every((f) => ELEMENT_VERBS[f])) return `Transformed ${plural(count, 'element')}`;
+  if (fields.every((f) => f.startsWith('style.'))) return `Changed style${on}`;
+  return `Edited ${plural(count, 'element')}`;
+}
+
+function describePage(patch: Patch): string | null {
+  const elements = describeElements(sub(patch, ['elements']));
+  if (elements) return elements;
+  const keys = new Set(patch.forward.map((op) => op.path.slice(0, 2).join('.')));
+  if (keys.has('metadata.title')) return 'Renamed page';
+  if (keys.has('backgroundColor')) return 'Changed background';
+  if ([...keys].some((k) => k.startsWith('layouts'))) return 'Changed layout';
+  for (const slot of ['timelines', 'triggers', 'variables', 'scripts']) {
+    if ([...keys].some((k) => k.startsWith(slot))) return `Edited page ${slot}`;
+  }
+  return null;
+}
+
+function describeClips(patch: Patch): string | null {
+  const { added, removed } = listChanges(patch, []);
+  if (added && !removed) return `Added ${plural(added, 'clip')}`;
+  if (removed && !added) return `Removed ${plural(removed, 'clip')}`;
+  if (!patch.forward.length) return null;
+  const timing = patch.forward.every((op) => op.path.length === 2 && (op.path[1] === 'start' || op.path[1] === 'end'));
+  const count = new Set(patch.forward.map((op) => op.path[0])).size;
+  return timing ? `Moved ${plural(count, 'clip')}` : 'Edited clips';
+}
+
+function describeTimeline(patch: Patch, clipsKey: string): string | null {
+  const clips = describeClips(sub(patch, [clipsKey]));
+  if (clips) return clips;
+  const keys = new Set(patch.forward.map((op) => String(op.path[0])));
+  if (keys.has('cuePoints')) return 'Edited cue points';
+  if (keys.has('duration')) return 'Changed duration';
+  if (keys.has('loop')) return 'Changed looping';
+  if (keys.has('name')) return 'Renamed timeline';
+  return patch.forward.length ? 'Edited timeline' : null;
+}
+
+function describeContainer(patch: Patch, noun: string, child: string): string | null {
+  const { added, removed, moved } = listChanges(patch, [child]);
+  if (added || removed || moved) return `Changed ${noun} ${child}`;
+  const keys = new Set(patch.forward.map((op) => op.path.slice(0, 2).join('.')));
+  if (keys.has('metadata.title')) return `Renamed ${noun}`;
+  if ([...keys].some((k) => k.startsWith('metadata'))) return `Edited ${noun} details`;
+  return null;
+}
+
+export function describePatch(subject: HistorySubject, patch: Patch, category: string): string {
+  let label: string | null = null;
+  switch (subject) {
+    case 'page': label = describePage(patch); break;
+    case 'lesson': label = describeContainer(patch, 'lesson', 'pages'); break;
+    case 'module': label = describeContainer(patch, 'module', 'lessons'); break;
+    case 'timeline': label = describeTimeline(patch, '__clips'); break;
+    case 'stage':
+      label = describePage(sub(patch, ['page']))
+        ?? describeClips(sub(patch, ['clips']))
+        ?? describeTimeline(sub(patch, ['timeline']), '__clips');
+      break;
+  }
+  return label ?? FALLBACK[category] ?? 'Edit';
+}
@@ -0,0 +1,139 @@
+// Structural patches over JSON-shaped state (pages, lessons, timelines...).
+// `diff` walks two states and emits forward ops (old -> new) together with the inverse ops
+// (new -> old), so history can keep small patches instead of full snapshots. Arrays of
+// objects with an `id` are matched by id: unchanged runs at either end are diffed item by
+// item and the differing middle becomes a single splice, which keeps element inserts and
+// deletes on large pages cheap. Op values are cloned on the way in and on apply, so stored
+// patches never alias live state.
+
+import { deepClone } from '../schemas/project';
+
+export type PatchPath = (string | number)[];
+
+export type PatchOp =
+  | { op: 'set'; path: PatchPath; value: unknown }
+  | { op: 'del'; path: PatchPath }
+  | { op: 'splice'; path: PatchPath; index: number; remove: number; insert: unknown[] };
+
+export interface Patch {
+  forward: PatchOp[];
+  /** Applied in order, undoes `forward`. */
+  inverse: PatchOp[];
+}
+
+type Obj = Record<string, unknown>;
+
+const isPlainObject = (v: unknown): v is Obj => typeof v === 'object' && v !== null && !Array.isArray(v);
+const keyOf = (v: unknown) => (isPlainObject(v) && typeof v.id === 'string' ? v.id : null);
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a)) {
+    if (!Array.isArray(b) || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (!deepEqual(a[i], b[i])) return false;
+    return true;
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+  const ka = Object.keys(a);
+  if (ka.length !== Object.keys(b).length) return false;
+  for (const k of ka) if (!(k in b) || !deepEqual(a[k], b[k])) return false;
+  return true;
+}
+
+// Same slot for prefix/suffix matching: same id for keyed items, equal value otherwise
+function sameSlot(a: unknown, b: unknown): boolean {
+  const ka = keyOf(a);
+  const kb = keyOf(b);
+  if (ka !== null || kb !== null) return ka === kb;
+  return deepEqual(a, b);
+}
+
+interface Collector { forward: PatchOp[]; inverse: PatchOp[] }
+
+function emit(c: Collector, forward: PatchOp, inverse: PatchOp) {
+  c.forward.push(forward);
+  c.inverse.push(inverse);
+}
+
+function diffValue(prev: unknown, next: unknown, path: PatchPath, c: Collector) {
+  if (Object.is(prev, next)) return;
+  if (Array.isArray(prev) && Array.isArray(next)) return diffArray(prev, next, path, c);
+  if (isPlainObject(prev) && isPlainObject(next)) return diffObject(prev, next, path, c);
+  if (deepEqual(prev, next)) return;
+  emit(c, { op: 'set', path, value: deepClone(next) }, { op: 'set', path, value: deepClone(prev) });
+}
+
+function diffObject(prev: Obj, next: Obj, path: PatchPath, c: Collector) {
+  for (const key of Object.keys(prev)) {
+    if (key in next) diffValue(prev[key], next[key], [...path, key], c);
+    else emit(c, { op: 'del', path: [...path, key] }, { op: 'set', path: [...path, key], value: deepClone(prev[key]) });
+  }
+  for (const key of Object.keys(next)) {
+    if (!(key in prev)) emit(c, { op: 'set', path: [...path, key], value: deepClone(next[key]) }, { op: 'del', path: [...path, key] });
+  }
+}
+
+function diffArray(prev: unknown[], next: unknown[], path: PatchPath, c: Collector) {
+  const max = Math.min(prev.length, next.length);
+  let head = 0;
+  while (head < max && sameSlot(prev[head], next[head])) head++;
+  let tail = 0;
+  while (tail < max - head && sameSlot(prev[prev.length - 1 - tail], next[next.length - 1 - tail])) tail++;
+
+  for (let i = 0; i < head; i++) diffValue(prev[i], next[i], [...path, i], c);
+  const removed = prev.slice(head, prev.length - tail);
+  const inserted = next.slice(head, next.length - tail);
+  if (removed.length || inserted.length) {
+    emit(c,
+      { op: 'splice', path, index: head, remove: removed.length, insert: deepClone(inserted) },
+      { op: 'splice', path, index: head, remove: inserted.length, insert: deepClone(removed) });
+  }
+  // Suffix items sit at their `next` positions once the splice has run
+  for (let j = 0; j < tail; j++) {
+    diffValue(prev[prev.length - tail + j], next[next.length - tail + j], [...path, next.length - tail + j], c);
+  }
+}
+
+/** Ops turning `prev` into `next` and back. Empty when the two are equal. */
+export function diff(prev: unknown, next: unknown): Patch {
+  const c: Collector = { forward: [], inverse: [] };
+  diffValue(prev, next, [], c);
+  // Each inverse op undoes its forward op in the state right after it; run them last-first
+  c.inverse.reverse();
+  return c;
+}
+
+export function isEmptyPatch(p: Patch): boolean {
+  return p.forward.length === 0;
+}
+
+function walk(root: unknown, path: PatchPath): any {
+  let cur: any = root;
+  for (const key of path) cur = cur[key];
+  return cur;
+}
+
+/** Apply `ops` to `root` in place; returns the (possibly replaced) root. */
+export function applyOps<T>(root: T, ops: PatchOp[]): T {
+  let out: any = root;
+  for (const op of ops) {
+    if (op.op === 'splice') {
+      walk(out, op.path).splice(op.index, op.remove, ...deepClone(op.insert));
+      continue;
+    }
+    if (op.path.length === 0) {
+      if (op.op === 'set') out = deepClone(op.value);
+      continue;
+    }
+    const parent = walk(out, op.path.slice(0, -1));
+    const key = op.path[op.path.length - 1];
+    if (op.op === 'set') parent[key] = deepClone(op.value);
+    else delete parent[key];
+  }
+  return out;
+}
+
+/** Rough retained size of a patch (serialized length), for diagnostics and benchmarks. */
+export function patchSize(p: Patch): number {
+  return JSON.stringify(p.forward).length + JSON.stringify(p.inverse).length;
+}
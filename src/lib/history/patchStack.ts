@@ -0,0 +1,128 @@
+// Undo stack that stores patches instead of snapshots.
+// The stack owns one clone of the state as of the latest commit (`base`); each entry holds
+// the forward/inverse ops between two consecutive commits. Committing diffs the live state
+// against `base`, undo/redo replay an entry's ops onto `base` and hand back a fresh copy.
+// Positions count states: 0 is the oldest state kept, `past.length` the current one.
+// A named checkpoint pins a state; entries are never evicted past the oldest checkpoint.
+
+import { deepClone } from '../schemas/project';
+import { applyOps, diff, isEmptyPatch, type Patch } from './patch';
+
+export interface PatchEntry<C extends string = string> extends Patch {
+  category: C;
+  ts: number;
+  /** Human readable summary, e.g. "Moved 3 elements". */
+  label?: string;
+  /** Name pinned on the state this entry leads to. */
+  checkpoint?: string;
+}
+
+export interface PatchStack<T, C extends string = string> {
+  /** State at the latest commit / undo / redo; null until the first commit. */
+  base: T | null;
+  past: PatchEntry<C>[];
+  future: PatchEntry<C>[];
+  limit: number;
+  /** Checkpoint on the state at position 0. */
+  startCheckpoint?: string;
+}
+
+export function createPatchStack<T, C extends string = string>(limit = 100): PatchStack<T, C> {
+  return { base: null, past: [], future: [], limit };
+}
+
+/**
+ * Record `current` as the next state. The first commit only takes the baseline. When
+ * `squash` accepts the latest entry the change is folded into it rather than pushed.
+ * Returns false when `current` equals the last recorded state.
+ */
+export function commitState<T, C extends string>(
+  stack: PatchStack<T, C>,
+  current: T,
+  category: C,
+  squash?: (last: PatchEntry<C>) => boolean,
+): boolean {
+  if (stack.base === null) {
+    stack.base = deepClone(current);
+    return true;
+  }
+  const patch = diff(stack.base, current);
+  if (isEmptyPatch(patch)) return false;
+  const now = Date.now();
+  const last = stack.past[stack.past.length - 1];
+  if (last && !last.checkpoint && squash?.(last)) {
+    last.forward = last.forward.concat(patch.forward);
+    last.inverse = patch.inverse.concat(last.inverse);
+    last.ts = now;
+  } else {
+    stack.past.push({ ...patch, category, ts: now });
+    evict(stack);
+  }
+  stack.base = applyOps(stack.base, patch.forward);
+  stack.future = []; // clear redo on new divergent commit
+  return true;
+}
+
+/**
+ * The newest `limit` entries of `past`, cutting no further than the oldest pinned state; with
+ * the checkpoint of the state the kept entries start from.
+ */
+export function keepRecent<E extends { checkpoint?: string }>(past: E[], limit: number, startCheckpoint?: string): { past: E[]; startCheckpoint?: string } {
+  let cut = 0;
+  let start = startCheckpoint;
+  while (past.length - cut > limit && !start) start = past[cut++].checkpoint;
+  return { past: cut ? past.slice(cut) : past, startCheckpoint: start };
+}
+
+function evict(stack: PatchStack<unknown, string>) {
+  const kept = keepRecent(stack.past, stack.limit, stack.startCheckpoint);
+  stack.past = kept.past;
+  stack.startCheckpoint = kept.startCheckpoint;
+}
+
+/** Step back one entry; returns a copy of the restored state, or null when there is none. */
+export function undoState<T, C extends string>(stack: PatchStack<T, C>): T | null {
+  if (stack.base === null) return null;
+  const entry = stack.past.pop(); if (!entry) return null;
+  stack.base = applyOps(stack.base, entry.inverse);
+  stack.future.push(entry);
+  return deepClone(stack.base);
+}
+
+export function redoState<T, C extends string>(stack: PatchStack<T, C>): T | null {
+  if (stack.base === null) return null;
+  const entry = stack.future.pop(); if (!entry) return null;
+  stack.base = applyOps(stack.base, entry.forward);
+  stack.past.push(entry);
+  return deepClone(stack.base);
+}
+
+/** Total number of states reachable by undo/redo (the current one included). */
+export function stateCount(stack: PatchStack<unknown, string>): number {
+  return stack.past.length + stack.future.length + 1;
+}
+
+/** Move to `position` in one go; returns a copy of that state, or null when already there / out of range. */
+export function travelTo<T, C extends string>(stack: PatchStack<T, C>, position: number): T | null {
+  if (stack.base === null || position === stack.past.length || position < 0 || position >= stateCount(stack)) return null;
+  while (stack.past.length > position) {
+    const entry = stack.past.pop()!;
+    stack.base = applyOps(stack.base, entry.inverse);
+    stack.future.push(entry);
+  }
+  while (stack.past.length < position) {
+    const entry = stack.future.pop()!;
+    stack.base = applyOps(stack.base, entry.forward);
+    stack.past.push(entry);
+  }
+  return deepClone(stack.base);
+}
+
+/** Name (or with null, unpin) the state at `position`. */
+export function setCheckpoint(stack: PatchStack<unknown, string>, position: number, name: string | null): void {
+  const value = name ?? undefined;
+  if (position === 0) stack.startCheckpoint = value;
+  else if (position <= stack.past.length) stack.past[position - 1].checkpoint = value;
+  else if (position < stateCount(stack)) stack.future[stateCount(stack) - 1 - position].checkpoint = value;
+  if (!value) evict(stack);
+}
@@ -0,0 +1,80 @@
+// Compact, JSON-safe form of the undo stacks, saved next to the project so undo survives a
+// reload. Only patches are kept: a stack's baseline is rebuilt from the entity as saved, plus
+// the `trailing` ops back from it to the baseline (edits are committed before they change the
+// entity, so the saved entity is usually one edit past it). A fingerprint of the saved entity
+// detects projects that moved on without their history (edited elsewhere, a crash between the
+// two writes); such stacks are dropped rather than replayed onto the wrong state.
+// `omit` names top-level fields another store keeps in sync outside history commits (a page's
+// timeline/trigger slots): they are left out of the fingerprint and their ops out of restored
+// entries, so a slot write after the last commit doesn't cost the page its history.
+
+import { deepClone } from '../schemas/project';
+import { type PatchEntry, type PatchStack, keepRecent } from './patchStack';
+import { applyOps, diff, type PatchOp } from './patch';
+
+export const PERSISTED_HISTORY_VERSION = 1;
+
+export interface PersistedStack<C extends string = string> {
+  fingerprint: string;
+  past: PatchEntry<C>[];
+  future: PatchEntry<C>[];
+  startCheckpoint?: string;
+  /** Ops from the fingerprinted entity back to the stack's baseline. */
+  trailing?: PatchOp[];
+}
+
+// JSON with object keys sorted: undo/redo can leave keys in a different order than the live object
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj).filter((k) => obj[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** FNV-1a over the canonical JSON form, plus its length. */
+export function fingerprint(value: unknown, omit: readonly string[] = []): string {
+  let subject = value;
+  if (omit.length && value && typeof value === 'object') {
+    subject = { ...(value as Record<string, unknown>) };
+    for (const key of omit) delete (subject as Record<string, unknown>)[key];
+  }
+  const json = canonicalJson(subject);
+  let h = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    h ^= json.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${(h >>> 0).toString(16)}:${json.length}`;
+}
+
+/** Keep at most `limit` undo and `limit` redo entries (more when a checkpoint needs them). */
+export function packStack<C extends string>(stack: PatchStack<unknown, C>, limit: number, omit: readonly string[] = []): PersistedStack<C> | null {
+  if (stack.base === null || (!stack.past.length && !stack.future.length)) return null;
+  const recent = keepRecent(stack.past, limit, stack.startCheckpoint);
+  return {
+    fingerprint: fingerprint(stack.base, omit),
+    past: recent.past,
+    future: stack.future.slice(-limit),
+    startCheckpoint: recent.startCheckpoint,
+  };
+}
+
+/** Fingerprint `packed` against `live`, the entity as it is saved now, instead of its baseline. */
+export function atLiveState<C extends string>(packed: PersistedStack<C>, base: unknown, live: unknown, omit: readonly string[] = []): PersistedStack<C> {
+  const trailing = diff(live, base).forward.filter((op) => !omit.includes(String(op.path[0])));
+  return { ...packed, fingerprint: fingerprint(live, omit), trailing: trailing.length ? trailing : undefined };
+}
+
+/** Rebuild a stack on top of `current`; null when `current` is not the state it was saved at. */
+export function unpackStack<T, C extends string>(saved: PersistedStack<C>, current: T, limit: number, omit: readonly string[] = []): PatchStack<T, C> | null {
+  if (!saved || !Array.isArray(saved.past) || !Array.isArray(saved.future)) return null;
+  if (saved.fingerprint !== fingerprint(current, omit)) return null;
+  const strip = (e: PatchEntry<C>): PatchEntry<C> => omit.length
+    ? { ...e, forward: e.forward.filter((op) => !omit.includes(String(op.path[0]))), inverse: e.inverse.filter((op) => !omit.includes(String(op.path[0]))) }
+    : e;
+  const base = Array.isArray(saved.trailing) ? applyOps(deepClone(current), saved.trailing) : deepClone(current);
+  return { base, past: saved.past.map(strip), future: saved.future.map(strip), limit, startCheckpoint: saved.startCheckpoint };
+}
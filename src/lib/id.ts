@@ -24,4 +24,7 @@ export const generateLessonId = () => `l_${next('l')}`;
 export const generatePageId = () => `p_${next('p')}`;
 export const generateElementId = () => `e_${next('e')}`;
 
+/** Random id for nested records without a counter (clips, keyframes, cues, triggers, variables, scripts). */
+export const generateUid = (prefix: string) => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
 export function resetIdCounters() { counters = { m: 0, l: 0, p: 0, e: 0 }; persist(); }
\ No newline at end of file
@@ -0,0 +1,52 @@
+// Thin wrappers over the Tauri project-file commands (src-tauri/src/project.rs).
+// Only call these when isDesktop() is true; in the browser build there is no IPC bridge.
+// Project bytes travel as raw binary bodies; paths and names ride along as percent-encoded
+// headers. Rust only accepts paths picked in a dialog this session or from recent projects.
+
+import { invoke, isTauri } from '@tauri-apps/api/core';
+
+export interface RecentProject {
+  path: string;
+  name: string;
+  openedAt: number;
+}
+
+export interface OpenedProject {
+  path: string;
+  name: string;
+  bytes: Uint8Array;
+}
+
+/** True when running inside the Tauri shell rather than a plain browser tab. */
+export function isDesktop(): boolean {
+  return typeof window !== 'undefined' && isTauri();
+}
+
+export async function newProjectFile(): Promise<void> {
+  await invoke('project_new');
+}
+
+/** Open `path` (a recent project), or show the open dialog when omitted. Resolves null when cancelled. */
+export async function openProjectFile(path?: string): Promise<OpenedProject | null> {
+  const res = await invoke<{ path: string; name: string } | null>('project_open', { path: path ?? null });
+  if (!res) return null;
+  const bytes = await invoke<ArrayBuffer>('project_read', { path: res.path });
+  return { path: res.path, name: res.name, bytes: new Uint8Array(bytes) };
+}
+
+export async function saveProjectFile(path: string, bytes: Uint8Array): Promise<void> {
+  await invoke('project_save', bytes, { headers: { 'x-mava-path': encodeURIComponent(path) } });
+}
+
+/** Show the save dialog and write there. Resolves the chosen path, or null when cancelled. */
+export async function saveProjectFileAs(suggestedName: string, bytes: Uint8Array): Promise<string | null> {
+  return invoke<string | null>('project_save_as', bytes, { headers: { 'x-mava-name': encodeURIComponent(suggestedName) } });
+}
+
+export async function listRecentProjects(): Promise<RecentProject[]> {
+  return invoke<RecentProject[]>('recent_projects');
+}
+
+export async function clearRecentProjects(): Promise<void> {
+  await invoke('recent_projects_clear');
+}
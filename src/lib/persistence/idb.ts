@@ -0,0 +1,159 @@
+// IndexedDB storage for the open project, shared by the main thread (boot load) and the
+// autosave worker (writes). A project is split into one record for everything but its pages
+// and one record per page, keyed [projectKey, pageId], so an autosave only rewrites the pages
+// that changed. All writes for a save go through a single transaction.
+// The packed undo history (one record per history key), the recovery copies (one JSON string
+// per snapshot id, see recovery.ts) and the pre-migration backups (one per source format
+// version, see migrationBackup.ts) live in stores of their own.
+
+const DB_NAME = 'mava-studio';
+const DB_VERSION = 3;
+const PROJECTS = 'projects';
+const PAGES = 'pages';
+const HISTORY = 'history';
+const RECOVERY = 'recovery';
+const BACKUPS = 'backups';
+
+export interface StoredProject {
+  pagesById: Record<string, any>;
+  [field: string]: any;
+}
+
+/** What one save touches; `replace` drops every stored page first (full rewrite). */
+export interface ProjectWrite {
+  meta: Omit<StoredProject, 'pagesById'>;
+  pages: Record<string, any>;
+  removedPages: string[];
+  replace: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function hasIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('transaction aborted'));
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS);
+        if (!db.objectStoreNames.contains(PAGES)) db.createObjectStore(PAGES);
+        if (!db.objectStoreNames.contains(HISTORY)) db.createObjectStore(HISTORY);
+        if (!db.objectStoreNames.contains(RECOVERY)) db.createObjectStore(RECOVERY);
+        if (!db.objectStoreNames.contains(BACKUPS)) db.createObjectStore(BACKUPS);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another window'));
+    });
+    // Let a later call retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Every page key of a project: [key, id] for any string id ([] sorts after all strings)
+const pageRange = (key: string) => IDBKeyRange.bound([key], [key, []]);
+
+/** The stored project under `key`, reassembled; null when there is none. */
+export async function readProject(key: string): Promise<StoredProject | null> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, PAGES], 'readonly');
+  const [meta, pageKeys, pages] = await Promise.all([
+    request(tx.objectStore(PROJECTS).get(key)),
+    request(tx.objectStore(PAGES).getAllKeys(pageRange(key))),
+    request(tx.objectStore(PAGES).getAll(pageRange(key))),
+  ]);
+  if (!meta) return null;
+  const pagesById: Record<string, any> = {};
+  pageKeys.forEach((k, i) => { pagesById[(k as [string, string])[1]] = pages[i]; });
+  return { ...meta, pagesById };
+}
+
+export async function writeProject(key: string, write: ProjectWrite): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, PAGES], 'readwrite');
+  const pageStore = tx.objectStore(PAGES);
+  if (write.replace) pageStore.delete(pageRange(key));
+  for (const id of write.removedPages) pageStore.delete([key, id]);
+  for (const [id, page] of Object.entries(write.pages)) pageStore.put(page, [key, id]);
+  tx.objectStore(PROJECTS).put(write.meta, key);
+  await done(tx);
+}
+
+/** Split a whole project into a full-rewrite ProjectWrite. */
+export function fullWrite(project: StoredProject): ProjectWrite {
+  const { pagesById, ...meta } = project;
+  return { meta, pages: pagesById ?? {}, removedPages: [], replace: true };
+}
+
+// ---- Undo history ----
+
+/** History saved under `key`; null when there is none. */
+export async function readHistory(key: string): Promise<unknown | null> {
+  const db = await openDb();
+  return (await request(db.transaction(HISTORY, 'readonly').objectStore(HISTORY).get(key))) ?? null;
+}
+
+export async function writeHistory(key: string, data: unknown): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY, 'readwrite');
+  tx.objectStore(HISTORY).put(data, key);
+  await done(tx);
+}
+
+// ---- Recovery copies ----
+
+export async function readRecoveryCopy(id: string): Promise<string | null> {
+  const db = await openDb();
+  return (await request(db.transaction(RECOVERY, 'readonly').objectStore(RECOVERY).get(id))) ?? null;
+}
+
+/** Store copy `id` and delete the `drop` ids in the same transaction. */
+export async function writeRecoveryCopy(id: string, json: string, drop: string[] = []): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(RECOVERY, 'readwrite');
+  const store = tx.objectStore(RECOVERY);
+  for (const old of drop) store.delete(old);
+  store.put(json, id);
+  await done(tx);
+}
+
+export async function deleteRecoveryCopies(ids: string[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(RECOVERY, 'readwrite');
+  for (const id of ids) tx.objectStore(RECOVERY).delete(id);
+  await done(tx);
+}
+
+// ---- Project backups ----
+
+export async function readBackups(): Promise<unknown[]> {
+  const db = await openDb();
+  return request(db.transaction(BACKUPS, 'readonly').objectStore(BACKUPS).getAll());
+}
+
+export async function writeBackup(key: string, backup: unknown): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(BACKUPS, 'readwrite');
+  tx.objectStore(BACKUPS).put(backup, key);
+  await done(tx);
+}
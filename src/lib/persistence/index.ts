@@ -1,38 +1,96 @@
 import { get } from 'svelte/store';
 import { projectData } from '../../stores/project';
+import { devOutput } from '../../stores/devOutput';
 import type { ProjectData } from '../schemas/project';
-import { validateAndMigrateProject } from '../validation/projectValidation';
+import { isDesktop } from './desktop';
+import { takeRecoverySnapshot, type RecoveryOptions } from './recovery';
+import { hasIndexedDb, readHistory, readProject, writeHistory } from './idb';
+import { recoverySettings } from '../../stores/settings';
+import { markSaveFailed, markSaved, markSaving, reportSideSaveFailure } from '../../stores/saveStatus';
 
 let worker: Worker | null = null;
 const STORAGE_KEY = 'studioProjectData';
 let workerSupported = typeof Worker !== 'undefined';
 
+/**
+ * The project lives in IndexedDB (written by the worker, see idb.ts); localStorage only holds
+ * it where IndexedDB is missing or a write to it failed, and is cleared once IndexedDB has a
+ * copy again. The worker starts after loadFromStorage settled, so it never writes the blank
+ * boot document over the stored one.
+ */
+let storageLoaded = !hasIndexedDb();
+
+/**
+ * Set while the stored project could not be opened (refused, invalid or unreadable) and the
+ * studio runs on a blank one: nothing is saved under the storage key, so the stored document
+ * and its history stay as they are until the user creates or opens a project.
+ */
+let storedProjectHeld = false;
+
+export function holdStoredProject() {
+  storedProjectHeld = true;
+}
+
+export function releaseStoredProject() {
+  storedProjectHeld = false;
+}
+
+/**
+ * On desktop, once a project has a `.mava` file, autosaves go to that file instead of
+ * localStorage. `write` snapshots the whole editor state and writes it through the Tauri
+ * commands; the web build never sets a target and keeps the localStorage path.
+ */
+export interface FileSaveTarget {
+  path: string;
+  write(): Promise<void>;
+}
+
+let fileTarget: FileSaveTarget | null = null;
+let fileWrite: Promise<void> | null = null;
+let fileWritePending = false;
+let fileWriteTimer: ReturnType<typeof setTimeout> | null = null;
+const FILE_WRITE_DELAY = 800;
+
+/**
+ * Undo history is saved next to the project under its own key (per file on desktop), through
+ * the same worker, to IndexedDB; localStorage only holds it where that write failed. The
+ * history store registers a source that packs its stacks; saves are debounced here and forced
+ * by flushSaves.
+ */
+const HISTORY_SUFFIX = '.history';
+const HISTORY_DELAY = 1500;
+let historySource: (() => unknown | null) | null = null;
+let historyTimer: ReturnType<typeof setTimeout> | null = null;
+
 interface PendingChange {
   scope: 'page' | 'lesson' | 'module' | 'course';
   pages?: Record<string, any>;
   lessons?: Record<string, any>;
   modules?: Record<string, any>;
   course?: any;
+  /** Entities deleted by a structure edit (course scope). */
+  removed?: { pages?: string[]; lessons?: string[]; modules?: string[] };
   ts: number;
 }
 
 function initWorkerOnce() {
-  if (!workerSupported || worker) return;
+  if (!workerSupported || worker || !storageLoaded || storedProjectHeld) return;
   try {
     // Assume bundler handles ?worker or direct path (adjust if needed later)
     worker = new Worker(new URL('../../workers/autosave.worker.ts', import.meta.url), { type: 'module' });
     const full: ProjectData = get(projectData);
-    worker.postMessage({ type: 'init', key: STORAGE_KEY, full });
+    worker.postMessage({ type: 'init', key: STORAGE_KEY, full, toFile: !!fileTarget });
     worker.onmessage = (e) => {
       const msg = e.data;
       if (msg.type === 'persist-request') {
-        try { localStorage.setItem(msg.key, JSON.stringify(msg.data)); } catch {}
-      } else if (msg.type === 'loaded') {
-        try {
-          const parsed = JSON.parse(msg.raw);
-          const res = validateAndMigrateProject(parsed);
-          if (res.ok && res.data) projectData.set(res.data);
-        } catch {}
+        if (msg.error) devOutput.append('warn', `IndexedDB write failed (${msg.error.message}); saving to localStorage instead`, { source: 'persistence' });
+        persistSnapshot(msg.key, msg.data);
+      } else if (msg.type === 'persist-history') {
+        persistHistoryLocally(msg.key, msg.data);
+      } else if (msg.type === 'history-stored') {
+        try { localStorage.removeItem(msg.key); } catch {}
+      } else if (msg.type === 'stored') {
+        onStored(msg.key);
       }
     };
   } catch (e) {
@@ -41,6 +99,9 @@ function initWorkerOnce() {
 }
 
 export function queueSave(change: PendingChange) {
+  // Before the boot load the change only lives in projectData; resetSaves sends it all afterwards
+  if (!storageLoaded || storedProjectHeld) return;
+  markSaving();
   initWorkerOnce();
   if (worker) {
     worker.postMessage({ type: 'change', ...change });
@@ -52,26 +113,179 @@ export function queueSave(change: PendingChange) {
       if (change.lessons) Object.assign(current.lessonsById, change.lessons);
       if (change.modules) Object.assign(current.modulesById, change.modules);
       if (change.course) current.course = change.course;
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
-    } catch {}
+      persistSnapshot(STORAGE_KEY, current);
+    } catch (e) {
+      markSaveFailed('browser storage', e);
+    }
   }
 }
 
+/** Recovery snapshot count / spacing from the user's settings. */
+export function recoveryOptions(): RecoveryOptions {
+  const { keep, intervalMinutes } = get(recoverySettings);
+  return { keep, intervalMs: intervalMinutes * 60_000 };
+}
+
+// Every autosave is a candidate; takeRecoverySnapshot throttles to the configured interval
+function noteRecoveryPoint(data: ProjectData) {
+  takeRecoverySnapshot(data, recoveryOptions()).catch((e) => reportSideSaveFailure('recovery snapshots', e));
+}
+
+function persistSnapshot(key: string, data: ProjectData) {
+  noteRecoveryPoint(data);
+  if (fileTarget) {
+    queueFileWrite();
+    return;
+  }
+  try {
+    localStorage.setItem(key, JSON.stringify(data));
+    markSaved();
+  } catch (e) {
+    markSaveFailed('browser storage', e);
+  }
+}
+
+function persistHistoryLocally(key: string, data: unknown) {
+  try { localStorage.setItem(key, JSON.stringify(data)); } catch (e) { reportSideSaveFailure('undo history', e); }
+}
+
+// Without the worker: same as its flush, on this thread
+function persistHistory(key: string, data: unknown) {
+  if (!hasIndexedDb()) return persistHistoryLocally(key, data);
+  writeHistory(key, data)
+    .then(() => { try { localStorage.removeItem(key); } catch {} })
+    .catch(() => persistHistoryLocally(key, data));
+}
+
+/** Storage key for the open project's history. */
+export function historyStorageKey(): string {
+  return STORAGE_KEY + HISTORY_SUFFIX + (fileTarget ? `:${fileTarget.path}` : '');
+}
+
+export function setHistorySource(source: (() => unknown | null) | null) {
+  historySource = source;
+}
+
+function saveHistoryNow() {
+  if (historyTimer) { clearTimeout(historyTimer); historyTimer = null; }
+  if (storedProjectHeld) return;
+  const data = historySource?.();
+  if (data == null) return;
+  const key = historyStorageKey();
+  initWorkerOnce();
+  if (worker) worker.postMessage({ type: 'history', key, data });
+  else persistHistory(key, data);
+}
+
+/** Debounced save of the undo history (see setHistorySource). */
+export function queueHistorySave() {
+  if (historyTimer) clearTimeout(historyTimer);
+  historyTimer = setTimeout(saveHistoryNow, HISTORY_DELAY);
+}
+
+/**
+ * History saved for the open project, or null. A localStorage copy was written after an
+ * IndexedDB write failed (or before history moved there), so it is the newer one and wins.
+ */
+export async function readPersistedHistory(): Promise<unknown | null> {
+  const key = historyStorageKey();
+  try {
+    const raw = localStorage.getItem(key);
+    if (raw) return JSON.parse(raw);
+    return hasIndexedDb() ? await readHistory(key) : null;
+  } catch {
+    return null;
+  }
+}
+
+// One write at a time; changes arriving mid-write coalesce into a single follow-up write
+function writeFileNow(): Promise<void> {
+  if (!fileTarget) return Promise.resolve();
+  if (fileWrite) {
+    fileWritePending = true;
+    return fileWrite;
+  }
+  const target = fileTarget;
+  fileWrite = target.write()
+    .catch((e) => markSaveFailed(target.path.split(/[\\/]/).pop() ?? target.path, e))
+    .finally(() => {
+      fileWrite = null;
+      if (fileWritePending) {
+        fileWritePending = false;
+        writeFileNow();
+      }
+    });
+  return fileWrite;
+}
+
+/** Route autosaves to a project file (desktop only); null returns to localStorage. */
+export function setFileSaveTarget(target: FileSaveTarget | null) {
+  fileTarget = target && isDesktop() ? target : null;
+}
+
+export function getFileSaveTarget(): FileSaveTarget | null {
+  return fileTarget;
+}
+
+/**
+ * Debounced write of the whole project to its file. Edits that never reach queueSave call this
+ * directly; a no-op without a file target (the worker's localStorage snapshot covers those).
+ */
+export function queueFileWrite() {
+  if (!fileTarget) return;
+  markSaving();
+  if (fileWriteTimer) clearTimeout(fileWriteTimer);
+  fileWriteTimer = setTimeout(() => { fileWriteTimer = null; writeFileNow(); }, FILE_WRITE_DELAY);
+}
+
+/** Re-seed the autosave worker after the open project was replaced wholesale. */
+export function resetSaves() {
+  if (fileWriteTimer) { clearTimeout(fileWriteTimer); fileWriteTimer = null; }
+  if (storedProjectHeld) return;
+  markSaving();
+  initWorkerOnce();
+  if (worker) worker.postMessage({ type: 'init', key: STORAGE_KEY, full: get(projectData), toFile: !!fileTarget });
+  else if (storageLoaded) persistSnapshot(STORAGE_KEY, get(projectData));
+}
+
+/** Header "Retry": send the whole project again and write it out now. */
+export function retrySaves() {
+  resetSaves();
+  flushSaves();
+  if (fileTarget) writeFileNow();
+}
+
 export function flushSaves() {
+  if (historyTimer) saveHistoryNow();
   if (worker) worker.postMessage({ type: 'flush' });
+  if (fileWriteTimer) { clearTimeout(fileWriteTimer); fileWriteTimer = null; writeFileNow(); }
 }
 
-export function loadFromStorage() {
-  initWorkerOnce();
-  if (worker) worker.postMessage({ type: 'load', key: STORAGE_KEY });
-  else {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw);
-      const res = validateAndMigrateProject(parsed);
-      if (res.ok && res.data) projectData.set(res.data);
-    } catch {}
+/** The worker wrote the project to IndexedDB: a localStorage copy (legacy or fallback) is now stale. */
+function onStored(key: string) {
+  try { localStorage.removeItem(key); } catch {}
+  markSaved();
+  noteRecoveryPoint(get(projectData));
+}
+
+/**
+ * Boot: the project stored in IndexedDB, when it should replace the copy project.ts opened
+ * synchronously from localStorage. A localStorage copy is newer than IndexedDB (never moved
+ * over, or written after an IndexedDB failure) and wins: null is returned and the next save
+ * moves it over. Rejects when IndexedDB can't be read, which is not "nothing stored". The
+ * caller opens the document and calls resetSaves, which starts the worker, or holds the stored
+ * project (holdStoredProject) when it couldn't be opened.
+ */
+export async function loadFromStorage(): Promise<unknown | null> {
+  if (storageLoaded) return null;
+  try {
+    if (localStorage.getItem(STORAGE_KEY)) {
+      console.info('[persistence] moving the saved project from localStorage to IndexedDB');
+      return null;
+    }
+    return await readProject(STORAGE_KEY);
+  } finally {
+    storageLoaded = true;
   }
 }
 
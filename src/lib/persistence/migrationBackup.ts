@@ -0,0 +1,58 @@
+// Pre-migration backups: before a document stored in an older format is used (and soon
+// autosaved over in the new format) a copy of it as stored is kept in IndexedDB (idb.ts), one
+// slot per source format version. Documents refused at load (too new, invalid) are kept the
+// same way so the blank project the studio falls back to can't autosave over them unnoticed.
+// The recovery dialog lists them.
+
+import type { AppliedMigration } from '../validation/migrations';
+import type { ValidationResult } from '../validation/projectValidation';
+import { hasIndexedDb, readBackups, writeBackup } from './idb';
+
+// Backups kept before they moved to IndexedDB; listing moves them over
+const LEGACY_PREFIX = 'studioProjectData.backup.v';
+
+export interface ProjectBackup {
+  /** Where the document came from (file name, "Saved project"). */
+  source: string;
+  fromVersion: number;
+  savedAt: number;
+  /** Steps that ran on it; empty when it was refused. */
+  steps: AppliedMigration[];
+  document: unknown;
+}
+
+/** Store `backup`, replacing any earlier one from the same format version. False when storage is unavailable or full. */
+export async function keepProjectBackup(backup: ProjectBackup): Promise<boolean> {
+  if (!hasIndexedDb()) return false;
+  try {
+    await writeBackup(String(backup.fromVersion), backup);
+    return true;
+  } catch (e) {
+    console.warn('[migrationBackup] could not store backup', e);
+    return false;
+  }
+}
+
+/** Back up the pre-migration document of a load result, if migration ran. */
+export function keepMigrationBackup(res: ValidationResult, source: string): Promise<boolean> {
+  if (!res.backup || !res.migrations?.length) return Promise.resolve(false);
+  return keepProjectBackup({ source, fromVersion: res.fromVersion ?? 0, savedAt: Date.now(), steps: res.migrations, document: res.backup });
+}
+
+/** Every kept backup, newest first. */
+export async function listProjectBackups(): Promise<ProjectBackup[]> {
+  if (!hasIndexedDb()) return [];
+  if (typeof localStorage !== 'undefined') {
+    for (const key of Object.keys(localStorage).filter((k) => k.startsWith(LEGACY_PREFIX))) {
+      try {
+        await writeBackup(key.slice(LEGACY_PREFIX.length), JSON.parse(localStorage.getItem(key)!));
+        localStorage.removeItem(key);
+      } catch {}
+    }
+  }
+  try {
+    return ((await readBackups()) as ProjectBackup[]).sort((a, b) => b.savedAt - a.savedAt);
+  } catch {
+    return [];
+  }
+}
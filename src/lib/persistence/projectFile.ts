@@ -0,0 +1,135 @@
+// `.mava` project file format: a zip archive holding
+//   manifest.json   format marker + version, so future readers can refuse or migrate
+//   project.json    ProjectData, including timelines, triggers, variables and scripts
+//   assets/*        embedded media. Image data URLs are lifted out of project.json on save
+//                   (replaced by `assets/<name>`) and inlined again on open.
+// Version 1 files kept editor state in a separate `studio.json`; it is returned as
+// `legacyStudio` for the caller to fold into the migrated document.
+// The same content also travels as a single JSON bundle (manifest fields plus `project`, media
+// left inline as data URLs) for tools and diffs that can't read zip.
+
+import type { ProjectData } from '../schemas/project';
+import type { ExportFile } from '../export/types';
+import { createZip, crc32, readZip } from '../export/zip';
+import type { LegacyStudioState } from './studioState';
+
+export const PROJECT_FILE_FORMAT = 'mava-project';
+export const PROJECT_FILE_VERSION = 2;
+
+export interface DecodedProjectFile {
+  /** Document as stored; run it through validateAndMigrateProject before use. */
+  project: unknown;
+  legacyStudio: LegacyStudioState | null;
+}
+
+interface Manifest {
+  format: string;
+  version: number;
+  savedAt: string;
+}
+
+const MIME_EXT: Record<string, string> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg', 'image/avif': 'avif',
+};
+
+function decodeDataUrl(url: string): { mime: string; bytes: Uint8Array } | null {
+  const m = /^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,(.*)$/s.exec(url);
+  if (!m) return null;
+  const mime = m[1] || 'application/octet-stream';
+  if (!m[3]) return { mime, bytes: new TextEncoder().encode(decodeURIComponent(m[4])) };
+  const bin = atob(m[4]);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return { mime, bytes };
+}
+
+function encodeDataUrl(mime: string, bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${mime};base64,${btoa(bin)}`;
+}
+
+function mimeFor(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase();
+  return Object.keys(MIME_EXT).find((k) => MIME_EXT[k] === ext) ?? 'application/octet-stream';
+}
+
+/** Visit every image element's `style.src`, replacing it with the callback's result. */
+function mapImageSources(project: ProjectData, fn: (src: string) => string) {
+  // Runs on unvalidated input when decoding, hence the defensive access
+  for (const page of Object.values(project.pagesById ?? {})) {
+    for (const el of (page?.elements ?? []) as any[]) {
+      if (el.type === 'image' && typeof el.style?.src === 'string') el.style.src = fn(el.style.src);
+    }
+  }
+}
+
+/** Serialize a project into `.mava` bytes. The project is not modified. */
+export function encodeProjectFile(source: ProjectData, savedAt = new Date()): Uint8Array {
+  const project: ProjectData = structuredClone(source);
+  const assets = new Map<string, Uint8Array>();
+  mapImageSources(project, (src) => {
+    const decoded = src.startsWith('data:') ? decodeDataUrl(src) : null;
+    if (!decoded) return src;
+    // Content-addressed names dedupe an image used on several pages
+    const name = `assets/${crc32(decoded.bytes).toString(16).padStart(8, '0')}-${decoded.bytes.length}.${MIME_EXT[decoded.mime] ?? 'bin'}`;
+    assets.set(name, decoded.bytes);
+    return name;
+  });
+  const manifest: Manifest = { format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, savedAt: savedAt.toISOString() };
+  const files: ExportFile[] = [
+    { path: 'manifest.json', content: JSON.stringify(manifest, null, 2) },
+    { path: 'project.json', content: JSON.stringify(project) },
+    ...[...assets].map(([path, content]) => ({ path, content })),
+  ];
+  return createZip(files, savedAt);
+}
+
+/** Parse `.mava` bytes (any version up to PROJECT_FILE_VERSION). */
+export function decodeProjectFile(bytes: Uint8Array): DecodedProjectFile {
+  const files = readZip(bytes);
+  const dec = new TextDecoder();
+  const json = (path: string) => {
+    const data = files.get(path);
+    if (!data) return undefined;
+    try { return JSON.parse(dec.decode(data)); } catch { throw new Error(`${path} is not valid JSON`); }
+  };
+
+  const manifest = json('manifest.json') as Manifest | undefined;
+  if (manifest?.format !== PROJECT_FILE_FORMAT) throw new Error('Not a Mava project file');
+  if (manifest.version > PROJECT_FILE_VERSION) throw new Error(`Project file version ${manifest.version} is newer than this editor supports`);
+  const project = json('project.json') as ProjectData | undefined;
+  if (!project) throw new Error('Project file has no project.json');
+
+  mapImageSources(project, (src) => {
+    const data = src.startsWith('assets/') ? files.get(src) : undefined;
+    return data ? encodeDataUrl(mimeFor(src), data) : src;
+  });
+
+  const studio = manifest.version < 2 ? json('studio.json') : undefined;
+  return {
+    project,
+    legacyStudio: studio ? (studio as LegacyStudioState) : null,
+  };
+}
+
+/** Serialize a project as a JSON bundle (see the header comment). */
+export function encodeProjectJson(project: ProjectData, savedAt = new Date()): Uint8Array {
+  const bundle = { format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, savedAt: savedAt.toISOString(), project };
+  return new TextEncoder().encode(JSON.stringify(bundle));
+}
+
+/** Parse a `.mava` zip or a JSON bundle; a bare project document (no manifest) is accepted too. */
+export function decodeProjectBundle(bytes: Uint8Array): DecodedProjectFile {
+  // Zip local file header magic "PK\x03\x04"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return decodeProjectFile(bytes);
+  let parsed: any;
+  try { parsed = JSON.parse(new TextDecoder().decode(bytes)); } catch { throw new Error('Not a Mava project file'); }
+  if (parsed?.format === PROJECT_FILE_FORMAT) {
+    if (parsed.version > PROJECT_FILE_VERSION) throw new Error(`Project file version ${parsed.version} is newer than this editor supports`);
+    if (!parsed.project) throw new Error('Project bundle has no project');
+    return { project: parsed.project, legacyStudio: null };
+  }
+  if (parsed?.course && parsed?.pagesById) return { project: parsed, legacyStudio: null };
+  throw new Error('Not a Mava project file');
+}
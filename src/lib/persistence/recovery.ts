@@ -0,0 +1,194 @@
+// Crash recovery: a rotating set of timestamped copies of the project, taken from the autosave
+// stream at most every `intervalMs`, so a bad edit that got autosaved can still be rolled back.
+// The copies live in IndexedDB (idb.ts); localStorage only keeps the index, for listing
+// without reading every copy. A session marker, set on boot and cleared on a clean exit, tells
+// the next start whether the previous session ended unexpectedly.
+
+import type { ProjectData } from '../schemas/project';
+import { deepEqual } from '../history/patch';
+import { deleteRecoveryCopies, hasIndexedDb, readRecoveryCopy, writeRecoveryCopy } from './idb';
+
+const INDEX_KEY = 'studioProjectData.recovery';
+// Copies taken before they moved to IndexedDB; the first snapshot of a session moves them over
+const LEGACY_PREFIX = 'studioProjectData.recovery.';
+const SESSION_KEY = 'studioProjectData.session';
+
+export interface RecoveryCounts {
+  modules: number;
+  lessons: number;
+  pages: number;
+  elements: number;
+}
+
+export interface RecoveryEntry extends RecoveryCounts {
+  id: string;
+  savedAt: number;
+  title: string;
+  /** Why it was taken: 'autosave', or e.g. 'Before restore'. */
+  reason: string;
+}
+
+export interface RecoveryOptions {
+  /** Snapshots kept; older ones are deleted. */
+  keep: number;
+  /** Minimum time between autosave snapshots. */
+  intervalMs: number;
+}
+
+/** Counts per level, changed entries compared by id (what restoring would do to the current document). */
+export interface RecoveryDiff {
+  pages: { added: number; removed: number; changed: number };
+  elements: { added: number; removed: number; changed: number };
+}
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+export function countProject(doc: ProjectData): RecoveryCounts {
+  const pages = Object.values(doc.pagesById ?? {});
+  return {
+    modules: Object.keys(doc.modulesById ?? {}).length,
+    lessons: Object.keys(doc.lessonsById ?? {}).length,
+    pages: pages.length,
+    elements: pages.reduce((n, p) => n + (p.elements?.length ?? 0), 0),
+  };
+}
+
+export function listRecoverySnapshots(): RecoveryEntry[] {
+  if (!hasStorage()) return [];
+  try {
+    const list = JSON.parse(localStorage.getItem(INDEX_KEY) ?? '[]');
+    return Array.isArray(list) ? list.sort((a, b) => b.savedAt - a.savedAt) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function readRecoverySnapshot(id: string): Promise<ProjectData | null> {
+  try {
+    const legacy = hasStorage() ? localStorage.getItem(LEGACY_PREFIX + id) : null;
+    const raw = legacy ?? (hasIndexedDb() ? await readRecoveryCopy(id) : null);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeIndex(list: RecoveryEntry[]) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(list));
+}
+
+let lastSnapshotAt = 0;
+let lastSnapshotJson = '';
+let firstSnapshot = true;
+// One write at a time, so each starts from the index the previous one left
+let writing: Promise<unknown> = Promise.resolve();
+
+/**
+ * Keep a copy of `doc` unless the last one is younger than `intervalMs` (`force` skips that
+ * check) or identical. When storage is full the oldest copies make room; rejects when even
+ * that is not enough. Resolves to the new entry.
+ */
+export function takeRecoverySnapshot(doc: ProjectData, opts: RecoveryOptions, reason = 'autosave', force = false): Promise<RecoveryEntry | null> {
+  if (!hasStorage() || !hasIndexedDb() || opts.keep <= 0) return Promise.resolve(null);
+  const now = Date.now();
+  if (!force && now - lastSnapshotAt < opts.intervalMs) return Promise.resolve(null);
+  const json = JSON.stringify(doc);
+  if (json === lastSnapshotJson) return Promise.resolve(null);
+  lastSnapshotAt = now;
+  lastSnapshotJson = json;
+  const entry: RecoveryEntry = { id: String(now), savedAt: now, title: doc.course?.metadata?.title ?? '', reason, ...countProject(doc) };
+  const run = writing.then(() => storeSnapshot(entry, json, opts)).catch((e) => {
+    if (lastSnapshotJson === json) lastSnapshotJson = '';
+    throw e;
+  });
+  writing = run.catch(() => {});
+  return run;
+}
+
+async function storeSnapshot(entry: RecoveryEntry, json: string, opts: RecoveryOptions): Promise<RecoveryEntry | null> {
+  let list = listRecoverySnapshots();
+  if (firstSnapshot) {
+    firstSnapshot = false;
+    for (const e of list) {
+      const legacy = localStorage.getItem(LEGACY_PREFIX + e.id);
+      if (legacy) { await writeRecoveryCopy(e.id, legacy); localStorage.removeItem(LEGACY_PREFIX + e.id); }
+    }
+    // Skip this snapshot when the newest stored copy already has this content
+    if (list.length && await readRecoveryCopy(list[0].id) === json) return null;
+  }
+  const dropped: RecoveryEntry[] = [];
+  while (list.length >= opts.keep) dropped.push(list.pop()!);
+  for (;;) {
+    try {
+      await writeRecoveryCopy(entry.id, json, dropped.map((e) => e.id));
+      break;
+    } catch (e) {
+      if (!list.length) throw e;
+      dropped.push(list.pop()!);
+    }
+  }
+  for (const e of dropped) localStorage.removeItem(LEGACY_PREFIX + e.id);
+  writeIndex([entry, ...list]);
+  return entry;
+}
+
+export function deleteRecoverySnapshots() {
+  if (!hasStorage()) return;
+  const ids = listRecoverySnapshots().map((e) => e.id);
+  for (const id of ids) localStorage.removeItem(LEGACY_PREFIX + id);
+  localStorage.removeItem(INDEX_KEY);
+  if (hasIndexedDb()) deleteRecoveryCopies(ids).catch(() => {});
+}
+
+// Session marker ---------------------------------------------------------------------
+
+/**
+ * Mark this session as running; true when the previous one never reached endSession (crash,
+ * killed process, power loss). Several windows on the same storage can look like a crash.
+ */
+export function beginSession(): boolean {
+  if (!hasStorage()) return false;
+  let unclean = false;
+  try {
+    const prev = JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null');
+    unclean = !!prev && prev.clean === false;
+    localStorage.setItem(SESSION_KEY, JSON.stringify({ startedAt: Date.now(), clean: false }));
+  } catch {}
+  return unclean;
+}
+
+export function endSession() {
+  if (!hasStorage()) return;
+  try { localStorage.setItem(SESSION_KEY, JSON.stringify({ endedAt: Date.now(), clean: true })); } catch {}
+}
+
+// Diff summary -------------------------------------------------------------------------
+
+function compareById<T extends { id: string }>(from: Record<string, T>, to: Record<string, T>) {
+  let added = 0;
+  let removed = 0;
+  let changed = 0;
+  for (const id of Object.keys(to)) {
+    if (!(id in from)) added++;
+    else if (!deepEqual(from[id], to[id])) changed++;
+  }
+  for (const id of Object.keys(from)) if (!(id in to)) removed++;
+  return { added, removed, changed };
+}
+
+/** What replacing `current` with `snapshot` would change. */
+export function diffRecovery(current: ProjectData, snapshot: ProjectData): RecoveryDiff {
+  const elements = (doc: ProjectData) => {
+    const out: Record<string, { id: string }> = {};
+    for (const page of Object.values(doc.pagesById ?? {})) for (const el of page.elements ?? []) out[el.id] = el;
+    return out;
+  };
+  // Pages count as changed for their own fields; element edits are reported separately
+  const shallowPages = (doc: ProjectData) => Object.fromEntries(
+    Object.entries(doc.pagesById ?? {}).map(([id, p]) => [id, { ...p, elements: (p.elements ?? []).map((e) => e.id) }]),
+  );
+  return {
+    pages: compareById(shallowPages(current), shallowPages(snapshot)),
+    elements: compareById(elements(current), elements(snapshot)),
+  };
+}
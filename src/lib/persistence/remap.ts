@@ -0,0 +1,323 @@
+// Copying content out of another project (bundle import, module / lesson merge) so it can be
+// added to the open one without id collisions. Modules, lessons, pages and elements get fresh
+// ids from lib/id.ts; timelines, clips, keyframes, cues, triggers, variables and scripts new
+// random ones. References between copied records are rewritten; references to anything that
+// was not copied keep their old id.
+
+import { deepClone, type Lesson, type Module, type Page, type ProjectData, type StudioSlots } from '../schemas/project';
+import { timelinePageId, type StoredTimeline } from '../schemas/timeline';
+import type { ActionDef, ConditionNode, TriggerDef, ValueRef } from '../schemas/triggers';
+import type { StoredVariable } from '../schemas/variables';
+import { generateElementId, generateLessonId, generateModuleId, generatePageId, generateUid } from '../id';
+import { emptySlots } from './studioState';
+
+/** Old id -> new id, per kind. */
+interface IdMaps {
+  modules: Map<string, string>;
+  lessons: Map<string, string>;
+  pages: Map<string, string>;
+  elements: Map<string, string>;
+  timelines: Map<string, string>;
+  cues: Map<string, string>;
+}
+
+/** What to copy: whole modules, and/or lessons on their own. */
+export interface ImportSelection {
+  modules?: string[];
+  lessons?: string[];
+  /**
+   * Also copy the course-wide timelines, triggers, variables and scripts. Without it only the
+   * course variables the copied triggers use come along.
+   */
+  courseSlots?: boolean;
+}
+
+/** Where mergeImported puts copied modules (course position) or lessons (into a module). */
+export interface ImportPlacement {
+  /** Target module for lessons imported on their own. */
+  moduleId?: string;
+  /** Position among the siblings (0 = first); appended when omitted. */
+  index?: number;
+}
+
+/** Copied content under new ids, ready to be added to a project. */
+export interface ImportedContent {
+  /** Selected modules (their lessons are in `lessons`). */
+  modules: Module[];
+  /** Every copied lesson, including those of copied modules. */
+  lessons: Lesson[];
+  /** New ids of the lessons selected on their own. */
+  rootLessons: string[];
+  pages: Page[];
+  course: Required<StudioSlots>;
+}
+
+const mapId = (map: Map<string, string>, id: string) => map.get(id) ?? id;
+
+function mapRefs<T extends { id: string }>(refs: T[] | undefined, map: Map<string, string>): T[] {
+  return (refs ?? []).filter((r) => map.has(r.id)).map((r) => ({ ...r, id: map.get(r.id)! }));
+}
+
+// ---- Triggers ----
+
+function mapValue(ref: ValueRef, rename: (name: string) => string): ValueRef {
+  return ref?.type === 'variable' ? { ...ref, name: rename(ref.name) } : ref;
+}
+
+function mapCondition(node: ConditionNode | null | undefined, rename: (name: string) => string): ConditionNode | null | undefined {
+  if (!node) return node;
+  if (node.kind === 'group') return { ...node, items: node.items.map((n) => mapCondition(n, rename)!) };
+  return { ...node, left: mapValue(node.left, rename), right: mapValue(node.right, rename) };
+}
+
+function valueNames(ref: ValueRef, out: Set<string>) {
+  if (ref?.type === 'variable') out.add(ref.name);
+}
+
+function conditionNames(node: ConditionNode | null | undefined, out: Set<string>) {
+  if (!node) return;
+  if (node.kind === 'group') node.items.forEach((n) => conditionNames(n, out));
+  else { valueNames(node.left, out); valueNames(node.right, out); }
+}
+
+/** Variable names a trigger reads or writes. */
+export function triggerVariableNames(t: TriggerDef): Set<string> {
+  const out = new Set<string>();
+  if (t.source?.kind === 'variable' && t.source.name) out.add(t.source.name);
+  conditionNames(t.conditions, out);
+  for (const a of t.actions ?? []) {
+    conditionNames(a.condition, out);
+    if (a.kind === 'variable.set' || a.kind === 'variable.adjust') out.add(a.name);
+  }
+  return out;
+}
+
+/** Rewrite the variable names a trigger reads or writes. */
+export function renameTriggerVariables(t: TriggerDef, rename: (name: string) => string): TriggerDef {
+  const source = t.source?.kind === 'variable' && t.source.name ? { ...t.source, name: rename(t.source.name) } : t.source;
+  const actions = (t.actions ?? []).map((a): ActionDef => {
+    const withCondition = { ...a, condition: mapCondition(a.condition, rename) } as ActionDef;
+    return withCondition.kind === 'variable.set' || withCondition.kind === 'variable.adjust'
+      ? { ...withCondition, name: rename(withCondition.name) }
+      : withCondition;
+  });
+  return { ...t, source, conditions: mapCondition(t.conditions, rename), actions };
+}
+
+// `#id` parts of an element selector; `@name` and type parts stay as they are
+function mapSelector(selector: string, maps: IdMaps): string {
+  return String(selector ?? '').split(',').map((part) => {
+    const s = part.trim();
+    return s.startsWith('#') ? `#${mapId(maps.elements, s.slice(1))}` : s;
+  }).join(', ');
+}
+
+function copyTrigger(t: TriggerDef, maps: IdMaps): TriggerDef {
+  const tl = (id: string | null | undefined) => (id ? mapId(maps.timelines, id) : id);
+  let source = t.source;
+  if (source?.kind === 'timeline') source = { ...source, timelineId: tl(source.timelineId) ?? undefined, cueId: source.cueId ? mapId(maps.cues, source.cueId) : source.cueId };
+  else if (source?.kind === 'element') source = { ...source, selector: mapSelector(source.selector, maps) };
+  const actions = (t.actions ?? []).map((a) => ('timelineId' in a && a.timelineId ? { ...a, timelineId: tl(a.timelineId)! } : a));
+  return { ...deepClone(t), id: generateUid('trigger'), timelineId: tl(t.timelineId), source, actions };
+}
+
+// ---- Slots ----
+
+function copyTimeline(tl: StoredTimeline, maps: IdMaps): StoredTimeline {
+  return {
+    ...deepClone(tl),
+    id: mapId(maps.timelines, tl.id),
+    cuePoints: tl.cuePoints?.map((c) => ({ ...c, id: mapId(maps.cues, c.id) })),
+    clips: (tl.clips ?? []).map((c) => ({ ...c, id: generateUid('clip'), elementId: mapId(maps.elements, c.elementId) })),
+    keyframes: (tl.keyframes ?? []).map((k) => ({
+      ...k,
+      id: generateUid('kf'),
+      elementId: mapId(maps.elements, k.elementId),
+      motionPath: k.motionPath ? { ...k.motionPath, pathId: mapId(maps.elements, k.motionPath.pathId) } : k.motionPath,
+    })),
+    nested: tl.nested?.map((c) => ({ ...c, id: generateUid('nest'), timelineId: mapId(maps.timelines, c.timelineId) })),
+  };
+}
+
+function copySlots(slots: StudioSlots, maps: IdMaps): Required<StudioSlots> {
+  const timelines: Record<string, StoredTimeline> = {};
+  for (const tl of Object.values(slots.timelines ?? {})) {
+    const copy = copyTimeline(tl, maps);
+    timelines[copy.id] = copy;
+  }
+  return {
+    timelines,
+    triggers: (slots.triggers ?? []).map((t) => copyTrigger(t, maps)),
+    variables: (slots.variables ?? []).map((v) => ({ ...deepClone(v), id: generateUid('var') })),
+    scripts: (slots.scripts ?? []).map((s) => ({ ...deepClone(s), id: generateUid('script') })),
+  };
+}
+
+// Page timelines are named after their page; course-wide ones get a random id
+function planTimelines(slots: StudioSlots, maps: IdMaps) {
+  for (const tl of Object.values(slots.timelines ?? {})) {
+    const pid = timelinePageId(tl.id);
+    const stage = tl.id.slice(tl.id.lastIndexOf(':') + 1);
+    maps.timelines.set(tl.id, pid && maps.pages.has(pid) ? `page-${maps.pages.get(pid)}:${stage}` : generateUid('timeline'));
+    for (const cue of tl.cuePoints ?? []) maps.cues.set(cue.id, generateUid('cue'));
+  }
+}
+
+// ---- Pages ----
+
+function copyPage(page: Page, maps: IdMaps): Page {
+  const copy = deepClone(page);
+  copy.id = maps.pages.get(page.id)!;
+  copy.elements = copy.elements.map((el: any) => {
+    const out = { ...el, id: mapId(maps.elements, el.id) };
+    if (el.parentId) out.parentId = mapId(maps.elements, el.parentId);
+    if (el.parentComponentId) out.parentComponentId = mapId(maps.elements, el.parentComponentId);
+    if (Array.isArray(el.memberIds)) out.memberIds = el.memberIds.map((id: string) => mapId(maps.elements, id));
+    if (el.triggers) out.triggers = el.triggers.map((t: any) => ({ ...t, id: generateUid('trigger') }));
+    if (el.animations) out.animations = el.animations.map((a: any) => ({ ...a, id: generateUid('anim') }));
+    return out;
+  });
+  for (const layout of Object.values(copy.layouts ?? {})) {
+    if (!layout?.elementProps) continue;
+    layout.elementProps = Object.fromEntries(Object.entries(layout.elementProps).map(([id, v]) => [mapId(maps.elements, id), v]));
+  }
+  Object.assign(copy, copySlots(page, maps));
+  return copy;
+}
+
+/** Copy `select` out of `source` (a validated project) under fresh ids. */
+export function copyForImport(source: ProjectData, select: ImportSelection): ImportedContent {
+  const maps: IdMaps = { modules: new Map(), lessons: new Map(), pages: new Map(), elements: new Map(), timelines: new Map(), cues: new Map() };
+  const moduleIds = (select.modules ?? []).filter((id) => source.modulesById[id]);
+  const rootLessonIds = (select.lessons ?? []).filter((id) => source.lessonsById[id]);
+  const lessonIds = [...new Set([...moduleIds.flatMap((id) => source.modulesById[id].lessons.map((r) => r.id)), ...rootLessonIds])]
+    .filter((id) => source.lessonsById[id]);
+  const pageIds = [...new Set(lessonIds.flatMap((id) => source.lessonsById[id].pages.map((r) => r.id)))].filter((id) => source.pagesById[id]);
+
+  // Every new id first, so references can point forward (a trigger on page 1 naming an element on page 3)
+  for (const id of moduleIds) maps.modules.set(id, generateModuleId());
+  for (const id of lessonIds) maps.lessons.set(id, generateLessonId());
+  for (const id of pageIds) {
+    maps.pages.set(id, generatePageId());
+    for (const el of source.pagesById[id].elements ?? []) maps.elements.set(el.id, generateElementId());
+  }
+  for (const id of pageIds) planTimelines(source.pagesById[id], maps);
+  if (select.courseSlots) planTimelines(source.course, maps);
+
+  const prerequisites = (ids: string[] | undefined, map: Map<string, string>) => ids?.filter((id) => map.has(id)).map((id) => map.get(id)!);
+  const pages = pageIds.map((id) => copyPage(source.pagesById[id], maps));
+  let course = emptySlots();
+  if (select.courseSlots) course = copySlots(source.course, maps);
+  else {
+    // Course variables the copied pages' triggers use, unless a page defines its own
+    const used = new Set<string>();
+    for (const page of pages) {
+      const locals = new Set((page.variables ?? []).map((v) => v.name));
+      for (const t of page.triggers ?? []) for (const name of triggerVariableNames(t)) if (!locals.has(name)) used.add(name);
+    }
+    course.variables = (source.course.variables ?? []).filter((v) => used.has(v.name)).map((v) => ({ ...deepClone(v), id: generateUid('var') }));
+  }
+  return {
+    modules: moduleIds.map((id) => {
+      const m = deepClone(source.modulesById[id]);
+      return { ...m, id: maps.modules.get(id)!, lessons: mapRefs(m.lessons, maps.lessons), metadata: { ...m.metadata, prerequisites: prerequisites(m.metadata.prerequisites, maps.modules) } };
+    }),
+    lessons: lessonIds.map((id) => {
+      const l = deepClone(source.lessonsById[id]);
+      return { ...l, id: maps.lessons.get(id)!, pages: mapRefs(l.pages, maps.pages), metadata: { ...l.metadata, prerequisites: prerequisites(l.metadata.prerequisites, maps.lessons) } };
+    }),
+    rootLessons: rootLessonIds.map((id) => maps.lessons.get(id)!),
+    pages,
+    course,
+  };
+}
+
+// ---- Variables ----
+
+/** Imported variables that were reused or renamed because the name was taken. */
+export interface VariableResolution {
+  /** Course variables dropped in favour of the open project's variable of the same name and type. */
+  reused: string[];
+  /** Course variables renamed (old name -> new name). */
+  renamed: Record<string, string>;
+  /** Page variables renamed so they don't shadow a course variable, per new page id. */
+  renamedOnPages: Record<string, Record<string, string>>;
+}
+
+function freeName(name: string, taken: Set<string>): string {
+  let n = 2;
+  while (taken.has(`${name}_${n}`)) n++;
+  taken.add(`${name}_${n}`);
+  return `${name}_${n}`;
+}
+
+/**
+ * Match imported variables against `existing` (the open project's course variables):
+ *  - a course variable with the same name and type is the same variable and is dropped from
+ *    the import; a different type gets a free name (`score_2`);
+ *  - a page variable named like a course variable would shadow it on that page, so it is
+ *    renamed too.
+ * Copied triggers are rewritten to the new names; script code is not.
+ */
+export function resolveVariableNames(content: ImportedContent, existing: StoredVariable[]): VariableResolution {
+  const byName = new Map(existing.map((v) => [v.name, v]));
+  const taken = new Set(byName.keys());
+  const result: VariableResolution = { reused: [], renamed: {}, renamedOnPages: {} };
+  const kept: StoredVariable[] = [];
+  for (const v of content.course.variables) {
+    const other = byName.get(v.name);
+    if (!other) { kept.push(v); taken.add(v.name); continue; }
+    if (other.type === v.type) { result.reused.push(v.name); continue; }
+    const name = freeName(v.name, taken);
+    result.renamed[v.name] = name;
+    kept.push({ ...v, name });
+  }
+  content.course.variables = kept;
+  const courseNames = new Set([...byName.keys(), ...kept.map((v) => v.name)]);
+
+  const renameCourse = (name: string) => result.renamed[name] ?? name;
+  content.course.triggers = content.course.triggers.map((t) => renameTriggerVariables(t, renameCourse));
+  for (const page of content.pages) {
+    const local: Record<string, string> = {};
+    const pageTaken = new Set([...taken, ...(page.variables ?? []).map((v) => v.name)]);
+    page.variables = (page.variables ?? []).map((v) => {
+      if (!courseNames.has(v.name)) return v;
+      local[v.name] = freeName(v.name, pageTaken);
+      return { ...v, name: local[v.name] };
+    });
+    if (Object.keys(local).length) result.renamedOnPages[page.id] = local;
+    // Page variables shadow course ones: a name the page defines refers to the page variable
+    const locals = new Set((page.variables ?? []).map((v) => v.name));
+    page.triggers = (page.triggers ?? []).map((t) => renameTriggerVariables(t, (name) => local[name] ?? (locals.has(name) ? name : renameCourse(name))));
+  }
+  return result;
+}
+
+// Insert `ids` into an ordered ref list at `index` (appended when omitted) and renumber it
+function insertRefs(refs: { id: string; order: number }[], ids: string[], index?: number) {
+  const sorted = [...refs].sort((a, b) => a.order - b.order);
+  const at = index === undefined ? sorted.length : Math.max(0, Math.min(index, sorted.length));
+  sorted.splice(at, 0, ...ids.map((id) => ({ id, order: 0 })));
+  refs.length = 0;
+  sorted.forEach((r, i) => refs.push({ id: r.id, order: i + 1 }));
+}
+
+/**
+ * Add `content` to `pd` (mutated): copied modules go into the course and lessons selected on
+ * their own into `at.moduleId`, at `at.index`; lessons and pages are registered and course-wide
+ * slots merged. Throws when lessons need a module that `pd` does not have.
+ */
+export function mergeImported(pd: ProjectData, content: ImportedContent, at: ImportPlacement = {}) {
+  const target = content.rootLessons.length ? pd.modulesById[at.moduleId ?? ''] : null;
+  if (content.rootLessons.length && !target) throw new Error('Choose a module to import the lesson into');
+  for (const m of content.modules) pd.modulesById[m.id] = m;
+  insertRefs(pd.course.modules, content.modules.map((m) => m.id), at.index);
+  for (const l of content.lessons) pd.lessonsById[l.id] = l;
+  if (target) insertRefs(target.lessons, content.rootLessons, at.index);
+  for (const p of content.pages) pd.pagesById[p.id] = p;
+  const slots = content.course;
+  pd.course.timelines = { ...(pd.course.timelines ?? {}), ...slots.timelines };
+  pd.course.triggers = [...(pd.course.triggers ?? []), ...slots.triggers];
+  pd.course.variables = [...(pd.course.variables ?? []), ...slots.variables];
+  pd.course.scripts = [...(pd.course.scripts ?? []), ...slots.scripts];
+}
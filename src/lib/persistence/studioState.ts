@@ -0,0 +1,167 @@
+// Mapping between the studio stores' flat state (timelines, clips, keyframes, triggers,
+// variables, scripts) and the StudioSlots stored on the course and on each page (project v2).
+// Page-bound entries go to their page: page timelines (`page-<id>:<stage>`) with their clips
+// and keyframes, triggers on those timelines, page variables and page scripts. Everything
+// else is course-wide. Entries bound to a page that no longer exists are dropped.
+
+import type { ProjectData, StudioSlots } from '../schemas/project';
+import { timelinePageId, type StoredTimeline } from '../schemas/timeline';
+import type { TriggerDef } from '../schemas/triggers';
+import type { StoredVariable } from '../schemas/variables';
+import type { TimelineRecord } from '../../stores/timelineData';
+import type { TimelineClips } from '../../stores/timelineClips';
+import type { TimelineKeyframes } from '../../stores/animationData';
+import type { VariableDef } from '../../stores/variables';
+import type { ScriptDef } from '../../stores/scripts';
+import { migrateTriggers } from '../validation/triggerMigration';
+
+export interface StudioState {
+  timelines: TimelineRecord[];
+  clips: TimelineClips;
+  keyframes: TimelineKeyframes;
+  triggers: TriggerDef[];
+  variables: { defs: VariableDef[]; values: Record<string, any> };
+  scripts: ScriptDef[];
+}
+
+export interface SplitStudioState {
+  course: Required<StudioSlots>;
+  pages: Record<string, Required<StudioSlots>>;
+}
+
+export function emptySlots(): Required<StudioSlots> {
+  return { timelines: {}, triggers: [], variables: [], scripts: [] };
+}
+
+export function emptyStudioState(): StudioState {
+  return { timelines: [], clips: {}, keyframes: {}, triggers: [], variables: { defs: [], values: {} }, scripts: [] };
+}
+
+function triggerTimelineId(t: TriggerDef): string | null {
+  const id = t.source?.kind === 'timeline' ? t.source.timelineId ?? t.timelineId : t.timelineId;
+  return id ?? null;
+}
+
+/** Distribute flat studio state over course and page slots. Every page gets a (possibly empty) entry. */
+export function splitStudioState(pd: ProjectData, state: StudioState): SplitStudioState {
+  const course = emptySlots();
+  const pages: Record<string, Required<StudioSlots>> = {};
+  for (const id of Object.keys(pd.pagesById)) pages[id] = emptySlots();
+  // undefined: page-bound but the page is gone
+  const ownerOfTimeline = (tlId: string | null) => {
+    const pid = tlId ? timelinePageId(tlId) : null;
+    return pid ? pages[pid] : course;
+  };
+
+  const timelineIds = new Set([...state.timelines.map((t) => t.id), ...Object.keys(state.clips), ...Object.keys(state.keyframes)]);
+  for (const id of timelineIds) {
+    const owner = ownerOfTimeline(id);
+    if (!owner) continue;
+    const clips = (state.clips[id] ?? []).map((c) => ({ ...c }));
+    const keyframes = (state.keyframes[id] ?? []).map((k) => ({ ...k }));
+    const rec = state.timelines.find((t) => t.id === id);
+    // Clips/keyframes without a record still need a home; give them a minimal config
+    const base = rec ?? { id, name: id, duration: Math.max(0, ...clips.map((c) => c.end), ...keyframes.map((k) => k.time)) };
+    owner.timelines[id] = { ...structuredClone(base), clips, keyframes } as StoredTimeline;
+  }
+
+  for (const t of state.triggers) {
+    ownerOfTimeline(triggerTimelineId(t))?.triggers.push(structuredClone(t));
+  }
+
+  for (const d of state.variables.defs) {
+    const owner = d.scope === 'page' ? (d.pageId ? pages[d.pageId] : undefined) : course;
+    if (!owner) continue;
+    const v: StoredVariable = { id: d.id, name: d.name, type: d.type, value: structuredClone(state.variables.values[d.id] ?? null) };
+    if (d.readOnly) v.readOnly = true;
+    owner.variables.push(v);
+  }
+
+  for (const s of state.scripts) {
+    const owner = s.scope === 'page' ? (s.pageId ? pages[s.pageId] : undefined) : course;
+    owner?.scripts.push({ id: s.id, name: s.name, code: s.code, createdAt: s.createdAt, updatedAt: s.updatedAt });
+  }
+  return { course, pages };
+}
+
+/** Collect course and page slots back into the stores' flat shape. */
+export function joinStudioState(pd: ProjectData): StudioState {
+  const state = emptyStudioState();
+  const take = (slots: StudioSlots, pageId: string | null) => {
+    for (const [id, t] of Object.entries(slots.timelines ?? {})) {
+      const { clips, keyframes, ...rec } = structuredClone(t);
+      state.timelines.push({ ...rec, id });
+      state.clips[id] = clips ?? [];
+      state.keyframes[id] = keyframes ?? [];
+    }
+    for (const t of slots.triggers ?? []) state.triggers.push(structuredClone(t));
+    for (const v of slots.variables ?? []) {
+      state.variables.defs.push({
+        id: v.id, name: v.name, type: v.type,
+        ...(pageId ? { scope: 'page' as const, pageId } : { scope: 'global' as const }),
+        ...(v.readOnly ? { readOnly: true } : {}),
+      });
+      state.variables.values[v.id] = structuredClone(v.value);
+    }
+    for (const s of slots.scripts ?? []) {
+      state.scripts.push({ ...s, scope: pageId ? 'page' : 'global', pageId });
+    }
+  };
+  take(pd.course, null);
+  for (const [id, page] of Object.entries(pd.pagesById)) take(page, id);
+  return state;
+}
+
+/** Write split slots onto the document in place. */
+export function assignSlots(target: StudioSlots, slots: Required<StudioSlots>) {
+  target.timelines = slots.timelines;
+  target.triggers = slots.triggers;
+  target.variables = slots.variables;
+  target.scripts = slots.scripts;
+}
+
+/**
+ * Shape of studio state persisted before v2: the separate localStorage keys (`timelineData`,
+ * `timelineClips`, `animationData`, `triggers`, `studioVariables.v1`) or a `.mava` v1
+ * `studio.json`. Triggers may be any historical trigger shape.
+ */
+export interface LegacyStudioState {
+  timelines?: TimelineRecord[];
+  clips?: TimelineClips;
+  keyframes?: TimelineKeyframes;
+  triggers?: unknown;
+  variables?: { defs?: VariableDef[]; values?: Record<string, any> };
+  scripts?: ScriptDef[];
+}
+
+/**
+ * Fold legacy studio state into a (migrated) v2 document in place. Entries already in the
+ * document win over legacy ones with the same id.
+ */
+export function foldLegacyStudioState(pd: ProjectData, legacy: LegacyStudioState): ProjectData {
+  const state = joinStudioState(pd);
+  const missing = <T extends { id: string }>(have: T[], add: T[] | undefined) => {
+    const ids = new Set(have.map((x) => x.id));
+    return (Array.isArray(add) ? add : []).filter((x) => x && typeof x.id === 'string' && !ids.has(x.id));
+  };
+
+  const defs = [...state.variables.defs, ...missing(state.variables.defs, legacy.variables?.defs)];
+  const values = { ...(legacy.variables?.values ?? {}), ...state.variables.values };
+  // Legacy triggers reference variables by id; resolve them to names
+  const triggers = legacy.triggers != null
+    ? migrateTriggers(legacy.triggers, (id) => defs.find((d) => d.id === id)?.name).triggers
+    : [];
+
+  const merged: StudioState = {
+    timelines: [...state.timelines, ...missing(state.timelines, legacy.timelines)],
+    clips: { ...(legacy.clips ?? {}), ...state.clips },
+    keyframes: { ...(legacy.keyframes ?? {}), ...state.keyframes },
+    triggers: [...state.triggers, ...missing(state.triggers, triggers)],
+    variables: { defs, values },
+    scripts: [...state.scripts, ...missing(state.scripts, legacy.scripts)],
+  };
+  const split = splitStudioState(pd, merged);
+  assignSlots(pd.course, split.course);
+  for (const [id, slots] of Object.entries(split.pages)) assignSlots(pd.pagesById[id], slots);
+  return pd;
+}
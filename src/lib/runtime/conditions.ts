@@ -0,0 +1,141 @@
+// Condition evaluator for trigger ConditionNode trees (AND/OR groups of compare leaves).
+// Every evaluation returns a diagnostics tree so the UI/devOutput can explain a non-firing trigger.
+
+import type { CompareOp, ConditionLeaf, ConditionNode, ValueRef } from '../schemas/triggers';
+import { get } from 'svelte/store';
+import { resolveByName, variableValues, type VarType } from '../../stores/variables';
+
+export interface ConditionContext {
+  /** Page used for variable name resolution (page var shadows global). Defaults to the current page. */
+  pageId?: string;
+}
+
+export interface ResolvedOperand {
+  ref: ValueRef;
+  value: unknown;
+  /** Declared variable type, or inferred from the literal. */
+  type: VarType | 'undefined';
+  /** Set when a variable reference could not be resolved. */
+  missing?: boolean;
+}
+
+export type ConditionDiagnostics =
+  | { kind: 'leaf'; ok: boolean; op: CompareOp; left: ResolvedOperand; right: ResolvedOperand; reason: string }
+  | { kind: 'group'; ok: boolean; logic: 'AND' | 'OR'; items: ConditionDiagnostics[]; reason: string };
+
+function inferType(v: unknown): ResolvedOperand['type'] {
+  if (v === undefined || v === null) return 'undefined';
+  if (Array.isArray(v)) return 'array';
+  if (typeof v === 'number' || typeof v === 'boolean' || typeof v === 'string') return typeof v as VarType;
+  return 'object';
+}
+
+function resolveOperand(ref: ValueRef, ctx: ConditionContext): ResolvedOperand {
+  if (ref.type === 'value') return { ref, value: ref.value, type: inferType(ref.value) };
+  const def = resolveByName(ref.name, ctx.pageId);
+  if (!def) return { ref, value: undefined, type: 'undefined', missing: true };
+  return { ref, value: get(variableValues)[def.id], type: def.type };
+}
+
+// Coerce a literal toward the type of the other operand so "5" (text input) compares to 5.
+function coerceTo(type: ResolvedOperand['type'], v: unknown): unknown {
+  switch (type) {
+    case 'number': {
+      if (typeof v === 'number') return v;
+      if (typeof v === 'boolean') return v ? 1 : 0;
+      const n = Number(v);
+      return typeof v === 'string' && v.trim() !== '' && Number.isFinite(n) ? n : NaN;
+    }
+    case 'boolean': {
+      if (typeof v === 'boolean') return v;
+      if (typeof v === 'number') return v !== 0;
+      return /^(true|1|yes|on)$/i.test(String(v ?? '').trim());
+    }
+    case 'string': return v == null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+    default: return v;
+  }
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return Object.is(a, b) || a === b;
+}
+
+function describe(o: ResolvedOperand): string {
+  const v = typeof o.value === 'string' ? `"${o.value}"` : JSON.stringify(o.value);
+  return o.ref.type === 'variable' ? `${o.ref.name} (${v})` : String(v);
+}
+
+function compare(op: CompareOp, left: ResolvedOperand, right: ResolvedOperand): { ok: boolean; reason?: string } {
+  // Variables dictate the comparison type; literal vs literal falls back to the left type
+  const leftIsVar = left.ref.type === 'variable';
+  const rightIsVar = right.ref.type === 'variable';
+  const type = leftIsVar || !rightIsVar ? left.type : right.type;
+
+  if (op === 'includes') {
+    if (Array.isArray(left.value)) {
+      return { ok: left.value.some((x) => equals(x, coerceTo(inferType(x), right.value))) };
+    }
+    if (typeof left.value === 'string') return { ok: left.value.includes(String(right.value ?? '')) };
+    return { ok: false, reason: `'includes' needs a string or array on the left, got ${left.type}` };
+  }
+
+  const a = leftIsVar || !rightIsVar ? left.value : coerceTo(type, left.value);
+  const b = leftIsVar || !rightIsVar ? coerceTo(type, right.value) : right.value;
+
+  if (op === '==' || op === '!=') {
+    const eq = equals(a, b);
+    return { ok: op === '==' ? eq : !eq };
+  }
+
+  // Ordering: numbers numerically, strings lexically; anything else is not comparable
+  if (typeof a === 'number' && typeof b === 'number') {
+    if (Number.isNaN(a) || Number.isNaN(b)) return { ok: false, reason: 'not a number' };
+  } else if (!(typeof a === 'string' && typeof b === 'string')) {
+    return { ok: false, reason: `'${op}' cannot order ${inferType(a)} and ${inferType(b)}` };
+  }
+  const x = a as number | string;
+  const y = b as number | string;
+  switch (op) {
+    case '>': return { ok: x > y };
+    case '<': return { ok: x < y };
+    case '>=': return { ok: x >= y };
+    case '<=': return { ok: x <= y };
+    default: return { ok: false, reason: `unknown operator '${op}'` };
+  }
+}
+
+function evaluateLeaf(leaf: ConditionLeaf, ctx: ConditionContext): ConditionDiagnostics {
+  const left = resolveOperand(leaf.left, ctx);
+  const right = resolveOperand(leaf.right, ctx);
+  const base = { kind: 'leaf' as const, op: leaf.op, left, right };
+  const missing = [left, right].find((o) => o.missing);
+  if (missing && missing.ref.type === 'variable') {
+    return { ...base, ok: false, reason: `variable "${missing.ref.name}" is not defined` };
+  }
+  const res = compare(leaf.op, left, right);
+  const text = `${describe(left)} ${leaf.op} ${describe(right)}`;
+  return { ...base, ok: res.ok, reason: res.reason ? `${text}: ${res.reason}` : `${text} is ${res.ok}` };
+}
+
+/** Evaluate a condition tree. Empty groups pass. Every branch is evaluated so diagnostics are complete. */
+export function evaluateCondition(node: ConditionNode, ctx: ConditionContext = {}): ConditionDiagnostics {
+  if (node.kind === 'leaf') return evaluateLeaf(node, ctx);
+  const items = (node.items ?? []).map((n) => evaluateCondition(n, ctx));
+  const ok = !items.length || (node.logic === 'OR' ? items.some((i) => i.ok) : items.every((i) => i.ok));
+  let reason: string;
+  if (!items.length) reason = 'empty group';
+  else if (ok) reason = `${node.logic} satisfied`;
+  else if (node.logic === 'OR') reason = 'no branch of OR satisfied';
+  else reason = `${items.filter((i) => !i.ok).length} of ${items.length} AND branches failed`;
+  return { kind: 'group', ok, logic: node.logic, items, reason };
+}
+
+/** Flatten the failing leaves of a diagnostics tree into readable lines. */
+export function explainFailure(d: ConditionDiagnostics): string[] {
+  if (d.ok) return [];
+  if (d.kind === 'leaf') return [d.reason];
+  return d.items.flatMap(explainFailure);
+}
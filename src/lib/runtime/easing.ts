@@ -0,0 +1,144 @@
+// Easing functions for keyframes and element animations: linear, the Penner equations
+// (in / out / inOut of quad, cubic, quart, expo, back, elastic, bounce), CSS steps() and
+// cubic-bezier() curves. Every function maps progress 0..1 to eased progress; back and
+// elastic overshoot outside 0..1 on purpose.
+
+import type { CubicBezierEasing, Easing, EasingPreset, StepsEasing } from '../schemas/easing';
+
+export type EasingFn = (t: number) => number;
+
+const PENNER_FAMILIES = ['Quad', 'Cubic', 'Quart', 'Expo', 'Back', 'Elastic', 'Bounce'] as const;
+
+/** Presets in the order the easing pickers list them (CSS keywords last). */
+export const EASING_PRESETS: EasingPreset[] = [
+  'linear',
+  ...PENNER_FAMILIES.flatMap((f) => [`easeIn${f}`, `easeOut${f}`, `easeInOut${f}`] as EasingPreset[]),
+  'ease', 'ease-in', 'ease-out', 'ease-in-out',
+];
+
+// ---- Penner ----
+
+const BACK = 1.70158;
+
+const easeOutBounce: EasingFn = (t) => {
+  const n = 7.5625; const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+};
+
+/** The "in" curve of each family; out and inOut are derived from it. */
+const easeIn: Record<(typeof PENNER_FAMILIES)[number], EasingFn> = {
+  Quad: (t) => t * t,
+  Cubic: (t) => t * t * t,
+  Quart: (t) => t * t * t * t,
+  Expo: (t) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+  Back: (t) => (BACK + 1) * t * t * t - BACK * t * t,
+  Elastic: (t) => (t === 0 || t === 1 ? t : -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3))),
+  Bounce: (t) => 1 - easeOutBounce(1 - t),
+};
+
+const out = (f: EasingFn): EasingFn => (t) => 1 - f(1 - t);
+const inOut = (f: EasingFn): EasingFn => (t) => (t < 0.5 ? f(2 * t) / 2 : 1 - f(2 - 2 * t) / 2);
+
+// ---- CSS ----
+
+/**
+ * CSS cubic-bezier(): solve x(s) = t for the curve parameter (Newton, bisection fallback),
+ * return y(s). x1 / x2 are clamped to 0..1 so x stays monotonic.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFn {
+  const cx1 = Math.max(0, Math.min(1, x1));
+  const cx2 = Math.max(0, Math.min(1, x2));
+  const coord = (a: number, b: number, s: number) => 3 * a * s * (1 - s) * (1 - s) + 3 * b * s * s * (1 - s) + s * s * s;
+  const slope = (a: number, b: number, s: number) => 3 * a * (1 - s) * (1 - s) + 6 * (b - a) * s * (1 - s) + 3 * (1 - b) * s * s;
+  return (t) => {
+    if (t <= 0 || t >= 1) return t <= 0 ? 0 : 1;
+    let s = t;
+    for (let i = 0; i < 8; i++) {
+      const dx = coord(cx1, cx2, s) - t;
+      if (Math.abs(dx) < 1e-6) return coord(y1, y2, s);
+      const d = slope(cx1, cx2, s);
+      if (Math.abs(d) < 1e-6) break;
+      s -= dx / d;
+    }
+    let lo = 0; let hi = 1; s = t;
+    for (let i = 0; i < 30; i++) {
+      const x = coord(cx1, cx2, s);
+      if (Math.abs(x - t) < 1e-6) break;
+      if (x < t) lo = s; else hi = s;
+      s = (lo + hi) / 2;
+    }
+    return coord(y1, y2, s);
+  };
+}
+
+/** CSS steps(): `count` jumps; 'end' holds the start value for the first interval. */
+export function steps(count: number, position: 'start' | 'end' = 'end'): EasingFn {
+  const n = Math.max(1, Math.round(count) || 1);
+  return (t) => {
+    if (t >= 1) return 1;
+    if (t <= 0) return position === 'start' && t === 0 ? 1 / n : 0;
+    return Math.min(1, (Math.floor(t * n) + (position === 'start' ? 1 : 0)) / n);
+  };
+}
+
+/** The CSS keywords as bezier control points. */
+export const CSS_KEYWORD_CURVES: Record<'ease' | 'ease-in' | 'ease-out' | 'ease-in-out', [number, number, number, number]> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+// ---- Lookup ----
+
+const linear: EasingFn = (t) => t;
+const presetCache = new Map<string, EasingFn>();
+
+function presetFunction(name: EasingPreset): EasingFn {
+  const cached = presetCache.get(name);
+  if (cached) return cached;
+  let fn: EasingFn = linear;
+  if (name in CSS_KEYWORD_CURVES) fn = cubicBezier(...CSS_KEYWORD_CURVES[name as keyof typeof CSS_KEYWORD_CURVES]);
+  else {
+    const m = /^ease(InOut|In|Out)(\w+)$/.exec(name);
+    const base = m ? easeIn[m[2] as keyof typeof easeIn] : undefined;
+    if (m && base) fn = m[1] === 'In' ? base : m[1] === 'Out' ? out(base) : inOut(base);
+  }
+  presetCache.set(name, fn);
+  return fn;
+}
+
+/** Function for an easing; unknown or missing easings are linear. */
+export function easingFunction(easing: Easing | null | undefined): EasingFn {
+  if (!easing) return linear;
+  if (typeof easing === 'string') return presetFunction(easing);
+  if (easing.kind === 'cubicBezier') return cubicBezier(easing.x1, easing.y1, easing.x2, easing.y2);
+  if (easing.kind === 'steps') return steps(easing.count, easing.position);
+  return linear;
+}
+
+/** Whether `v` is an easing this module understands (document repair, imports). */
+export function isEasing(v: unknown): v is Easing {
+  if (typeof v === 'string') return (EASING_PRESETS as string[]).includes(v);
+  const o = v as (Partial<Omit<CubicBezierEasing, 'kind'> & Omit<StepsEasing, 'kind'>> & { kind?: string }) | null;
+  if (o?.kind === 'cubicBezier') return [o.x1, o.y1, o.x2, o.y2].every((n) => typeof n === 'number' && Number.isFinite(n));
+  if (o?.kind === 'steps') return typeof o.count === 'number' && o.count >= 1;
+  return false;
+}
+
+/** Short label for menus and tooltips: the preset name, `cubic-bezier(…)` or `steps(…)`. */
+export function easingLabel(easing: Easing | null | undefined): string {
+  if (!easing) return 'linear';
+  if (typeof easing === 'string') return easing;
+  if (easing.kind === 'cubicBezier') return `cubic-bezier(${[easing.x1, easing.y1, easing.x2, easing.y2].map((n) => Math.round(n * 100) / 100).join(', ')})`;
+  return `steps(${easing.count}${easing.position === 'start' ? ', start' : ''})`;
+}
+
+/** `easing` sampled at `count` + 1 even points (exports that cannot run the functions). */
+export function sampleEasing(easing: Easing | null | undefined, count = 64): number[] {
+  const fn = easingFunction(easing);
+  return Array.from({ length: count + 1 }, (_, i) => Math.round(fn(i / count) * 1e4) / 1e4);
+}
@@ -0,0 +1,161 @@
+// Element event hub: binds element-sourced triggers to whatever surface renders the page.
+// A renderer (CreateStage while interactive, preview player) attaches its root node; every
+// rendered element carries `data-element-id`. Listeners are delegated on the root and events
+// bubble through the element model (parentId chain), not the DOM, because collection members
+// are rendered as siblings of their collection.
+
+import type { Element, ElementEvent } from '../schemas/element';
+
+export interface ElementEventDetail {
+  event: ElementEvent;
+  /** Element the pointer/key event originated on. */
+  target: Element;
+  /** Element matched by the selector (target itself or a collection ancestor). */
+  currentTarget: Element;
+  /** Ids from target up to the root collection. */
+  path: string[];
+  native: Event;
+}
+
+type Handler = (detail: ElementEventDetail) => void;
+
+interface Subscription {
+  event: ElementEvent;
+  matches: (el: Element) => boolean;
+  handler: Handler;
+}
+
+interface RootBinding {
+  node: HTMLElement;
+  elements: () => Element[];
+}
+
+export const ELEMENT_ID_ATTR = 'data-element-id';
+
+const ELEMENT_TYPES = new Set<string>(['line', 'rectangle', 'ellipse', 'path', 'text', 'image', 'hotspot', 'collection', 'component', 'polygon']);
+
+const subscriptions = new Set<Subscription>();
+// Most recently attached root wins; earlier ones resume when it detaches (e.g. preview over editor)
+const roots: RootBinding[] = [];
+
+/**
+ * Compile a selector into a predicate. Comma separated alternatives:
+ *  - `#id`      element id
+ *  - `@name`    element name (case-insensitive)
+ *  - `rectangle`, `hotspot`, … element type (tag selector)
+ *  - `*`        any element
+ * A bare word that is not an element type is treated as a name.
+ */
+export function compileElementSelector(selector: string): (el: Element) => boolean {
+  const parts = String(selector ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+  const tests = parts.map((p): ((el: Element) => boolean) => {
+    if (p === '*') return () => true;
+    if (p.startsWith('#')) { const id = p.slice(1); return (el) => el.id === id; }
+    const name = (p.startsWith('@') ? p.slice(1) : p).toLowerCase();
+    if (!p.startsWith('@') && ELEMENT_TYPES.has(p)) return (el) => el.type === p || (el.name ?? '').toLowerCase() === name;
+    return (el) => (el.name ?? '').toLowerCase() === name;
+  });
+  return (el) => tests.some((t) => t(el));
+}
+
+/** Subscribe to an element event; returns an unsubscribe function. */
+export function onElementEvent(selector: string, event: ElementEvent, handler: Handler): () => void {
+  const sub: Subscription = { event, matches: compileElementSelector(selector), handler };
+  subscriptions.add(sub);
+  return () => { subscriptions.delete(sub); };
+}
+
+function activeRoot(): RootBinding | undefined { return roots[roots.length - 1]; }
+
+/** Element chain from `id` up through collection ancestors. */
+function chainFor(id: string | null, elements: Element[]): Element[] {
+  const byId = new Map(elements.map((e) => [e.id, e]));
+  const chain: Element[] = [];
+  const seen = new Set<string>();
+  let cur = id ? byId.get(id) : undefined;
+  while (cur && !seen.has(cur.id)) {
+    chain.push(cur);
+    seen.add(cur.id);
+    cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+  }
+  return chain;
+}
+
+function elementIdFrom(node: EventTarget | null, root: HTMLElement): string | null {
+  if (!(node instanceof globalThis.Element)) return null;
+  const hit = node.closest(`[${ELEMENT_ID_ATTR}]`);
+  return hit && root.contains(hit) ? hit.getAttribute(ELEMENT_ID_ATTR) : null;
+}
+
+/** Deliver to each subscription once, on the innermost element in the chain it matches. */
+function dispatch(event: ElementEvent, chain: Element[], native: Event) {
+  if (!chain.length) return;
+  const path = chain.map((e) => e.id);
+  for (const sub of Array.from(subscriptions)) {
+    if (sub.event !== event) continue;
+    const currentTarget = chain.find(sub.matches);
+    if (!currentTarget) continue;
+    try {
+      sub.handler({ event, target: chain[0], currentTarget, path, native });
+    } catch (e) {
+      console.warn('Element event handler failed', e);
+    }
+  }
+}
+
+// DOM event -> ElementEvent. mouseenter/leave do not bubble, so they are derived from
+// pointerover/out with relatedTarget; keypress is deprecated and mapped from keydown.
+const DIRECT: Array<[keyof HTMLElementEventMap, ElementEvent]> = [
+  ['click', 'click'],
+  ['dblclick', 'dblclick'],
+  ['pointerdown', 'pointerdown'],
+  ['pointerup', 'pointerup'],
+];
+
+function install(binding: RootBinding): () => void {
+  const { node } = binding;
+  const offs: Array<() => void> = [];
+  // Capture phase: editor handlers on element nodes stop propagation for their own purposes
+  const listen = (type: string, fn: (e: Event) => void) => {
+    node.addEventListener(type, fn, true);
+    offs.push(() => node.removeEventListener(type, fn, true));
+  };
+  const isActive = () => activeRoot() === binding;
+
+  for (const [type, ev] of DIRECT) {
+    listen(type, (e) => {
+      if (!isActive()) return;
+      dispatch(ev, chainFor(elementIdFrom(e.target, node), binding.elements()), e);
+    });
+  }
+  const crossing = (e: Event, ev: ElementEvent, from: EventTarget | null, to: EventTarget | null) => {
+    if (!isActive()) return;
+    const elements = binding.elements();
+    const fromIds = new Set(chainFor(elementIdFrom(from, node), elements).map((x) => x.id));
+    // Only elements actually entered/left (not shared with the other side) are affected
+    const chain = chainFor(elementIdFrom(to, node), elements).filter((x) => !fromIds.has(x.id));
+    // Non-bubbling semantics: every entered element fires for its own subscribers
+    for (let i = 0; i < chain.length; i++) dispatch(ev, chain.slice(i, i + 1), e);
+  };
+  listen('pointerover', (e) => crossing(e, 'mouseenter', (e as PointerEvent).relatedTarget, e.target));
+  listen('pointerout', (e) => crossing(e, 'mouseleave', (e as PointerEvent).relatedTarget, e.target));
+  listen('keydown', (e) => {
+    if (!isActive()) return;
+    const k = e as KeyboardEvent;
+    if (k.repeat || ['Shift', 'Control', 'Alt', 'Meta'].includes(k.key)) return;
+    dispatch('keypress', chainFor(elementIdFrom(e.target, node), binding.elements()), e);
+  });
+  return () => offs.forEach((f) => f());
+}
+
+/** Make `node` the live surface for element triggers. Returns a detach function. */
+export function attachElementEventRoot(node: HTMLElement, elements: () => Element[]): () => void {
+  const binding: RootBinding = { node, elements };
+  roots.push(binding);
+  const uninstall = install(binding);
+  return () => {
+    uninstall();
+    const i = roots.indexOf(binding);
+    if (i >= 0) roots.splice(i, 1);
+  };
+}
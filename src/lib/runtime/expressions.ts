@@ -0,0 +1,361 @@
+// Property expressions: small math formulas driving an element property every frame, e.g.
+// `200 + 50 * sin(t / 300)` for a bobbing y. Sources are parsed by a hand-written recursive
+// descent parser into a JSON-safe tree (the HTML5 export ships the tree) and evaluated by a
+// tree walker; nothing is ever handed to eval / new Function. Only numbers, the names below,
+// `vars.<name>`, `<Element>.<property>` and a fixed set of math functions can be referenced.
+
+import type { Element } from '../schemas/element';
+import type { AnimProperty } from '../schemas/timeline';
+import { baseValue, canAnimate, type AnimatedState } from './keyframes';
+
+/** Properties an expression can drive (the numeric animatable ones). */
+export const EXPRESSION_PROPERTIES: AnimProperty[] = ['x', 'y', 'width', 'height', 'rotation', 'scale', 'opacity', 'blur', 'fontSize'];
+
+/** Parsed expression. `prop` reads another element's (animated) property by element name. */
+export type ExprNode =
+  | { k: 'num'; v: number }
+  | { k: 'name'; name: 't' | 'duration' | 'value' }
+  | { k: 'var'; name: string }
+  | { k: 'prop'; element: string; prop: AnimProperty }
+  | { k: 'unary'; op: '-' | '+' | '!'; a: ExprNode }
+  | { k: 'binary'; op: BinaryOp; a: ExprNode; b: ExprNode }
+  | { k: 'cond'; c: ExprNode; a: ExprNode; b: ExprNode }
+  | { k: 'call'; fn: string; args: ExprNode[] };
+
+type BinaryOp = '+' | '-' | '*' | '/' | '%' | '^' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+const NAMES = ['t', 'duration', 'value'] as const;
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+// name -> [min args, max args]
+const ARITY: Record<string, [number, number]> = {
+  sin: [1, 1], cos: [1, 1], tan: [1, 1], asin: [1, 1], acos: [1, 1], atan: [1, 1], atan2: [2, 2],
+  sqrt: [1, 1], abs: [1, 1], sign: [1, 1], floor: [1, 1], ceil: [1, 1], round: [1, 1],
+  exp: [1, 1], log: [1, 1], pow: [2, 2], min: [1, Infinity], max: [1, Infinity],
+  clamp: [3, 3], lerp: [3, 3], mod: [2, 2], rad: [1, 1], deg: [1, 1],
+};
+
+/** The functions expressions may call. `mod` is always positive; `rad` / `deg` convert angles. */
+export const EXPRESSION_FUNCTIONS = Object.keys(ARITY);
+
+// ---- Tokens ----
+
+type Token =
+  | { type: 'num'; value: number; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'str'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const OPERATORS = ['**', '==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', '[', ']', ',', '.'];
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) { i++; continue; }
+    const num = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(src.slice(i));
+    if (num) { out.push({ type: 'num', value: Number(num[0]), pos: i }); i += num[0].length; continue; }
+    const ident = /^[A-Za-z_$][\w$]*/.exec(src.slice(i));
+    if (ident) { out.push({ type: 'ident', value: ident[0], pos: i }); i += ident[0].length; continue; }
+    if (c === '"' || c === "'") {
+      const end = src.indexOf(c, i + 1);
+      if (end < 0) throw new Error(`Unterminated string at ${i + 1}`);
+      out.push({ type: 'str', value: src.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+    const op = OPERATORS.find((o) => src.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected "${c}" at ${i + 1}`);
+    out.push({ type: 'op', value: op === '**' ? '^' : op, pos: i });
+    i += op.length;
+  }
+  out.push({ type: 'end', pos: src.length });
+  return out;
+}
+
+// ---- Parser ----
+
+/** Parse an expression source; throws an Error describing the first problem (with its 1-based column). */
+export function parseExpression(src: string): ExprNode {
+  const tokens = tokenize(String(src ?? ''));
+  let i = 0;
+  const peek = () => tokens[i];
+  const isOp = (v: string) => peek().type === 'op' && (peek() as { value: string }).value === v;
+  const describe = (t: Token) => (t.type === 'end' ? 'end of expression' : `"${t.value}" at ${t.pos + 1}`);
+  const expect = (v: string) => {
+    if (!isOp(v)) throw new Error(`Expected "${v}" but found ${describe(peek())}`);
+    i++;
+  };
+  const binary = (next: () => ExprNode, ops: BinaryOp[]) => () => {
+    let a = next();
+    while (peek().type === 'op' && ops.includes((peek() as { value: string }).value as BinaryOp)) {
+      const op = (tokens[i++] as { value: string }).value as BinaryOp;
+      a = { k: 'binary', op, a, b: next() };
+    }
+    return a;
+  };
+
+  function expression(): ExprNode {
+    const c = or();
+    if (!isOp('?')) return c;
+    i++;
+    const a = expression();
+    expect(':');
+    return { k: 'cond', c, a, b: expression() };
+  }
+  const mul = binary(unary, ['*', '/', '%']);
+  const add = binary(mul, ['+', '-']);
+  const cmp = binary(add, ['==', '!=', '<', '<=', '>', '>=']);
+  const and = binary(cmp, ['&&']);
+  const or = binary(and, ['||']);
+
+  function unary(): ExprNode {
+    for (const op of ['-', '+', '!'] as const) {
+      if (isOp(op)) { i++; return { k: 'unary', op, a: unary() }; }
+    }
+    return power();
+  }
+  // Right-associative and tighter than unary minus: -2^2 = -4
+  function power(): ExprNode {
+    const a = primary();
+    if (!isOp('^')) return a;
+    i++;
+    return { k: 'binary', op: '^', a, b: unary() };
+  }
+
+  function propertyOf(element: string): ExprNode {
+    expect('.');
+    const t = peek();
+    if (t.type !== 'ident' || !EXPRESSION_PROPERTIES.includes(t.value as AnimProperty)) {
+      throw new Error(`Expected a property of "${element}" (${EXPRESSION_PROPERTIES.join(', ')}) but found ${describe(t)}`);
+    }
+    i++;
+    return { k: 'prop', element, prop: t.value as AnimProperty };
+  }
+
+  function primary(): ExprNode {
+    const t = tokens[i++];
+    if (t.type === 'num') return { k: 'num', v: t.value };
+    if (t.type === 'op' && t.value === '(') {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (t.type !== 'ident') throw new Error(`Unexpected ${describe(t)}`);
+    const name = t.value;
+    if (isOp('(')) {
+      i++;
+      if (name === 'el') {
+        const s = peek();
+        if (s.type !== 'str') throw new Error(`el() takes an element name in quotes, found ${describe(s)}`);
+        i++;
+        expect(')');
+        return propertyOf(s.value);
+      }
+      const arity = Object.hasOwn(ARITY, name) ? ARITY[name] : undefined;
+      if (!arity) throw new Error(`Unknown function "${name}" at ${t.pos + 1}`);
+      const args: ExprNode[] = [];
+      if (!isOp(')')) {
+        args.push(expression());
+        while (isOp(',')) { i++; args.push(expression()); }
+      }
+      expect(')');
+      if (args.length < arity[0] || args.length > arity[1]) throw new Error(`${name}() takes ${arity[0] === arity[1] ? arity[0] : `at least ${arity[0]}`} argument${arity[0] === 1 && arity[1] === 1 ? '' : 's'}`);
+      return { k: 'call', fn: name, args };
+    }
+    if (name === 'vars') {
+      if (isOp('[')) {
+        i++;
+        const s = peek();
+        if (s.type !== 'str') throw new Error(`vars[...] takes a variable name in quotes, found ${describe(s)}`);
+        i++;
+        expect(']');
+        return { k: 'var', name: s.value };
+      }
+      expect('.');
+      const v = tokens[i++];
+      if (v.type !== 'ident') throw new Error(`Expected a variable name after "vars." but found ${describe(v)}`);
+      return { k: 'var', name: v.value };
+    }
+    if (isOp('.')) return propertyOf(name);
+    if (Object.hasOwn(CONSTANTS, name)) return { k: 'num', v: CONSTANTS[name] };
+    if ((NAMES as readonly string[]).includes(name)) return { k: 'name', name: name as (typeof NAMES)[number] };
+    throw new Error(`Unknown name "${name}" at ${t.pos + 1} (variables are read as vars.${name})`);
+  }
+
+  const root = expression();
+  if (peek().type !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return root;
+}
+
+/** Error message for an invalid source, null when it parses. */
+export function validateExpression(src: string): string | null {
+  try { parseExpression(src); return null; } catch (e) { return (e as Error).message; }
+}
+
+// ---- Evaluation ----
+
+export interface ExpressionEnv {
+  /** Timeline time in ms. */
+  t: number;
+  duration: number;
+  /** The property's keyframed or designed value. */
+  value: number;
+  /** Variable value by name; `undefined` for unknown variables. */
+  variable(name: string): unknown;
+  /** Another element's current value of a property; `undefined` when there is no such element. */
+  property(element: string, prop: AnimProperty): number | undefined;
+}
+
+function toNumber(v: unknown, what: string): number {
+  if (typeof v === 'number') return v;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : NaN;
+  if (Number.isNaN(n)) throw new Error(`${what} is not a number`);
+  return n;
+}
+
+const FUNCTIONS: Record<string, (...a: number[]) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan, atan2: Math.atan2,
+  sqrt: Math.sqrt, abs: Math.abs, sign: Math.sign, floor: Math.floor, ceil: Math.ceil, round: Math.round,
+  exp: Math.exp, log: Math.log, pow: Math.pow, min: Math.min, max: Math.max,
+  clamp: (x, lo, hi) => Math.max(lo, Math.min(hi, x)),
+  lerp: (a, b, k) => a + (b - a) * k,
+  mod: (a, b) => ((a % b) + b) % b,
+  rad: (d) => (d * Math.PI) / 180,
+  deg: (r) => (r * 180) / Math.PI,
+};
+
+export function evaluateExpression(node: ExprNode, env: ExpressionEnv): number {
+  const ev = (n: ExprNode): number => {
+    switch (n.k) {
+      case 'num': return n.v;
+      case 'name': return env[n.name];
+      case 'var': {
+        const v = env.variable(n.name);
+        if (v === undefined) throw new Error(`No variable named "${n.name}"`);
+        return toNumber(v, `Variable "${n.name}"`);
+      }
+      case 'prop': {
+        const v = env.property(n.element, n.prop);
+        if (v === undefined) throw new Error(`No element named "${n.element}"`);
+        return v;
+      }
+      case 'unary': {
+        const a = ev(n.a);
+        return n.op === '-' ? -a : n.op === '!' ? (a ? 0 : 1) : a;
+      }
+      case 'cond': return ev(n.c) ? ev(n.a) : ev(n.b);
+      case 'call': return FUNCTIONS[n.fn](...n.args.map(ev));
+      case 'binary': {
+        if (n.op === '&&') return ev(n.a) && ev(n.b) ? 1 : 0;
+        if (n.op === '||') return ev(n.a) || ev(n.b) ? 1 : 0;
+        const a = ev(n.a); const b = ev(n.b);
+        switch (n.op) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return a / b;
+          case '%': return a % b;
+          case '^': return Math.pow(a, b);
+          case '==': return a === b ? 1 : 0;
+          case '!=': return a !== b ? 1 : 0;
+          case '<': return a < b ? 1 : 0;
+          case '<=': return a <= b ? 1 : 0;
+          case '>': return a > b ? 1 : 0;
+          case '>=': return a >= b ? 1 : 0;
+        }
+      }
+    }
+    throw new Error('Malformed expression');
+  };
+  return ev(node);
+}
+
+// ---- Elements ----
+
+const parsed = new Map<string, ExprNode | Error>();
+
+/** Parse with a cache keyed by source (sources are re-evaluated every frame). */
+export function compileExpression(src: string): ExprNode | Error {
+  let hit = parsed.get(src);
+  if (!hit) {
+    try { hit = parseExpression(src); } catch (e) { hit = e as Error; }
+    if (parsed.size > 500) parsed.clear();
+    parsed.set(src, hit);
+  }
+  return hit;
+}
+
+export interface ExpressionIssue {
+  elementId: string;
+  property: AnimProperty;
+  expression: string;
+  message: string;
+}
+
+export interface ExpressionContext {
+  time: number;
+  duration: number;
+  variable(name: string): unknown;
+  /** Called for every expression that fails to parse or evaluate; the property keeps its value. */
+  onIssue?(issue: ExpressionIssue): void;
+}
+
+/**
+ * Evaluate the expressions of `elements` into `states` (after keyframes and motion paths).
+ * References to other elements see their final values, expressions included; a reference
+ * cycle is reported and falls back to the keyframed / designed value.
+ */
+export function applyExpressions(states: Record<string, AnimatedState>, elements: Element[], ctx: ExpressionContext) {
+  const done = new Map<string, number>();
+  const active = new Set<string>();
+
+  const current = (el: Element, prop: AnimProperty): number => {
+    const v = states[el.id]?.[prop];
+    if (typeof v === 'number' && Number.isFinite(v)) return v;
+    const base = baseValue(el, prop);
+    return typeof base === 'number' ? base : 0;
+  };
+
+  function resolve(el: Element, prop: AnimProperty): number {
+    const key = `${el.id}\u0000${prop}`;
+    const cached = done.get(key);
+    if (cached !== undefined) return cached;
+    const source = el.expressions?.[prop];
+    if (!source?.trim() || !canAnimate(el, prop)) return current(el, prop);
+    if (active.has(key)) throw new Error(`Circular reference to ${el.name}.${prop}`);
+    active.add(key);
+    let result = current(el, prop);
+    try {
+      const node = compileExpression(source);
+      if (node instanceof Error) throw node;
+      const v = evaluateExpression(node, {
+        t: ctx.time,
+        duration: ctx.duration,
+        value: result,
+        variable: ctx.variable,
+        property: (name, p) => {
+          const other = elements.find((e) => e.name === name);
+          return other ? resolve(other, p) : undefined;
+        },
+      });
+      if (!Number.isFinite(v)) throw new Error(`Result is ${v}`);
+      result = v;
+      (states[el.id] ??= {})[prop] = v;
+    } catch (e) {
+      ctx.onIssue?.({ elementId: el.id, property: prop, expression: source, message: (e as Error).message });
+    } finally {
+      active.delete(key);
+    }
+    done.set(key, result);
+    return result;
+  }
+
+  for (const el of elements) {
+    if (!el.expressions) continue;
+    for (const prop of EXPRESSION_PROPERTIES) if (el.expressions[prop]) resolve(el, prop);
+  }
+}
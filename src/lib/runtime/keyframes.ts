@@ -0,0 +1,176 @@
+// Keyframe sampling: a timeline's keyframes grouped into one track per element and property,
+// and the animated element state at any time. CreateStage (scrubbing) and PreviewStage apply
+// the result on top of the document, which is never written to.
+
+import type { Element } from '../schemas/element';
+import type { AnimProperty, KeyframeValue, TimelineKeyframe } from '../schemas/timeline';
+import { easingFunction } from './easing';
+
+/** Every property with a plain value track, in the order the timeline menus list them (motion paths have their own entry). */
+export const ANIM_PROPERTIES: AnimProperty[] = ['x', 'y', 'width', 'height', 'rotation', 'scale', 'opacity', 'blur', 'fillColor', 'strokeColor', 'fontSize'];
+
+export const ANIM_PROPERTY_LABELS: Record<AnimProperty, string> = {
+  x: 'Position X', y: 'Position Y', width: 'Width', height: 'Height', rotation: 'Rotation', scale: 'Scale',
+  opacity: 'Opacity', blur: 'Blur', fillColor: 'Fill colour', strokeColor: 'Stroke colour', fontSize: 'Text size',
+  motionPath: 'Motion path',
+};
+
+export function isColorProperty(p: AnimProperty): boolean {
+  return p === 'fillColor' || p === 'strokeColor';
+}
+
+/** Sampled values for one element; properties without a track are absent. */
+export type AnimatedState = Partial<Record<AnimProperty, KeyframeValue>>;
+
+/** elementId -> property -> keyframes sorted by time. */
+export type KeyframeTracks = Map<string, Map<AnimProperty, TimelineKeyframe[]>>;
+
+export function buildTracks(keyframes: TimelineKeyframe[]): KeyframeTracks {
+  const tracks: KeyframeTracks = new Map();
+  for (const k of keyframes) {
+    let byProp = tracks.get(k.elementId);
+    if (!byProp) tracks.set(k.elementId, (byProp = new Map()));
+    const list = byProp.get(k.property);
+    if (list) list.push(k);
+    else byProp.set(k.property, [k]);
+  }
+  for (const byProp of tracks.values()) for (const list of byProp.values()) list.sort((a, b) => a.time - b.time);
+  return tracks;
+}
+
+// ---- Colours ----
+
+type Rgba = [number, number, number, number];
+
+/** `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`, `rgb()` / `rgba()` or `transparent`; null otherwise. */
+export function parseColor(input: string): Rgba | null {
+  const s = String(input ?? '').trim().toLowerCase();
+  if (s === 'transparent') return [0, 0, 0, 0];
+  const hex = /^#([0-9a-f]{3,8})$/.exec(s)?.[1];
+  if (hex && hex.length !== 5 && hex.length !== 7) {
+    const full = hex.length <= 4 ? [...hex].map((c) => c + c).join('') : hex;
+    const n = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16);
+    return [n(0), n(1), n(2), full.length === 8 ? n(3) / 255 : 1];
+  }
+  const fn = /^rgba?\(([^)]+)\)$/.exec(s)?.[1];
+  if (fn) {
+    // Percentages: of 255 for the channels, of 1 for alpha
+    const parts = fn.split(/[\s,/]+/).filter(Boolean).map((p, i) => (p.endsWith('%') ? (parseFloat(p) / 100) * (i < 3 ? 255 : 1) : parseFloat(p)));
+    if (parts.length < 3 || parts.some((n) => Number.isNaN(n))) return null;
+    return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+  }
+  return null;
+}
+
+function formatColor([r, g, b, a]: Rgba): string {
+  const c = (n: number) => Math.round(Math.max(0, Math.min(255, n)));
+  return `rgba(${c(r)}, ${c(g)}, ${c(b)}, ${Math.round(Math.max(0, Math.min(1, a)) * 1000) / 1000})`;
+}
+
+/** Straight RGBA interpolation; falls back to holding `from` when either colour is unreadable. */
+export function mixColor(from: string, to: string, t: number): string {
+  const a = parseColor(from);
+  const b = parseColor(to);
+  if (!a || !b) return t < 1 ? from : to;
+  return formatColor([0, 1, 2, 3].map((i) => a[i] + (b[i] - a[i]) * t) as Rgba);
+}
+
+// ---- Sampling ----
+
+function interpolate(a: KeyframeValue, b: KeyframeValue, t: number): KeyframeValue {
+  if (typeof a === 'number' && typeof b === 'number') return a + (b - a) * t;
+  if (typeof a === 'string' && typeof b === 'string') return mixColor(a, b, t);
+  // Mismatched values (a colour keyframe typed as a number...) step at the next keyframe
+  return t < 1 ? a : b;
+}
+
+/**
+ * Value of a track (sorted keyframes) at `time`: held before the first and after the last
+ * keyframe; in between eased with the easing of the keyframe being approached.
+ */
+export function sampleTrack(kfs: TimelineKeyframe[], time: number): KeyframeValue | undefined {
+  if (!kfs.length) return undefined;
+  if (time <= kfs[0].time) return kfs[0].value;
+  const last = kfs[kfs.length - 1];
+  if (time >= last.time) return last.value;
+  for (let i = 0; i < kfs.length - 1; i++) {
+    const a = kfs[i];
+    const b = kfs[i + 1];
+    if (time >= a.time && time <= b.time) {
+      const span = b.time - a.time || 1;
+      return interpolate(a.value, b.value, easingFunction(b.easing)((time - a.time) / span));
+    }
+  }
+  return last.value;
+}
+
+/** Animated state of every element that has at least one track, at `time`. */
+export function sampleTracks(tracks: KeyframeTracks, time: number): Record<string, AnimatedState> {
+  const out: Record<string, AnimatedState> = {};
+  for (const [elementId, byProp] of tracks) {
+    const state: AnimatedState = {};
+    for (const [property, kfs] of byProp) {
+      const v = sampleTrack(kfs, time);
+      if (v !== undefined) state[property] = v;
+    }
+    out[elementId] = state;
+  }
+  return out;
+}
+
+// ---- Elements ----
+
+function fontSizeHolder(el: Element): { fontSize: number } | undefined {
+  const style = el.style as any;
+  return el.type === 'text' ? style?.inlineStyle : style?.textContent;
+}
+
+/** Whether `property` means anything for this kind of element. */
+export function canAnimate(el: Element, property: AnimProperty): boolean {
+  if (property === 'fillColor') return typeof (el.style as any)?.fillColor === 'string';
+  if (property === 'strokeColor') return typeof (el.style as any)?.strokeColor === 'string';
+  if (property === 'fontSize') return !!fontSizeHolder(el);
+  if (property === 'motionPath') return el.type !== 'path';
+  return true;
+}
+
+/** The element's designed value for `property`: the starting point of a new keyframe. */
+export function baseValue(el: Element, property: AnimProperty): KeyframeValue {
+  switch (property) {
+    case 'x': return el.position.x;
+    case 'y': return el.position.y;
+    case 'width': return el.size.dimensions.width;
+    case 'height': return el.size.dimensions.height;
+    case 'rotation': return el.rotation ?? 0;
+    case 'scale': return 1;
+    case 'opacity': return el.opacity ?? 1;
+    case 'blur': return el.blur ?? 0;
+    case 'fillColor': return String((el.style as any)?.fillColor ?? 'transparent');
+    case 'strokeColor': return String((el.style as any)?.strokeColor ?? 'transparent');
+    case 'fontSize': return fontSizeHolder(el)?.fontSize ?? 16;
+    case 'motionPath': return 0;
+  }
+}
+
+const num = (v: KeyframeValue | undefined, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+
+/**
+ * Element with an animated state applied (returns the original when there is nothing to apply).
+ * `scale` has no element field; stages read it from the state for their transform. Motion
+ * paths must have been resolved into x / y first (resolveMotionPaths).
+ */
+export function withAnimatedState<T extends Element>(el: T, state: AnimatedState | undefined): T {
+  if (!state || !Object.keys(state).length) return el;
+  const next = structuredClone(el);
+  next.position = { x: num(state.x, el.position.x), y: num(state.y, el.position.y) };
+  next.size = { ...el.size, dimensions: { width: Math.max(0, num(state.width, el.size.dimensions.width)), height: Math.max(0, num(state.height, el.size.dimensions.height)) } };
+  next.rotation = num(state.rotation, el.rotation);
+  next.opacity = Math.max(0, Math.min(1, num(state.opacity, el.opacity ?? 1)));
+  next.blur = Math.max(0, num(state.blur, el.blur ?? 0));
+  const style = next.style as any;
+  if (typeof state.fillColor === 'string' && canAnimate(el, 'fillColor')) style.fillColor = state.fillColor;
+  if (typeof state.strokeColor === 'string' && canAnimate(el, 'strokeColor')) style.strokeColor = state.strokeColor;
+  const font = fontSizeHolder(next);
+  if (font && state.fontSize !== undefined) font.fontSize = Math.max(1, num(state.fontSize, font.fontSize));
+  return next;
+}
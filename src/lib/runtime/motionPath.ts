@@ -0,0 +1,160 @@
+// Motion paths: an element's position driven by progress (0..1 of the arc length) along a
+// `path` element. The path's commands are flattened into a polyline in stage coordinates
+// (its box position and rotation applied) with cumulative lengths, so equal progress steps
+// cover equal distances whatever the curve looks like.
+
+import type { Element } from '../schemas/element';
+import type { KeyframeTracks, AnimatedState } from './keyframes';
+
+type Point = [number, number];
+
+/** Flattened path with cumulative arc lengths (`lengths[i]` = distance from the start to points[i]). */
+export interface ArcTable {
+  points: Point[];
+  lengths: number[];
+  total: number;
+  closed: boolean;
+}
+
+/** A point on a path and the direction of travel there, in degrees (0 = rightwards, clockwise). */
+export interface PathSample {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+// Segments per curve command; enough for smooth motion at stage sizes
+const CURVE_STEPS = 24;
+
+/** Path commands (element-local coordinates) as a polyline. */
+export function flattenCommands(commands: Array<Record<string, any>>, closed = false): Point[] {
+  const out: Point[] = [];
+  let cur: Point = [0, 0];
+  let start: Point = [0, 0];
+  for (const c of commands ?? []) {
+    switch (c.type) {
+      case 'M':
+        cur = [c.x, c.y]; start = cur;
+        out.push(cur);
+        break;
+      case 'L':
+        cur = [c.x, c.y];
+        out.push(cur);
+        break;
+      case 'C':
+      case 'Q': {
+        const [x0, y0] = cur;
+        for (let i = 1; i <= CURVE_STEPS; i++) {
+          const t = i / CURVE_STEPS; const u = 1 - t;
+          out.push(c.type === 'C'
+            ? [u * u * u * x0 + 3 * u * u * t * c.x1 + 3 * u * t * t * c.x2 + t * t * t * c.x, u * u * u * y0 + 3 * u * u * t * c.y1 + 3 * u * t * t * c.y2 + t * t * t * c.y]
+            : [u * u * x0 + 2 * u * t * c.x1 + t * t * c.x, u * u * y0 + 2 * u * t * c.y1 + t * t * c.y]);
+        }
+        cur = [c.x, c.y];
+        break;
+      }
+      case 'Z':
+        out.push(start);
+        cur = start;
+        break;
+    }
+  }
+  const last = out[out.length - 1];
+  if (closed && out.length > 1 && (last[0] !== out[0][0] || last[1] !== out[0][1])) out.push(out[0]);
+  return out;
+}
+
+export function arcTable(points: Point[], closed = false): ArcTable {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]));
+  }
+  return { points, lengths, total: lengths[lengths.length - 1] ?? 0, closed };
+}
+
+/**
+ * Point at `progress` of the arc length. Closed paths wrap (1.25 = a quarter into the next
+ * lap); open ones clamp to their ends, so overshooting easings stop at the end points.
+ */
+export function pointAtProgress(table: ArcTable, progress: number): PathSample | null {
+  const { points, lengths, total } = table;
+  if (!points.length) return null;
+  if (points.length === 1 || total <= 0) return { x: points[0][0], y: points[0][1], angle: 0 };
+  let p = Number.isFinite(progress) ? progress : 0;
+  p = table.closed ? p - Math.floor(p) : Math.max(0, Math.min(1, p));
+  const d = p * total;
+  // Binary search for the segment containing distance d
+  let lo = 0; let hi = lengths.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (lengths[mid] <= d) lo = mid; else hi = mid;
+  }
+  let a = points[lo]; let b = points[hi];
+  const span = lengths[hi] - lengths[lo];
+  const t = span > 0 ? (d - lengths[lo]) / span : 0;
+  const x = a[0] + (b[0] - a[0]) * t;
+  const y = a[1] + (b[1] - a[1]) * t;
+  // Zero-length segments (repeated points) have no direction: look further along
+  for (let i = hi; span <= 0 && i < points.length - 1; i++) {
+    if (lengths[i + 1] > lengths[i]) { a = points[i]; b = points[i + 1]; break; }
+  }
+  return { x, y, angle: (Math.atan2(b[1] - a[1], b[0] - a[0]) * 180) / Math.PI };
+}
+
+/** Offset of an element's coordinate space: the summed positions of its ancestors. */
+export function parentOffset(el: Element, elements: Element[]) {
+  let x = 0; let y = 0;
+  let cur: Element | undefined = el;
+  for (let guard = 0; cur?.parentId && guard < 10; guard++) {
+    const parent: Element | undefined = elements.find((e) => e.id === cur!.parentId);
+    if (!parent) break;
+    x += parent.position.x; y += parent.position.y;
+    cur = parent;
+  }
+  return { x, y };
+}
+
+/** Arc table of a path element in stage coordinates; null when it is not a usable path. */
+export function pathArcTable(path: Element | undefined, elements: Element[]): ArcTable | null {
+  if (!path || path.type !== 'path') return null;
+  const local = flattenCommands(path.commands, !!path.style?.closed);
+  if (!local.length) return null;
+  const off = parentOffset(path, elements);
+  const ox = off.x + path.position.x;
+  const oy = off.y + path.position.y;
+  // The stage rotates a path around the centre of its box
+  const rad = ((path.rotation || 0) * Math.PI) / 180;
+  const cx = path.size.dimensions.width / 2;
+  const cy = path.size.dimensions.height / 2;
+  const cos = Math.cos(rad); const sin = Math.sin(rad);
+  const points = local.map(([x, y]): Point => {
+    const dx = x - cx; const dy = y - cy;
+    return [ox + cx + dx * cos - dy * sin, oy + cy + dx * sin + dy * cos];
+  });
+  return arcTable(points, !!path.style?.closed);
+}
+
+/**
+ * Turn sampled `motionPath` progress into x / y (and rotation with auto-orient) on each
+ * state, so the element's centre sits on the path. A motion path overrides x / y tracks;
+ * with auto-orient the designed (or keyframed) rotation is kept as an offset to the tangent.
+ */
+export function resolveMotionPaths(states: Record<string, AnimatedState>, tracks: KeyframeTracks, elements: Element[]) {
+  const tables = new Map<string, ArcTable | null>();
+  for (const [elementId, state] of Object.entries(states)) {
+    if (typeof state.motionPath !== 'number') continue;
+    const ref = tracks.get(elementId)?.get('motionPath')?.[0]?.motionPath;
+    const el = elements.find((e) => e.id === elementId);
+    if (!ref || !el) continue;
+    if (!tables.has(ref.pathId)) tables.set(ref.pathId, pathArcTable(elements.find((e) => e.id === ref.pathId), elements));
+    const table = tables.get(ref.pathId);
+    const at = table ? pointAtProgress(table, state.motionPath) : null;
+    if (!at) continue;
+    const off = parentOffset(el, elements);
+    const w = typeof state.width === 'number' ? state.width : el.size.dimensions.width;
+    const h = typeof state.height === 'number' ? state.height : el.size.dimensions.height;
+    state.x = at.x - off.x - w / 2;
+    state.y = at.y - off.y - h / 2;
+    if (ref.autoOrient) state.rotation = at.angle + (typeof state.rotation === 'number' ? state.rotation : el.rotation || 0);
+  }
+}
@@ -0,0 +1,63 @@
+// Nested timelines: a parent timeline's time mapped onto an embedded child, deterministically.
+// Before the clip starts the child rests at its offset, after its last play-through at the
+// point it ended; in between child time = (offset + (parent - start) * speed) wrapped to the
+// child's duration. The exported player carries a copy of nestedTimeAt.
+
+import type { NestedTimelineClip } from '../schemas/timeline';
+
+export interface NestedTime {
+  /** Child time in ms. */
+  time: number;
+  /** Whether the parent time falls inside the clip. */
+  active: boolean;
+  /** Completed wraps of the child since the clip started (cues replay on each). */
+  iteration: number;
+}
+
+export function clipSpeed(clip: NestedTimelineClip) {
+  return typeof clip.speed === 'number' && clip.speed > 0 ? clip.speed : 1;
+}
+
+export function clipLoops(clip: NestedTimelineClip) {
+  return typeof clip.loops === 'number' && clip.loops >= 1 ? Math.floor(clip.loops) : 1;
+}
+
+/** Parent-time length of a clip; the offset shifts where the child starts, not how long it plays. */
+export function nestedClipLength(clip: NestedTimelineClip, childDuration: number) {
+  return (clipLoops(clip) * Math.max(0, childDuration)) / clipSpeed(clip);
+}
+
+export function nestedTimeAt(clip: NestedTimelineClip, childDuration: number, parentTime: number): NestedTime {
+  const d = Math.max(0, childDuration);
+  const offset = d > 0 ? Math.max(0, clip.offset ?? 0) % d : 0;
+  if (d === 0) return { time: 0, active: false, iteration: 0 };
+  const played = (parentTime - clip.start) * clipSpeed(clip);
+  if (played < 0) return { time: offset, active: false, iteration: 0 };
+  const total = clipLoops(clip) * d;
+  const active = played < total;
+  const at = offset + Math.min(played, total);
+  let iteration = Math.floor(at / d);
+  let time = at - iteration * d;
+  // Ending exactly on a wrap shows the child's last frame rather than its first
+  if (!active && time === 0 && iteration > 0) { iteration -= 1; time = d; }
+  return { time, active, iteration };
+}
+
+/** Timelines reachable from `rootId` through nested clips (excluding the root), for cycle checks. */
+export function nestedDescendants(rootId: string, lookup: (id: string) => { nested?: NestedTimelineClip[] } | undefined) {
+  const seen = new Set<string>();
+  const walk = (id: string) => {
+    for (const c of lookup(id)?.nested ?? []) {
+      if (seen.has(c.timelineId)) continue;
+      seen.add(c.timelineId);
+      walk(c.timelineId);
+    }
+  };
+  walk(rootId);
+  return seen;
+}
+
+/** Whether embedding `childId` in `parentId` would make a timeline contain itself. */
+export function wouldNestCycle(parentId: string, childId: string, lookup: (id: string) => { nested?: NestedTimelineClip[] } | undefined) {
+  return parentId === childId || nestedDescendants(childId, lookup).has(parentId);
+}
@@ -7,19 +7,8 @@ export type TimelineEvent =
   | { type: 'seek'; time: number }
   | { type: 'loop'; count: number }
   | { type: 'tick'; time: number; dt: number }
-  | { type: 'cue'; cue: CuePoint };
-
-export type EasingName = 'linear' | 'easeInOutQuad';
-
-function getEasing(name: EasingName) {
-  switch (name) {
-    case 'easeInOutQuad':
-      return (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t);
-    case 'linear':
-    default:
-      return (t: number) => t;
-  }
-}
+  /** `path`: ids of the nested timelines a bubbled cue came through, outermost first. */
+  | { type: 'cue'; cue: CuePoint; path?: string[] };
 
 export class TimelineRuntime {
   readonly id: string;
@@ -33,6 +22,8 @@ export class TimelineRuntime {
   private current = 0; // ms
   private lastTick = 0; // ms timestamp
   private loopCount = 0;
+  /** Parent timeline driving this one through a nested clip; its own clock is unused then. */
+  private driver: string | null = null;
 
   private listeners = new Set<(e: TimelineEvent) => void>();
 
@@ -51,6 +42,7 @@ export class TimelineRuntime {
   get durationMs() { return this.duration; }
   get isPlaying() { return this.playing; }
   get isLooping() { return this.loopEnabled; }
+  get drivenBy() { return this.driver; }
   setLoop(loop: boolean) { this.loopEnabled = loop; }
   setDuration(ms: number) {
     const prev = this.duration;
@@ -67,7 +59,8 @@ export class TimelineRuntime {
   }
 
   play() {
-    if (this.playing) return;
+    // A driven timeline follows its parent (followPlayState); playing it directly would fight the parent
+    if (this.playing || this.driver) return;
     this.playing = true;
     const now = performance.now();
     // resume from current offset
@@ -106,6 +99,42 @@ export class TimelineRuntime {
     this.emit({ type: 'seek', time: this.current });
   }
 
+  // ---- Nesting (see stores/timelineNesting.ts) ----
+
+  /** Hand the clock to a parent timeline (null gives it back). */
+  setDriver(parentId: string | null) {
+    if (parentId && this.playing) this.pause();
+    this.driver = parentId;
+  }
+
+  /** Mirror the parent's play state: play / pause events without a clock of our own. */
+  followPlayState(playing: boolean) {
+    if (!this.driver || this.playing === playing) return;
+    this.playing = playing;
+    this.emit({ type: playing ? 'play' : 'pause' });
+  }
+
+  /**
+   * Move to a time given by the parent. 'tick' fires the cues crossed since the last time
+   * (`wrapped`: the child looped in between); 'seek' only moves, like seek().
+   */
+  drive(time: number, kind: 'tick' | 'seek', wrapped = false) {
+    const prev = this.current;
+    const next = Math.max(0, Math.min(this.duration, time));
+    this.current = next;
+    if (kind === 'seek') { this.emit({ type: 'seek', time: next }); return; }
+    const now = performance.now();
+    this.emit({ type: 'tick', time: next, dt: now - this.lastTick });
+    this.lastTick = now;
+    if (wrapped || next !== prev) this.emitCues(prev, next, wrapped);
+    if (wrapped) this.emit({ type: 'loop', count: ++this.loopCount });
+  }
+
+  /** Re-emit a cue of a nested timeline; `path` leads from this timeline's child to the cue's owner. */
+  bubbleCue(cue: CuePoint, path: string[]) {
+    this.emit({ type: 'cue', cue, path });
+  }
+
   private tick = () => {
     if (!this.playing) return;
     const now = performance.now();
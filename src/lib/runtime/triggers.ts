@@ -1,56 +1,88 @@
-import type { TriggerDef, TriggerSource, Condition } from '../schemas/triggers';
-import type { Action } from '../schemas/actions';
-import { get, writable, type Writable } from 'svelte/store';
-import { variablesStore, setVar, adjustVar } from '../../stores/variables.ts';
-import { timelines } from '../../stores/timelines.ts';
-import type { VariableMap } from '../schemas/variables';
-import { devOutput } from '../../stores/devOutput.ts';
+import type { TriggerDef, SourceDef, ActionDef, ActionKind } from '../schemas/triggers';
+import { get } from 'svelte/store';
+import { variablesStore, getValueByName, setValueByName } from '../../stores/variables';
+import { evaluateCondition, explainFailure, type ConditionDiagnostics, type ConditionContext } from './conditions';
+import { timelines } from '../../stores/timelines';
+import { selectedTimelineId } from '../../stores/timelineData';
+import { devOutput } from '../../stores/devOutput';
+import { onElementEvent } from './elementEvents';
 
 export interface TriggerRuntime {
   def: TriggerDef;
   dispose: () => void;
 }
 
+export type TriggerOutcome = 'fired' | 'disabled' | 'reentrant' | 'conditions-failed';
+
+/** Why a trigger did (or did not) fire, including which gated actions were skipped. */
+export interface TriggerDiagnostics {
+  triggerId: string;
+  time: number;
+  outcome: TriggerOutcome;
+  conditions: ConditionDiagnostics | null;
+  actions: Array<{ index: number; kind: ActionKind; ran: boolean; condition: ConditionDiagnostics | null }>;
+  /** Human-readable summary lines. */
+  messages: string[];
+}
+
 const triggers: Map<string, TriggerRuntime> = new Map();
+const lastDiagnostics: Map<string, TriggerDiagnostics> = new Map();
+// Ids of triggers whose actions are currently executing (guards self-retriggering loops)
+const running = new Set<string>();
+
+/** Timeline a trigger listens to / acts on when none is given explicitly. */
+function resolveTimelineId(def: TriggerDef, explicit?: string): string | null {
+  if (explicit) return explicit;
+  if (def.source.kind === 'timeline' && def.source.timelineId) return def.source.timelineId;
+  if (def.timelineId) return def.timelineId;
+  return get(selectedTimelineId);
+}
 
 export function registerTrigger(def: TriggerDef): TriggerRuntime {
   // If a trigger with this id already exists, dispose it to prevent duplicate handlers
-  const existing = triggers.get(def.id);
-  if (existing) {
-    try { existing.dispose(); } catch {}
-    triggers.delete(def.id);
-  }
+  unregisterTrigger(def.id);
   const disposeFns: Array<() => void> = [];
 
   switch (def.source.kind) {
-    case 'variable.change': {
-      const unsub = variablesStore.subscribe((all: VariableMap) => {
-        // naive: run conditions on any change; optimize later
+    case 'variable': {
+      const src = def.source as Extract<SourceDef, { kind: 'variable' }>;
+      let primed = false;
+      let last: any;
+      const unsub = variablesStore.subscribe(() => {
+        const value = src.name ? getValueByName(src.name) : undefined;
+        // subscribe() calls back synchronously with the current state; that is not a change
+        if (!primed) { primed = true; last = value; return; }
+        if (src.name && Object.is(value, last)) return;
+        last = value;
         maybeRun(def);
       });
       disposeFns.push(unsub);
       break;
     }
-    case 'timer.timeout': {
-      const id = setTimeout(() => maybeRun(def), def.source.delay);
-      disposeFns.push(() => clearTimeout(id));
-      break;
-    }
-    case 'timer.interval': {
-      const id = setInterval(() => maybeRun(def), def.source.interval);
-      disposeFns.push(() => clearInterval(id));
+    case 'timer': {
+      const src = def.source as Extract<SourceDef, { kind: 'timer' }>;
+      const ms = Math.max(0, Number(src.delayMs) || 0);
+      if (src.event === 'interval') {
+        // A 0ms interval would spin; clamp to one frame
+        const id = setInterval(() => maybeRun(def), Math.max(16, ms));
+        disposeFns.push(() => clearInterval(id));
+      } else {
+        const id = setTimeout(() => maybeRun(def), ms);
+        disposeFns.push(() => clearTimeout(id));
+      }
       break;
     }
-    case 'timeline.event': {
-      const src = def.source as Extract<TriggerSource, { kind: 'timeline.event' }>;
-      const tl = timelines.get(src.timelineId);
+    case 'timeline': {
+      const src = def.source as Extract<SourceDef, { kind: 'timeline' }>;
+      const tlId = resolveTimelineId(def);
+      const tl = tlId ? timelines.get(tlId) : undefined;
       if (tl) {
         const handler = (e: any) => {
           if (src.event === 'cue' && e.type === 'cue') {
-            // If specific cue filters are set, enforce them
+            // If specific cue filters are set, enforce them (cueId may hold an id or a cue name)
             const cue = e.cue as any;
-            if (src.cueId && cue.id !== src.cueId) return;
-            if (src.cueName && cue.name !== src.cueName) return;
+            if (src.cueId && cue.id !== src.cueId && (cue.name ?? cue.label) !== src.cueId) return;
+            if (src.cueName && (cue.name ?? cue.label) !== src.cueName) return;
             if (typeof src.cueTime === 'number' && cue.time !== src.cueTime) return;
             maybeRun(def);
           } else if (e.type === src.event) {
@@ -62,6 +94,13 @@ export function registerTrigger(def: TriggerDef): TriggerRuntime {
       }
       break;
     }
+    case 'element': {
+      const src = def.source as Extract<SourceDef, { kind: 'element' }>;
+      if (src.selector?.trim()) {
+        disposeFns.push(onElementEvent(src.selector, src.event, () => maybeRun(def)));
+      }
+      break;
+    }
     default:
       break;
   }
@@ -71,77 +110,107 @@ export function registerTrigger(def: TriggerDef): TriggerRuntime {
   return runtime;
 }
 
-function maybeRun(def: TriggerDef) {
-  if (def.enabled === false) return;
-  if (def.conditions && def.conditions.length > 0) {
-    const ok = def.conditions.every(evaluateCondition);
-    if (!ok) return;
-  }
-  runActions(def.actions);
+export function unregisterTrigger(id: string) {
+  const existing = triggers.get(id);
+  if (!existing) return;
+  try { existing.dispose(); } catch {}
+  triggers.delete(id);
+  lastDiagnostics.delete(id);
+}
+
+export function registeredTriggers(): TriggerRuntime[] { return Array.from(triggers.values()); }
+
+function maybeRun(def: TriggerDef): TriggerDiagnostics {
+  const diag = evaluateTrigger(def, { dryRun: false });
+  lastDiagnostics.set(def.id, diag);
+  return diag;
 }
 
-function evaluateCondition(c: Condition): boolean {
-  const lhs = valueOf(c.lhs);
-  const rhs = valueOf(c.rhs);
-  switch (c.op) {
-    case '==': return lhs == rhs;
-    case '!=': return lhs != rhs;
-    case '>': return lhs > rhs;
-    case '<': return lhs < rhs;
-    case '>=': return lhs >= rhs;
-    case '<=': return lhs <= rhs;
-    case 'includes': return Array.isArray(lhs) ? lhs.includes(rhs) : (typeof lhs === 'string' ? lhs.includes(String(rhs)) : false);
-    default: return false;
+/**
+ * Evaluate a trigger now. With dryRun the actions are not executed; the result still reports
+ * which ones would run, which is what the panel uses to explain a silent trigger.
+ */
+export function evaluateTrigger(def: TriggerDef, opts: { dryRun?: boolean; ctx?: ConditionContext } = {}): TriggerDiagnostics {
+  const diag: TriggerDiagnostics = { triggerId: def.id, time: Date.now(), outcome: 'fired', conditions: null, actions: [], messages: [] };
+  if (def.enabled === false) {
+    diag.outcome = 'disabled';
+    diag.messages.push('Trigger is disabled');
+    return diag;
+  }
+  if (running.has(def.id)) {
+    diag.outcome = 'reentrant';
+    diag.messages.push('Trigger is already running (re-entrant fire ignored)');
+    return diag;
+  }
+  if (def.conditions) {
+    diag.conditions = evaluateCondition(def.conditions, opts.ctx);
+    if (!diag.conditions.ok) {
+      diag.outcome = 'conditions-failed';
+      diag.messages.push('Conditions not met', ...explainFailure(diag.conditions));
+      return diag;
+    }
+  }
+  running.add(def.id);
+  try {
+    diag.actions = runActions(def.actions, def, { dryRun: opts.dryRun, ctx: opts.ctx });
+  } finally {
+    running.delete(def.id);
+  }
+  for (const a of diag.actions) {
+    if (!a.ran && a.condition) diag.messages.push(`Action ${a.index + 1} (${a.kind}) skipped`, ...explainFailure(a.condition));
   }
+  return diag;
 }
 
-function valueOf(arg: { type: 'variable'; id: string } | { type: 'const'; value: any }) {
-  if (arg.type === 'const') return arg.value;
-  const all = get(variablesStore) as VariableMap;
-  return all[arg.id];
+/** Result of the most recent fire attempt, if any. */
+export function getTriggerDiagnostics(id: string): TriggerDiagnostics | undefined { return lastDiagnostics.get(id); }
+
+export function runActions(actions: ActionDef[], def?: TriggerDef, opts: { dryRun?: boolean; ctx?: ConditionContext } = {}): TriggerDiagnostics['actions'] {
+  const report: TriggerDiagnostics['actions'] = [];
+  actions.forEach((a, index) => {
+    const condition = a.condition ? evaluateCondition(a.condition, opts.ctx) : null;
+    const ran = !condition || condition.ok;
+    report.push({ index, kind: a.kind, ran, condition });
+    if (ran && !opts.dryRun) runAction(a, def, opts.ctx);
+  });
+  return report;
 }
 
-export function runActions(actions: Action[]) {
-  for (const a of actions) {
-    switch (a.type) {
-      case 'log':
-        console.log('[Trigger log]', a.message);
-        devOutput.append('info', a.message, { source: 'trigger' });
-        break;
-      case 'setVariable':
-        setVar(a.id, a.value);
-        break;
-      case 'adjustVariable':
-        adjustVar(a.id, a.by);
-        break;
-      case 'playTimeline': {
-        const tl = timelines.get(a.timelineId);
-        tl?.play();
-        break;
-      }
-      case 'pauseTimeline': {
-        const tl = timelines.get(a.timelineId);
-        tl?.pause();
-        break;
-      }
-      case 'stopTimeline': {
-        const tl = timelines.get(a.timelineId);
-        tl?.stop();
-        break;
-      }
-      case 'seekTimeline': {
-        const tl = timelines.get(a.timelineId);
-        tl?.seek(a.time);
-        break;
-      }
-      case 'setTimelineLoop': {
-        const tl = timelines.get(a.timelineId);
-        tl?.setLoop(a.loop);
+// Variable names resolve against the same page as the conditions (page variables shadow globals)
+function runAction(a: ActionDef, def?: TriggerDef, ctx: ConditionContext = {}) {
+  switch (a.kind) {
+    case 'log':
+      console.log('[Trigger log]', a.message);
+      devOutput.append('info', a.message, { source: 'trigger', triggerId: def?.id });
+      break;
+    case 'variable.set':
+      setValueByName(a.name, a.value, ctx.pageId);
+      break;
+    case 'variable.adjust': {
+      const curr = Number(getValueByName(a.name, ctx.pageId)) || 0;
+      setValueByName(a.name, curr + (Number(a.by) || 0), ctx.pageId);
+      break;
+    }
+    case 'timeline.play':
+    case 'timeline.pause':
+    case 'timeline.stop':
+    case 'timeline.seek':
+    case 'timeline.loop': {
+      const tlId = def ? resolveTimelineId(def, a.timelineId) : a.timelineId ?? get(selectedTimelineId);
+      const tl = tlId ? timelines.get(tlId) : undefined;
+      if (!tl) {
+        devOutput.append('warn', `Timeline not found for ${a.kind}`, { source: 'trigger', triggerId: def?.id, timelineId: tlId });
         break;
       }
-      default:
-        console.warn('Unknown action', a);
-        break;
+      if (a.kind === 'timeline.play') tl.play();
+      else if (a.kind === 'timeline.pause') tl.pause();
+      else if (a.kind === 'timeline.stop') tl.stop();
+      else if (a.kind === 'timeline.seek') tl.seek(a.ms);
+      else tl.setLoop(a.loop);
+      break;
     }
+    default:
+      console.warn('Unknown action', a);
+      break;
   }
 }
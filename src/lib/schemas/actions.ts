@@ -1,4 +1,7 @@
-/** Action model (subset for v1 runtime skeleton) */
+/**
+ * Legacy action model (v1 runtime skeleton). Only read by lib/validation/triggerMigration.ts
+ * to upgrade persisted triggers; new code uses ActionDef from ./triggers.
+ */
 
 export type Action =
   | { type: 'log'; message: string }
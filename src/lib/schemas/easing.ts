@@ -0,0 +1,27 @@
+/** Easing curves shared by timeline keyframes and element animations (evaluated in lib/runtime/easing.ts). */
+
+type PennerFamily = 'Quad' | 'Cubic' | 'Quart' | 'Expo' | 'Back' | 'Elastic' | 'Bounce';
+
+/** Named curves: linear, the Penner set and the CSS keywords (older element animations use those). */
+export type EasingPreset =
+  | 'linear'
+  | `ease${'In' | 'Out' | 'InOut'}${PennerFamily}`
+  | 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/** User-defined curve, same control points as CSS `cubic-bezier()` (x1 / x2 within 0..1). */
+export interface CubicBezierEasing {
+  kind: 'cubicBezier';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** CSS `steps()`: `count` equal jumps, at the start or the end of each interval. */
+export interface StepsEasing {
+  kind: 'steps';
+  count: number;
+  position?: 'start' | 'end';
+}
+
+export type Easing = EasingPreset | CubicBezierEasing | StepsEasing;
@@ -26,9 +26,8 @@ export type ShapePreset =
 | 'star'
 | 'arrow'
 
-
-/** Standard easing keywords for animation timelines. */
-type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+import type { Easing } from './easing';
+import type { AnimProperty } from './timeline';
 
 /** DOM‑like events we surface for element trigger bindings. */
 export type ElementEvent = 'click' | 'dblclick' | 'mouseenter' | 'mouseleave' | 'pointerdown' | 'pointerup' | 'keypress';
@@ -63,7 +62,7 @@ export type ElementAnimation = {
     duration: number; // ms
     /** Optional initial delay before playing (ms). */
     delay?: number; // ms
-    /** Easing function keyword. */
+    /** Easing curve (preset name, cubic-bezier or steps; see schemas/easing.ts). */
     easing?: Easing;
     /** If true the animation restarts automatically. */
     loop?: boolean;
@@ -115,6 +114,8 @@ interface BaseElement {
     triggers?: ElementTrigger[];
     /** Optional animation clips bound to this element. */
     animations?: ElementAnimation[];
+    /** Property -> expression source evaluated every frame (see runtime/expressions.ts). */
+    expressions?: Partial<Record<AnimProperty, string>>;
 }
 
 /** Styling for pure text elements. */
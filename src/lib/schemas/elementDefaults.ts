@@ -0,0 +1,54 @@
+import type { ElementType } from './element';
+
+/**
+ * Default payloads per element type: used by the palette when inserting elements and by the
+ * project validator to fill in missing style fields. Text styles use the flat shape the stage
+ * renderer and style engine read (`fontSize`, `color`, `content` on `style`).
+ */
+
+const ZERO_PADDING = { top: 0, right: 0, bottom: 0, left: 0 };
+const radius = (r: number) => ({ dimensions: { topLeft: r, topRight: r, bottomRight: r, bottomLeft: r }, locked: true });
+
+const STYLES: Partial<Record<ElementType, Record<string, unknown>>> = {
+    rectangle: { strokeColor: '#1f2937', fillColor: '#3b82f6', strokeWidth: 1, strokeStyle: 'solid', padding: ZERO_PADDING, borderRadius: radius(4) },
+    ellipse: { strokeColor: '#1f2937', fillColor: '#f59e0b', strokeWidth: 1, strokeStyle: 'solid', padding: ZERO_PADDING, borderRadius: radius(50) },
+    line: { strokeColor: '#1f2937', strokeWidth: 2, strokeStyle: 'solid' },
+    path: { strokeColor: '#1f2937', strokeWidth: 2, strokeStyle: 'solid', closed: false, smooth: false },
+    polygon: { strokeColor: '#1f2937', fillColor: '#10b981', strokeWidth: 1, strokeStyle: 'solid', padding: ZERO_PADDING, borderRadius: radius(0), sides: 6, radius: 50 },
+    text: { fontSize: 18, fontFamily: 'Inter, system-ui, sans-serif', color: '#111827', textAlign: 'left', fontWeight: 'normal', placement: 'top', highlight: { color: '#ffff00', start: 0, end: 0 }, content: 'New Text' },
+    image: { src: '', alt: 'Image', fit: 'cover', borderRadius: 4, opacity: 1, filters: { brightness: 100, contrast: 100, grayscale: 0, blur: 0 } },
+    hotspot: { strokeColor: '#dc2626', fillColor: 'rgba(220,38,38,0.15)', strokeWidth: 1, strokeStyle: 'dashed', padding: ZERO_PADDING, borderRadius: radius(4) },
+    collection: { strokeColor: '#0f172a', fillColor: '#e2e8f0', strokeWidth: 2, strokeStyle: 'solid', padding: { top: 4, right: 4, bottom: 4, left: 4 }, borderRadius: radius(6) },
+    component: { strokeColor: '#0f172a', fillColor: '#e2e8f0', strokeWidth: 2, strokeStyle: 'solid', padding: ZERO_PADDING, borderRadius: radius(6) },
+};
+
+const SIZES: Partial<Record<ElementType, { width: number; height: number }>> = {
+    rectangle: { width: 160, height: 100 },
+    ellipse: { width: 100, height: 100 },
+    line: { width: 180, height: 4 },
+    text: { width: 220, height: 60 },
+    image: { width: 200, height: 140 },
+    hotspot: { width: 120, height: 80 },
+    collection: { width: 240, height: 160 },
+};
+
+/** Fresh copy of the default style for `type` (empty object for types without one). */
+export function defaultStyleFor(type: ElementType): Record<string, any> {
+    return structuredClone(STYLES[type] ?? {});
+}
+
+export function defaultSizeFor(type: ElementType): { width: number; height: number } {
+    return { ...(SIZES[type] ?? { width: 120, height: 80 }) };
+}
+
+export const DEFAULT_SHADOW = { color: 'rgba(0,0,0,0.15)', offsetX: 0, offsetY: 2, blur: 6 };
+
+/** Enumerated style fields: values outside the list are reset to the type default. */
+export const STYLE_ENUMS: Record<string, readonly unknown[]> = {
+    strokeStyle: ['solid', 'dashed', 'dotted'],
+    fit: ['cover', 'contain', 'fill'],
+    textAlign: ['left', 'center', 'right'],
+    placement: ['top', 'bottom', 'middle'],
+};
+
+export const ELEMENT_TYPES: readonly ElementType[] = ['line', 'rectangle', 'ellipse', 'path', 'text', 'image', 'hotspot', 'collection', 'component', 'polygon'];
@@ -1,14 +1,32 @@
 import type { Element } from './element';
+import type { StoredTimeline } from './timeline';
+import type { TriggerDef } from './triggers';
+import type { StoredVariable } from './variables';
+import type { StoredScript } from './scripts';
 
 // Project data schema version (increment on breaking structural changes)
-export const CURRENT_PROJECT_VERSION = 1 as const;
+// v2: timelines, triggers, variables and scripts live in the document (StudioSlots)
+export const CURRENT_PROJECT_VERSION = 2 as const;
+
+/**
+ * Studio state carried by the course (course-wide) and by each page (page-bound):
+ * page timelines with their clips/keyframes, triggers on those timelines, page variables and
+ * page scripts sit on the page; everything else on the course. Optional so pages created by
+ * older code paths stay valid; the v1 -> v2 migration fills them in.
+ */
+export interface StudioSlots {
+    timelines?: Record<string, StoredTimeline>;
+    triggers?: TriggerDef[];
+    variables?: StoredVariable[];
+    scripts?: StoredScript[];
+}
 
 interface LayoutProps {
     stageSize: { width: number; height: number };
     elementProps: Record<string, { position: { x: number; y: number }; size: { width: number; height: number } }>;
 }
 
-export type Page = {
+export type Page = StudioSlots & {
     id: string;
     visible: boolean;
     elements: Element[];
@@ -94,7 +112,7 @@ export type Module = {
 };
 
 
-export type Course = {
+export type Course = StudioSlots & {
     id: string;
     modules: {
         id: string;
@@ -154,4 +172,21 @@ export function deepClone<T>(obj: T): T {
     // @ts-ignore structuredClone global may not be in lib target
     if (typeof structuredClone === 'function') return structuredClone(obj);
     return JSON.parse(JSON.stringify(obj));
-}
\ No newline at end of file
+}
+export type PageLocation = { moduleId: string; lessonId: string; pageId: string };
+
+/** Every page in reading order: modules, then lessons, then pages, each sorted by `order`. */
+export function pageSequence(data: ProjectData): PageLocation[] {
+    const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order;
+    const out: PageLocation[] = [];
+    for (const mRef of [...(data.course?.modules ?? [])].sort(byOrder)) {
+        const mod = data.modulesById[mRef.id]; if (!mod) continue;
+        for (const lRef of [...mod.lessons].sort(byOrder)) {
+            const les = data.lessonsById[lRef.id]; if (!les) continue;
+            for (const pRef of [...les.pages].sort(byOrder)) {
+                if (data.pagesById[pRef.id]) out.push({ moduleId: mod.id, lessonId: les.id, pageId: pRef.id });
+            }
+        }
+    }
+    return out;
+}
@@ -8,3 +8,12 @@ export interface ScriptDef {
   compiledJs?: string; // may be empty in dev web preview
   enabled?: boolean;
 }
+
+/** Script as stored in the project document (course-wide or on its page). */
+export interface StoredScript {
+  id: string;
+  name: string;
+  code: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -1,5 +1,7 @@
 /** Timeline schema (minimal for v1 runtime skeleton) */
 
+import type { Easing } from './easing';
+
 export interface CuePoint {
   id: string;
   time: number; // ms
@@ -17,4 +19,89 @@ export interface TimelineConfig {
   duration: number; // ms
   loop?: boolean;
   cuePoints?: CuePoint[];
+  /** Other timelines embedded in this one, driven by its clock. */
+  nested?: NestedTimelineClip[];
+}
+
+/**
+ * Clip embedding another timeline: from `start` on, the parent's time drives the child at
+ * `speed`, beginning `offset` ms into it, for `loops` play-throughs (runtime/nestedTimelines.ts).
+ */
+export interface NestedTimelineClip {
+  id: string;
+  /** The embedded timeline: a sequence of the same page, usually. */
+  timelineId: string;
+  start: number; // ms, parent time
+  offset?: number; // ms, child time
+  /** Child ms per parent ms; 1 when absent. */
+  speed?: number;
+  /** Play-throughs of the child; 1 when absent. */
+  loops?: number;
+}
+
+/** Easing of a keyframe: shapes the segment from the previous keyframe of the track to this one. */
+export type EasingName = Easing;
+/**
+ * Element properties a keyframe track can animate. Geometry is in the element's own units
+ * (local position, px size, degrees); `scale` is an animation-only multiplier (1 = as designed).
+ * `motionPath` values are progress along a path element (0 = start, 1 = end of its length).
+ */
+export type AnimProperty =
+  | 'x' | 'y' | 'width' | 'height' | 'rotation' | 'scale'
+  | 'opacity' | 'blur'
+  | 'fillColor' | 'strokeColor'
+  | 'fontSize'
+  | 'motionPath';
+
+/** Settings of a motion-path track, repeated on each of its keyframes (the first one is read). */
+export interface MotionPathRef {
+  /** The `path` element to follow (same page). */
+  pathId: string;
+  /** Rotate the element with the direction of travel, its own rotation kept as an offset. */
+  autoOrient?: boolean;
+}
+
+/** Numbers for every property except the colours, which hold a CSS colour string. */
+export type KeyframeValue = number | string;
+
+/** Span during which an element is present on a timeline. */
+export interface TimelineClip {
+  id: string;
+  elementId: string;
+  start: number; // ms
+  end: number;   // ms (exclusive)
+  label?: string;
+}
+
+export interface TimelineKeyframe {
+  id: string;
+  elementId: string;
+  property: AnimProperty;
+  time: number; // ms
+  value: KeyframeValue;
+  easing: EasingName;
+  /** Only on `motionPath` keyframes. */
+  motionPath?: MotionPathRef;
+}
+
+/** A timeline as stored in the project document: its config plus clips and keyframes. */
+export interface StoredTimeline extends TimelineConfig {
+  name: string;
+  clips: TimelineClip[];
+  keyframes: TimelineKeyframe[];
+}
+
+/** Id of a reusable sequence timeline kept with a page (`page-<pageId>:seq-<key>`). */
+export function sequenceTimelineId(pageId: string, key: string) {
+  return `page-${pageId}:seq-${key}`;
+}
+
+export function isSequenceTimeline(timelineId: string) {
+  return /^page-.+:seq-[^:]+$/.test(timelineId);
+}
+
+/** Page that owns a page timeline (`page-<pageId>:<stage>`), or null for free-standing ones. */
+export function timelinePageId(timelineId: string): string | null {
+  const m = /^page-(.+):[^:]+$/.exec(timelineId);
+  return m ? m[1] : null;
 }
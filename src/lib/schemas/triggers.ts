@@ -1,18 +1,40 @@
-// Minimal trigger schemas/types used by TriggerPanel and TriggerWizard
-// These are UI-level types; adapt as needed to your runtime schemas.
+// Canonical trigger schema shared by TriggersPanel, TriggerWizard and the trigger runtime.
+// Whatever the wizard saves is exactly what registerTrigger() executes. Older persisted
+// shapes are upgraded by lib/validation/triggerMigration.ts.
+
+import type { ElementEvent } from './element';
 
 export type ID = string;
 
-export type TriggerSourceKind = 'timeline' | 'element' | 'timer';
+/** Bump when the persisted trigger shape changes (and add a mapper step). */
+export const TRIGGER_SCHEMA_VERSION = 2 as const;
+
+export type TriggerSourceKind = 'timeline' | 'element' | 'timer' | 'variable';
 
 export type TimelineEvent = 'cue' | 'play' | 'pause' | 'stop' | 'seek';
-export type ElementEvent = 'click';
-export type TimerEvent = 'timeout';
+export type { ElementEvent };
+export type TimerEvent = 'timeout' | 'interval';
+export type VariableEvent = 'change';
 
 export type SourceDef =
-  | { kind: 'timeline'; event: TimelineEvent; timelineId?: string; cueId?: string | null }
-  | { kind: 'element'; event: ElementEvent; selector: string }
-  | { kind: 'timer'; event: TimerEvent; delayMs: number };
+  | {
+      kind: 'timeline';
+      event: TimelineEvent;
+      /** Omitted => the currently selected (page) timeline. */
+      timelineId?: string;
+      /** Cue filter (id or name) when event === 'cue'. */
+      cueId?: string | null;
+      cueName?: string;
+      cueTime?: number;
+    }
+  | {
+      kind: 'element';
+      event: ElementEvent;
+      /** `#id`, `@name` or element type; comma separated. Matches bubble up through collections. */
+      selector: string;
+    }
+  | { kind: 'timer'; event: TimerEvent; delayMs: number }
+  | { kind: 'variable'; event: VariableEvent; /** Omitted => any variable change. */ name?: string };
 
 export type ValueRef =
   | { type: 'variable'; name: string }
@@ -40,14 +62,21 @@ export type ActionKind =
   | 'timeline.play'
   | 'timeline.pause'
   | 'timeline.stop'
-  | 'timeline.seek';
+  | 'timeline.seek'
+  | 'timeline.loop'
+  | 'variable.set'
+  | 'variable.adjust';
 
+/** Timeline actions without timelineId target the trigger's own timeline (or the current one). */
 export type ActionDef =
   | { kind: 'log'; message: string; condition?: ConditionNode | null }
   | { kind: 'timeline.play'; timelineId?: string; condition?: ConditionNode | null }
   | { kind: 'timeline.pause'; timelineId?: string; condition?: ConditionNode | null }
   | { kind: 'timeline.stop'; timelineId?: string; condition?: ConditionNode | null }
-  | { kind: 'timeline.seek'; timelineId?: string; ms: number; condition?: ConditionNode | null };
+  | { kind: 'timeline.seek'; timelineId?: string; ms: number; condition?: ConditionNode | null }
+  | { kind: 'timeline.loop'; timelineId?: string; loop: boolean; condition?: ConditionNode | null }
+  | { kind: 'variable.set'; name: string; value: string | number | boolean; condition?: ConditionNode | null }
+  | { kind: 'variable.adjust'; name: string; by: number; condition?: ConditionNode | null };
 
 export interface TriggerDef {
   id: ID;
@@ -60,7 +89,12 @@ export interface TriggerDef {
   actions: ActionDef[]; // actions may also have local optional conditions
 }
 
+/** Persisted envelope under the `triggers` localStorage key. */
+export interface TriggerDocument {
+  version: number;
+  triggers: TriggerDef[];
+}
+
 // Mini helper types used by UI dropdowns
 export interface TimelineOption { id: string; label?: string }
 export interface VariableOption { name: string; type: 'string' | 'number' | 'boolean' }
-// (Legacy runtime-specific types removed from this UI schema file. Use a mapper between UI types and runtime types.)
@@ -24,3 +24,18 @@ export interface VariableRef {
 }
 
 export type VariableMap = Record<string, VariableValue>;
+
+/** Value types offered by the studio variables panel. */
+export type StudioVarType = 'string' | 'number' | 'boolean' | 'json' | 'object' | 'array';
+
+/**
+ * Studio variable as stored in the project document. Global ones live on the course, page
+ * ones on their page (the owning page is implied by where it is stored).
+ */
+export interface StoredVariable {
+  id: string;
+  name: string;
+  type: StudioVarType;
+  readOnly?: boolean;
+  value: VariableValue;
+}
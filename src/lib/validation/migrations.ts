@@ -0,0 +1,107 @@
+// Ordered migration steps for ProjectData (`projectVersion`).
+// Each step takes a document at version `from` and transforms it in place to `from + 1`;
+// steps know nothing about storage or each other, so each can be exercised on its own.
+// The runner applies them in sequence on a copy, keeps the untouched original as a backup
+// and records which steps ran. Documents from a newer app are refused, never downgraded.
+//
+// Adding a version: bump CURRENT_PROJECT_VERSION, append a step here with `from` set to the
+// previous version, and keep older steps unchanged (old files still go through them).
+
+import { CURRENT_PROJECT_VERSION, deepClone } from '../schemas/project';
+
+type Doc = Record<string, any>;
+
+export interface MigrationStep {
+  from: number;
+  to: number;
+  /** One line, shown in the migration log. */
+  description: string;
+  /** Transform `doc` (at version `from`) in place; throw when it can't be migrated. */
+  migrate(doc: Doc): void;
+}
+
+export interface AppliedMigration {
+  from: number;
+  to: number;
+  description: string;
+}
+
+export interface MigrationResult {
+  data?: Doc;
+  error?: string;
+  /** Version the document was stored with (0 when it predates `projectVersion`). */
+  fromVersion: number;
+  applied: AppliedMigration[];
+  /** Copy of the document as stored, present when at least one step ran. */
+  backup?: unknown;
+}
+
+const isObject = (v: unknown): v is Doc => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function addStudioSlots(target: Doc) {
+  if (!isObject(target.timelines)) target.timelines = {};
+  if (!Array.isArray(target.triggers)) target.triggers = [];
+  if (!Array.isArray(target.variables)) target.variables = [];
+  if (!Array.isArray(target.scripts)) target.scripts = [];
+}
+
+export const MIGRATIONS: readonly MigrationStep[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Add projectVersion',
+    migrate() {
+      // v0 documents are v1-shaped; only the version field was missing
+    },
+  },
+  {
+    from: 1,
+    to: 2,
+    description: 'Add timeline, trigger, variable and script slots to the course and pages',
+    migrate(doc) {
+      // Studio state still sitting in the old localStorage keys is folded in by the caller
+      // (foldLegacyStudioState), since it is not part of the v1 document.
+      if (!isObject(doc.course) || !isObject(doc.pagesById)) throw new Error('Invalid v1 project');
+      addStudioSlots(doc.course);
+      for (const page of Object.values(doc.pagesById)) if (isObject(page)) addStudioSlots(page);
+    },
+  },
+];
+
+/** Version stored in `raw`: 0 when absent, NaN when not a usable number. */
+export function storedVersion(raw: Doc): number {
+  const v = raw.projectVersion;
+  if (v == null) return 0;
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0 ? v : NaN;
+}
+
+/** Bring `raw` up to CURRENT_PROJECT_VERSION. `raw` itself is left untouched. */
+export function migrateProject(raw: unknown, steps: readonly MigrationStep[] = MIGRATIONS, target: number = CURRENT_PROJECT_VERSION): MigrationResult {
+  if (!isObject(raw)) return { error: 'Root not object', fromVersion: NaN, applied: [] };
+  const fromVersion = storedVersion(raw);
+  if (Number.isNaN(fromVersion)) return { error: 'Invalid projectVersion', fromVersion, applied: [] };
+  if (fromVersion > target) {
+    return {
+      error: `This project was saved by a newer version of Mava Studio (format v${fromVersion}; this version opens up to v${target}). Update the app to open it.`,
+      fromVersion,
+      applied: [],
+    };
+  }
+  if (fromVersion === target) return { data: raw, fromVersion, applied: [] };
+
+  const doc = deepClone(raw);
+  const applied: AppliedMigration[] = [];
+  for (let v = fromVersion; v < target; v++) {
+    const step = steps.find((s) => s.from === v);
+    if (!step) return { error: `No migration from project format v${v}`, fromVersion, applied };
+    try {
+      step.migrate(doc);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return { error: `Migration v${step.from} → v${step.to} failed: ${msg}`, fromVersion, applied };
+    }
+    doc.projectVersion = step.to;
+    applied.push({ from: step.from, to: step.to, description: step.description });
+  }
+  return { data: doc, fromVersion, applied, backup: raw };
+}
@@ -0,0 +1,495 @@
+// Deep validation & repair for ProjectData (runs after migration, at load/import boundaries).
+// Walks every entity, element, style payload, layout entry and studio slot, collects all
+// problems instead of stopping at the first, and fixes what can be fixed without guessing at
+// intent: dangling / duplicate refs are dropped, orders renumbered, missing fields and styles
+// filled from defaults, duplicate element ids renamed and broken collection membership
+// reconciled. Entities nothing refers to are reported but kept so no content is thrown away.
+
+import { ELEMENT_TYPES, DEFAULT_SHADOW, STYLE_ENUMS, defaultSizeFor, defaultStyleFor } from '../schemas/elementDefaults';
+import type { ElementType } from '../schemas/element';
+import { isEasing } from '../runtime/easing';
+
+export type IssueCode =
+  | 'invalid-entity'
+  | 'id-mismatch'
+  | 'dangling-ref'
+  | 'duplicate-ref'
+  | 'order'
+  | 'unreferenced'
+  | 'metadata'
+  | 'field'
+  | 'layout'
+  | 'element-type'
+  | 'duplicate-id'
+  | 'style'
+  | 'path-commands'
+  | 'hierarchy'
+  | 'studio-slot';
+
+export interface ValidationIssue {
+  /** Location in the document, e.g. `pagesById.p_3.elements[e_7].style`. */
+  path: string;
+  code: IssueCode;
+  message: string;
+  /** False when the problem was left in place (reported only). */
+  repaired: boolean;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  repaired: number;
+  unrepaired: number;
+}
+
+type Obj = Record<string, any>;
+
+const isObject = (v: unknown): v is Obj => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+const STAGE_DEFAULTS = {
+  desktop: { width: 1280, height: 720 },
+  tablet: { width: 1024, height: 768 },
+  mobile: { width: 375, height: 667 },
+} as const;
+
+const PATH_COMMAND_FIELDS: Record<string, string[]> = {
+  M: ['x', 'y'],
+  L: ['x', 'y'],
+  C: ['x1', 'y1', 'x2', 'y2', 'x', 'y'],
+  Q: ['x1', 'y1', 'x', 'y'],
+  Z: [],
+};
+
+// Style keys whose type legitimately varies (fontWeight: keyword or 100..900)
+const LOOSE_STYLE_KEYS = new Set(['fontWeight']);
+
+class Repairer {
+  issues: ValidationIssue[] = [];
+  /** Every element id seen so far, across pages (ids are global: indexes and history rely on it). */
+  elementIds = new Set<string>();
+  now = Date.now();
+
+  note(path: string, code: IssueCode, message: string, repaired = true) {
+    this.issues.push({ path, code, message, repaired });
+  }
+
+  /** Ensure `obj[key]` passes `ok`, replacing it with `fallback` otherwise. Returns true when repaired. */
+  field(obj: Obj, key: string, ok: (v: any) => boolean, fallback: () => unknown, path: string, code: IssueCode = 'field') {
+    if (ok(obj[key])) return false;
+    const had = obj[key] !== undefined;
+    obj[key] = fallback();
+    this.note(`${path}.${key}`, code, had ? `Invalid ${key}; reset to default` : `Missing ${key}; filled with default`);
+    return true;
+  }
+
+  report(): ValidationReport {
+    const repaired = this.issues.filter((i) => i.repaired).length;
+    return { issues: this.issues, repaired, unrepaired: this.issues.length - repaired };
+  }
+}
+
+// ---- Structure ---------------------------------------------------------------
+
+function repairEntityMap(r: Repairer, data: Obj, mapKey: string) {
+  if (!isObject(data[mapKey])) {
+    r.note(mapKey, 'invalid-entity', `${mapKey} missing or not an object; replaced with an empty map`);
+    data[mapKey] = {};
+  }
+  const map = data[mapKey] as Obj;
+  for (const [key, entity] of Object.entries(map)) {
+    if (!isObject(entity)) {
+      delete map[key];
+      r.note(`${mapKey}.${key}`, 'invalid-entity', 'Entry is not an object; removed');
+      continue;
+    }
+    if (entity.id !== key) {
+      r.note(`${mapKey}.${key}.id`, 'id-mismatch', `Id ${JSON.stringify(entity.id)} does not match its key; set to ${key}`);
+      entity.id = key;
+    }
+  }
+  return map;
+}
+
+/**
+ * Keep only refs to existing, not yet claimed children; renumber orders 1..n keeping the
+ * stored order. `claimed` spans all parents so each child ends up under a single parent.
+ */
+function repairRefs(r: Repairer, owner: Obj, listKey: string, targets: Obj, claimed: Set<string>, path: string) {
+  if (!Array.isArray(owner[listKey])) {
+    r.note(`${path}.${listKey}`, 'field', `${listKey} missing or not a list; replaced with an empty list`);
+    owner[listKey] = [];
+  }
+  const kept: { id: string; order: number; index: number }[] = [];
+  (owner[listKey] as unknown[]).forEach((ref, index) => {
+    const id = isObject(ref) ? ref.id : isString(ref) ? ref : undefined;
+    if (!isString(id)) {
+      r.note(`${path}.${listKey}[${index}]`, 'dangling-ref', 'Malformed reference removed');
+    } else if (!targets[id]) {
+      r.note(`${path}.${listKey}[${id}]`, 'dangling-ref', `Reference to missing ${id} removed`);
+    } else if (claimed.has(id)) {
+      r.note(`${path}.${listKey}[${id}]`, 'duplicate-ref', `${id} is already referenced elsewhere; duplicate removed`);
+    } else {
+      claimed.add(id);
+      kept.push({ id, order: isObject(ref) && isNumber(ref.order) ? ref.order : Infinity, index });
+    }
+  });
+  kept.sort((a, b) => a.order - b.order || a.index - b.index);
+  const renumbered = kept.some((k, i) => k.order !== i + 1);
+  if (renumbered && kept.length) r.note(`${path}.${listKey}`, 'order', 'Orders were missing, duplicated or out of sequence; renumbered');
+  owner[listKey] = kept.map((k, i) => ({ id: k.id, order: i + 1 }));
+}
+
+function reportUnreferenced(r: Repairer, map: Obj, claimed: Set<string>, mapKey: string, kind: string) {
+  for (const id of Object.keys(map)) {
+    if (!claimed.has(id)) r.note(`${mapKey}.${id}`, 'unreferenced', `${kind} ${id} is not part of the course outline`, false);
+  }
+}
+
+function repairMetadata(r: Repairer, owner: Obj, path: string, title: string) {
+  r.field(owner, 'metadata', isObject, () => ({}), path, 'metadata');
+  const m = owner.metadata as Obj;
+  const p = `${path}.metadata`;
+  r.field(m, 'title', isString, () => title, p, 'metadata');
+  r.field(m, 'duration', (v) => isNumber(v) && v >= 0, () => 0, p, 'metadata');
+  r.field(m, 'version', isNumber, () => 1, p, 'metadata');
+  r.field(m, 'createdAt', isNumber, () => r.now, p, 'metadata');
+  r.field(m, 'updatedAt', isNumber, () => m.createdAt, p, 'metadata');
+  const lastEditedOk = (v: any) => isObject(v) && isString(v.userId) && isString(v.name);
+  r.field(m, 'lastEditedBy', lastEditedOk, () => ({ userId: 'system', name: 'System' }), p, 'metadata');
+  for (const key of ['description', 'url', 'thumbnailUrl'] as const) {
+    if (m[key] !== undefined && !isString(m[key])) { delete m[key]; r.note(`${p}.${key}`, 'metadata', `Invalid ${key} removed`); }
+  }
+  if (m.tags !== undefined && !(Array.isArray(m.tags) && m.tags.every(isString))) {
+    m.tags = Array.isArray(m.tags) ? m.tags.filter(isString) : [];
+    r.note(`${p}.tags`, 'metadata', 'Non-text tags removed');
+  }
+}
+
+function repairIdList(r: Repairer, owner: Obj, key: string, path: string, required: boolean) {
+  const v = owner[key];
+  if (v === undefined && !required) return;
+  if (Array.isArray(v) && v.every(isString)) return;
+  owner[key] = Array.isArray(v) ? v.filter(isString) : [];
+  r.note(`${path}.${key}`, 'field', `${key} must be a list of ids; repaired`);
+}
+
+// ---- Elements ----------------------------------------------------------------
+
+function uniqueElementId(r: Repairer, base: string) {
+  let n = 2;
+  while (r.elementIds.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+}
+
+function repairStyle(r: Repairer, el: Obj, path: string) {
+  const defaults = defaultStyleFor(el.type as ElementType);
+  if (!isObject(el.style)) {
+    r.note(`${path}.style`, 'style', el.style === undefined ? 'Missing style; filled with defaults' : 'Invalid style; reset to defaults');
+    el.style = defaults;
+    return;
+  }
+  const style = el.style;
+  const filled: string[] = [];
+  const reset: string[] = [];
+  for (const [key, def] of Object.entries(defaults)) {
+    const cur = style[key];
+    if (cur === undefined) { style[key] = def; filled.push(key); continue; }
+    if (LOOSE_STYLE_KEYS.has(key)) continue;
+    const sameKind = isObject(def) ? isObject(cur) : isNumber(def) ? isNumber(cur) : typeof cur === typeof def;
+    if (!sameKind) { style[key] = def; reset.push(key); }
+  }
+  for (const [key, allowed] of Object.entries(STYLE_ENUMS)) {
+    if (style[key] === undefined || allowed.includes(style[key])) continue;
+    if (key in defaults) style[key] = defaults[key];
+    else delete style[key];
+    reset.push(key);
+  }
+  if (filled.length) r.note(`${path}.style`, 'style', `Missing style fields filled with defaults: ${filled.join(', ')}`);
+  if (reset.length) r.note(`${path}.style`, 'style', `Invalid style fields reset: ${reset.join(', ')}`);
+}
+
+function repairPathCommands(r: Repairer, el: Obj, path: string) {
+  if (!Array.isArray(el.commands)) {
+    el.commands = [];
+    r.note(`${path}.commands`, 'path-commands', 'Path commands missing; set to an empty path');
+    return;
+  }
+  const valid = el.commands.filter((c: unknown) =>
+    isObject(c) && isString(c.type) && PATH_COMMAND_FIELDS[c.type]?.every((f) => isNumber(c[f])));
+  if (valid.length !== el.commands.length) {
+    r.note(`${path}.commands`, 'path-commands', `${el.commands.length - valid.length} malformed path command(s) removed`);
+    el.commands = valid;
+  }
+}
+
+function repairElement(r: Repairer, el: Obj, path: string) {
+  const type = el.type as ElementType;
+  const size = defaultSizeFor(type);
+  r.field(el, 'name', isString, () => type.charAt(0).toUpperCase() + type.slice(1), path);
+  r.field(el, 'position', (v) => isObject(v) && isNumber(v.x) && isNumber(v.y), () => ({ x: 0, y: 0 }), path);
+  const sizeOk = (v: any) => isObject(v) && isObject(v.dimensions) && isNumber(v.dimensions.width) && isNumber(v.dimensions.height)
+    && v.dimensions.width >= 0 && v.dimensions.height >= 0;
+  r.field(el, 'size', sizeOk, () => ({ dimensions: size, locked: false }), path);
+  const shadowOk = (v: any) => isObject(v) && isString(v.color) && isNumber(v.offsetX) && isNumber(v.offsetY) && isNumber(v.blur);
+  r.field(el, 'shadow', shadowOk, () => ({ ...DEFAULT_SHADOW }), path);
+  r.field(el, 'rotation', isNumber, () => 0, path);
+  r.field(el, 'visible', (v) => typeof v === 'boolean', () => true, path);
+  r.field(el, 'zIndex', isNumber, () => 1, path);
+  if (isNumber(el.opacity) && (el.opacity < 0 || el.opacity > 1)) {
+    el.opacity = Math.min(1, Math.max(0, el.opacity));
+    r.note(`${path}.opacity`, 'field', 'Opacity outside 0..1; clamped');
+  } else {
+    r.field(el, 'opacity', isNumber, () => 1, path);
+  }
+  // Optional flags: only checked when present
+  if (el.locked !== undefined && typeof el.locked !== 'boolean') { el.locked = false; r.note(`${path}.locked`, 'field', 'Invalid locked flag; unlocked'); }
+  if (el.blur !== undefined && !isNumber(el.blur)) { el.blur = 0; r.note(`${path}.blur`, 'field', 'Invalid blur; reset to 0'); }
+  // Expression sources are kept even when they no longer parse; the runtime reports those
+  if (el.expressions !== undefined && !(isObject(el.expressions) && Object.values(el.expressions).every(isString))) {
+    delete el.expressions;
+    r.note(`${path}.expressions`, 'field', 'Invalid expressions map removed');
+  }
+  repairStyle(r, el, path);
+  if (type === 'path') repairPathCommands(r, el, path);
+  if (type === 'collection' || type === 'component') repairIdList(r, el, 'memberIds', path, true);
+}
+
+/**
+ * Reconcile `parentId` and `memberIds` on one page: a member listed by a collection but
+ * missing its parentId is adopted by the first collection listing it, parentIds pointing at
+ * non-collections, missing elements or forming a cycle are cleared, and every collection's
+ * memberIds end up listing exactly the elements whose parentId points at it.
+ */
+function repairHierarchy(r: Repairer, elements: Obj[], path: string) {
+  const byId = new Map(elements.map((e) => [e.id as string, e]));
+  const isGroup = (e: Obj | undefined) => !!e && (e.type === 'collection' || e.type === 'component');
+  const groups = elements.filter(isGroup);
+
+  for (const g of groups) {
+    for (const mid of g.memberIds as string[]) {
+      const m = byId.get(mid);
+      if (m && m !== g && m.parentId === undefined) {
+        m.parentId = g.id;
+        r.note(`${path}[${mid}].parentId`, 'hierarchy', `Listed as member of ${g.id} but had no parent; parent set`);
+      }
+    }
+  }
+
+  for (const el of elements) {
+    if (el.parentId === undefined) continue;
+    const parent = isString(el.parentId) ? byId.get(el.parentId) : undefined;
+    if (!isGroup(parent) || parent === el) {
+      r.note(`${path}[${el.id}].parentId`, 'hierarchy', `Parent ${String(el.parentId)} is missing or not a collection; element moved to the page root`);
+      delete el.parentId;
+    }
+  }
+
+  // Cycles: walk up from each element; cut the link that closes the loop
+  for (const el of elements) {
+    const seen = new Set<Obj>([el]);
+    let cur = el;
+    while (cur.parentId !== undefined) {
+      const up = byId.get(cur.parentId)!;
+      if (seen.has(up)) {
+        r.note(`${path}[${cur.id}].parentId`, 'hierarchy', `Nesting cycle through ${up.id}; element moved to the page root`);
+        delete cur.parentId;
+        break;
+      }
+      seen.add(up);
+      cur = up;
+    }
+  }
+
+  for (const g of groups) {
+    const listed = (g.memberIds as string[]).filter((id, i, arr) => byId.get(id)?.parentId === g.id && arr.indexOf(id) === i);
+    const extra = elements.filter((e) => e.parentId === g.id && !listed.includes(e.id)).map((e) => e.id as string);
+    const next = [...listed, ...extra];
+    if (next.length !== g.memberIds.length || next.some((id, i) => id !== g.memberIds[i])) {
+      r.note(`${path}[${g.id}].memberIds`, 'hierarchy', 'Member list did not match its children; rebuilt');
+      g.memberIds = next;
+    }
+  }
+}
+
+function repairElements(r: Repairer, page: Obj, path: string) {
+  if (!Array.isArray(page.elements)) {
+    r.note(`${path}.elements`, 'field', 'Elements missing or not a list; page emptied');
+    page.elements = [];
+    return;
+  }
+  const kept: Obj[] = [];
+  const renamed = new Map<string, string>();
+  (page.elements as unknown[]).forEach((el, index) => {
+    const at = `${path}.elements[${index}]`;
+    if (!isObject(el)) { r.note(at, 'invalid-entity', 'Element is not an object; removed'); return; }
+    if (!ELEMENT_TYPES.includes(el.type)) { r.note(at, 'element-type', `Unknown element type ${JSON.stringify(el.type)}; removed`); return; }
+    if (!isString(el.id) || !el.id) {
+      el.id = uniqueElementId(r, `${el.type}`);
+      r.note(at, 'duplicate-id', `Element without id; assigned ${el.id}`);
+    } else if (r.elementIds.has(el.id)) {
+      const prev = el.id;
+      el.id = uniqueElementId(r, prev);
+      if (!renamed.has(prev)) renamed.set(prev, el.id);
+      r.note(at, 'duplicate-id', `Duplicate element id ${prev}; renamed to ${el.id}`);
+    }
+    r.elementIds.add(el.id);
+    repairElement(r, el, `${path}.elements[${el.id}]`);
+    kept.push(el);
+  });
+  page.elements = kept;
+  // An id duplicated from another page: this page's references meant the renamed copy. Ids
+  // repeated within the page stay ambiguous, so references keep pointing at the first one.
+  for (const prev of renamed.keys()) if (kept.some((e) => e.id === prev)) renamed.delete(prev);
+  if (renamed.size) retargetReferences(page, renamed);
+  repairHierarchy(r, kept, `${path}.elements`);
+}
+
+/** Point page-local element references (nesting, layouts, page timelines) at renamed ids. */
+function retargetReferences(page: Obj, renamed: Map<string, string>) {
+  const to = (id: unknown) => (isString(id) && renamed.get(id)) || id;
+  for (const el of page.elements as Obj[]) {
+    if (el.parentId !== undefined) el.parentId = to(el.parentId);
+    if (Array.isArray(el.memberIds)) el.memberIds = el.memberIds.map(to);
+  }
+  for (const layout of isObject(page.layouts) ? Object.values(page.layouts) : []) {
+    if (!isObject(layout) || !isObject(layout.elementProps)) continue;
+    for (const [prev, next] of renamed) {
+      if (!(prev in layout.elementProps)) continue;
+      layout.elementProps[next] = layout.elementProps[prev];
+      delete layout.elementProps[prev];
+    }
+  }
+  for (const tl of isObject(page.timelines) ? Object.values(page.timelines) : []) {
+    for (const item of [...(Array.isArray(tl?.clips) ? tl.clips : []), ...(Array.isArray(tl?.keyframes) ? tl.keyframes : [])]) {
+      if (isObject(item)) item.elementId = to(item.elementId);
+    }
+  }
+}
+
+// ---- Pages -------------------------------------------------------------------
+
+function repairLayouts(r: Repairer, page: Obj, path: string) {
+  r.field(page, 'layouts', isObject, () => ({}), path, 'layout');
+  const ids = new Set((page.elements as Obj[]).map((e) => e.id));
+  for (const [device, stage] of Object.entries(STAGE_DEFAULTS)) {
+    const p = `${path}.layouts`;
+    r.field(page.layouts, device, isObject, () => ({}), p, 'layout');
+    const layout = page.layouts[device] as Obj;
+    const lp = `${p}.${device}`;
+    const stageOk = (v: any) => isObject(v) && isNumber(v.width) && isNumber(v.height) && v.width > 0 && v.height > 0;
+    r.field(layout, 'stageSize', stageOk, () => ({ ...stage }), lp, 'layout');
+    r.field(layout, 'elementProps', isObject, () => ({}), lp, 'layout');
+    for (const [id, props] of Object.entries(layout.elementProps as Obj)) {
+      const ok = isObject(props) && isObject(props.position) && isNumber(props.position.x) && isNumber(props.position.y)
+        && isObject(props.size) && isNumber(props.size.width) && isNumber(props.size.height);
+      if (!ids.has(id)) r.note(`${lp}.elementProps.${id}`, 'layout', `Layout entry for missing element ${id} removed`);
+      else if (!ok) r.note(`${lp}.elementProps.${id}`, 'layout', 'Malformed layout entry removed');
+      else continue;
+      delete layout.elementProps[id];
+    }
+  }
+}
+
+/** Check studio slots; timeline clips / keyframes for elements that don't exist are dropped. */
+function repairSlots(r: Repairer, owner: Obj, path: string, elementExists: (id: string) => boolean) {
+  r.field(owner, 'timelines', isObject, () => ({}), path, 'studio-slot');
+  for (const key of ['triggers', 'variables', 'scripts'] as const) {
+    r.field(owner, key, Array.isArray, () => [], path, 'studio-slot');
+    const list = owner[key] as unknown[];
+    const valid = list.filter((x) => isObject(x) && isString(x.id));
+    if (valid.length !== list.length) {
+      r.note(`${path}.${key}`, 'studio-slot', `${list.length - valid.length} malformed ${key} entr${list.length - valid.length === 1 ? 'y' : 'ies'} removed`);
+      owner[key] = valid;
+    }
+  }
+  for (const [id, tl] of Object.entries(owner.timelines as Obj)) {
+    const tp = `${path}.timelines.${id}`;
+    if (!isObject(tl)) { delete owner.timelines[id]; r.note(tp, 'studio-slot', 'Timeline is not an object; removed'); continue; }
+    r.field(tl, 'duration', (v) => isNumber(v) && v >= 0, () => 0, tp, 'studio-slot');
+    for (const key of ['clips', 'keyframes'] as const) {
+      r.field(tl, key, Array.isArray, () => [], tp, 'studio-slot');
+      const list = tl[key] as unknown[];
+      const valid = list.filter((x) => isObject(x) && isString(x.elementId) && elementExists(x.elementId));
+      if (valid.length !== list.length) {
+        r.note(`${tp}.${key}`, 'studio-slot', `${list.length - valid.length} ${key} for missing elements removed`);
+        tl[key] = valid;
+      }
+    }
+    // Unknown easings (newer builds, hand edits) fall back to linear
+    (tl.keyframes as Obj[]).forEach((k, i) => r.field(k, 'easing', isEasing, () => 'linear', `${tp}.keyframes.${i}`, 'studio-slot'));
+    if (tl.nested !== undefined) {
+      const list = Array.isArray(tl.nested) ? tl.nested : [];
+      const valid = list.filter((c) => isObject(c) && isString(c.id) && isString(c.timelineId) && isNumber(c.start));
+      if (valid.length !== (Array.isArray(tl.nested) ? tl.nested.length : -1)) {
+        r.note(`${tp}.nested`, 'studio-slot', 'Malformed nested timeline clips removed');
+        tl.nested = valid;
+      }
+    }
+  }
+}
+
+function repairPage(r: Repairer, page: Obj, path: string, index: number) {
+  r.field(page, 'visible', (v) => typeof v === 'boolean', () => true, path);
+  r.field(page, 'backgroundColor', isString, () => '#ffffff', path);
+  repairMetadata(r, page, path, `Page ${index}`);
+  repairElements(r, page, path);
+  repairLayouts(r, page, path);
+}
+
+// ---- Entry point -------------------------------------------------------------
+
+/**
+ * Validate and repair a migrated document in place. The caller has established that the root
+ * and `course` are objects; everything below that is checked here.
+ */
+export function repairProject(data: Obj): ValidationReport {
+  const r = new Repairer();
+  const course = data.course as Obj;
+  r.field(course, 'id', (v) => isString(v) && v.length > 0, () => 'course-1', 'course');
+  const modules = repairEntityMap(r, data, 'modulesById');
+  const lessons = repairEntityMap(r, data, 'lessonsById');
+  const pages = repairEntityMap(r, data, 'pagesById');
+
+  const claimedModules = new Set<string>();
+  const claimedLessons = new Set<string>();
+  const claimedPages = new Set<string>();
+  repairRefs(r, course, 'modules', modules, claimedModules, 'course');
+  for (const [id, mod] of Object.entries(modules)) repairRefs(r, mod, 'lessons', lessons, claimedLessons, `modulesById.${id}`);
+  for (const [id, les] of Object.entries(lessons)) repairRefs(r, les, 'pages', pages, claimedPages, `lessonsById.${id}`);
+  reportUnreferenced(r, modules, claimedModules, 'modulesById', 'Module');
+  reportUnreferenced(r, lessons, claimedLessons, 'lessonsById', 'Lesson');
+  reportUnreferenced(r, pages, claimedPages, 'pagesById', 'Page');
+
+  repairMetadata(r, course, 'course', 'Untitled Course');
+  r.field(course.metadata, 'description', isString, () => '', 'course.metadata', 'metadata');
+  r.field(course.metadata, 'publishedAt', (v) => isNumber(v) || v === 'pending', () => 'pending', 'course.metadata', 'metadata');
+  repairIdList(r, course, 'cfNodeIds', 'course', true);
+
+  let n = 0;
+  for (const [id, mod] of Object.entries(modules)) {
+    const p = `modulesById.${id}`;
+    r.field(mod, 'visible', (v) => typeof v === 'boolean', () => true, p);
+    repairMetadata(r, mod, p, `Module ${++n}`);
+    repairIdList(r, mod, 'cfNodeIds', p, false);
+  }
+  n = 0;
+  for (const [id, les] of Object.entries(lessons)) {
+    const p = `lessonsById.${id}`;
+    r.field(les, 'type', (v) => v === 'activity' || v === 'assessment', () => 'activity', p);
+    r.field(les, 'visible', (v) => typeof v === 'boolean', () => true, p);
+    repairMetadata(r, les, p, `Lesson ${++n}`);
+    repairIdList(r, les, 'cfNodeIds', p, false);
+  }
+  n = 0;
+  for (const [id, page] of Object.entries(pages)) repairPage(r, page, `pagesById.${id}`, ++n);
+
+  // Slots last: element ids are final once every page has been repaired
+  const pageElementIds = new Map(Object.entries(pages).map(([id, p]) => [id, new Set((p.elements as Obj[]).map((e) => e.id as string))]));
+  for (const [id, page] of Object.entries(pages)) {
+    const own = pageElementIds.get(id)!;
+    repairSlots(r, page, `pagesById.${id}`, (eid) => own.has(eid));
+  }
+  repairSlots(r, course, 'course', (eid) => r.elementIds.has(eid));
+  return r.report();
+}
@@ -0,0 +1,177 @@
+// Versioned mapper for persisted triggers (`triggers` localStorage key).
+// v1: bare array mixing two shapes — the wizard's TriggerDef and the legacy runtime shape
+//     (`timeline.event` / `timer.*` / `variable.change` sources, `type`-tagged Actions,
+//     flat `{ lhs, op, rhs }` conditions referencing variables by id).
+// v2: `{ version, triggers }` envelope holding canonical TriggerDef only.
+
+import type { Action } from '../schemas/actions';
+import type {
+  ActionDef,
+  CompareOp,
+  ConditionNode,
+  SourceDef,
+  TriggerDef,
+  TriggerDocument,
+  ValueRef,
+} from '../schemas/triggers';
+import { TRIGGER_SCHEMA_VERSION } from '../schemas/triggers';
+
+export interface TriggerMigrationResult {
+  triggers: TriggerDef[];
+  migrated: boolean;
+  /** Entries that could not be mapped (kept out of the result). */
+  dropped: number;
+}
+
+/** Resolves a legacy variable id to its name; return undefined when unknown. */
+export type VariableNameResolver = (id: string) => string | undefined;
+
+function isObject(v: unknown): v is Record<string, any> { return typeof v === 'object' && v !== null; }
+
+const COMPARE_OPS: CompareOp[] = ['==', '!=', '>', '<', '>=', '<=', 'includes'];
+
+// Legacy shape mappers ---------------------------------------------------------
+function mapLegacySource(src: any, varName: VariableNameResolver): SourceDef | null {
+  if (!isObject(src)) return null;
+  switch (src.kind) {
+    case 'timeline.event':
+      return {
+        kind: 'timeline',
+        event: src.event ?? 'cue',
+        timelineId: src.timelineId || undefined,
+        cueId: src.cueId ?? null,
+        cueName: src.cueName,
+        cueTime: typeof src.cueTime === 'number' ? src.cueTime : undefined,
+      };
+    case 'timer.timeout':
+      return { kind: 'timer', event: 'timeout', delayMs: Number(src.delay) || 0 };
+    case 'timer.interval':
+      return { kind: 'timer', event: 'interval', delayMs: Number(src.interval) || 0 };
+    case 'variable.change': {
+      const name = src.id ? varName(src.id) : src.name;
+      return name ? { kind: 'variable', event: 'change', name } : { kind: 'variable', event: 'change' };
+    }
+    default:
+      return null;
+  }
+}
+
+function mapLegacyOperand(arg: any, varName: VariableNameResolver): ValueRef | null {
+  if (!isObject(arg)) return null;
+  if (arg.type === 'const') return { type: 'value', value: arg.value };
+  if (arg.type === 'variable') {
+    const name = arg.name ?? varName(arg.id);
+    return name ? { type: 'variable', name } : null;
+  }
+  return null;
+}
+
+function mapLegacyConditions(list: any, varName: VariableNameResolver): ConditionNode | null {
+  if (!Array.isArray(list) || list.length === 0) return null;
+  const items: ConditionNode[] = [];
+  for (const c of list) {
+    const left = mapLegacyOperand(c?.lhs, varName);
+    const right = mapLegacyOperand(c?.rhs, varName);
+    if (!left || !right || !COMPARE_OPS.includes(c.op)) continue;
+    items.push({ kind: 'leaf', left, op: c.op, right });
+  }
+  return items.length ? { kind: 'group', logic: 'AND', items } : null;
+}
+
+function mapLegacyAction(a: Action, varName: VariableNameResolver): ActionDef | null {
+  switch (a.type) {
+    case 'log': return { kind: 'log', message: String(a.message ?? '') };
+    case 'playTimeline': return { kind: 'timeline.play', timelineId: a.timelineId || undefined };
+    case 'pauseTimeline': return { kind: 'timeline.pause', timelineId: a.timelineId || undefined };
+    case 'stopTimeline': return { kind: 'timeline.stop', timelineId: a.timelineId || undefined };
+    case 'seekTimeline': return { kind: 'timeline.seek', timelineId: a.timelineId || undefined, ms: Number(a.time) || 0 };
+    case 'setTimelineLoop': return { kind: 'timeline.loop', timelineId: a.timelineId || undefined, loop: !!a.loop };
+    case 'setVariable': {
+      const name = varName(a.id);
+      return name ? { kind: 'variable.set', name, value: a.value } : null;
+    }
+    case 'adjustVariable': {
+      const name = varName(a.id);
+      return name ? { kind: 'variable.adjust', name, by: Number(a.by) || 0 } : null;
+    }
+    default: return null;
+  }
+}
+
+function isLegacyEntry(raw: any): boolean {
+  const k = raw?.source?.kind;
+  if (typeof k === 'string' && k.includes('.')) return true;
+  if (Array.isArray(raw?.conditions)) return true;
+  return Array.isArray(raw?.actions) && raw.actions.some((a: any) => isObject(a) && 'type' in a && !('kind' in a));
+}
+
+function mapLegacyTrigger(raw: any, varName: VariableNameResolver): TriggerDef | null {
+  const source = mapLegacySource(raw.source, varName);
+  if (!source) return null;
+  const actions = (Array.isArray(raw.actions) ? raw.actions : [])
+    .map((a: any) => (isObject(a) && 'kind' in a ? (a as ActionDef) : mapLegacyAction(a, varName)))
+    .filter((a: ActionDef | null): a is ActionDef => !!a);
+  const timelineId = source.kind === 'timeline' ? source.timelineId ?? null : null;
+  return {
+    id: String(raw.id),
+    name: raw.name || (source.kind === 'timeline' && source.cueName ? `Cue: ${source.cueName}` : 'Trigger'),
+    enabled: raw.enabled !== false,
+    scope: timelineId ? 'timeline' : 'global',
+    timelineId,
+    source,
+    conditions: Array.isArray(raw.conditions) ? mapLegacyConditions(raw.conditions, varName) : (raw.conditions ?? null),
+    actions,
+  };
+}
+
+// Canonical entries only need light normalization
+function normalizeTrigger(raw: any): TriggerDef | null {
+  if (!isObject(raw.source) || typeof raw.source.kind !== 'string') return null;
+  return {
+    ...raw,
+    id: String(raw.id),
+    name: String(raw.name ?? 'Trigger'),
+    enabled: raw.enabled !== false,
+    actions: Array.isArray(raw.actions) ? raw.actions : [],
+  } as TriggerDef;
+}
+
+/**
+ * Upgrade whatever is stored under the `triggers` key to the current canonical shape.
+ * Accepts the v1 bare array or a versioned envelope.
+ */
+export function migrateTriggers(raw: unknown, varName: VariableNameResolver = () => undefined): TriggerMigrationResult {
+  let version = 1;
+  let list: unknown[] = [];
+  if (Array.isArray(raw)) {
+    list = raw;
+  } else if (isObject(raw) && Array.isArray(raw.triggers)) {
+    version = Number(raw.version) || 1;
+    list = raw.triggers;
+  } else {
+    return { triggers: [], migrated: raw != null, dropped: 0 };
+  }
+
+  let migrated = version < TRIGGER_SCHEMA_VERSION;
+  let dropped = 0;
+  const out: TriggerDef[] = [];
+  const seen = new Set<string>();
+  for (const entry of list) {
+    if (!isObject(entry) || entry.id == null) { dropped++; continue; }
+    let def: TriggerDef | null;
+    if (isLegacyEntry(entry)) {
+      def = mapLegacyTrigger(entry, varName);
+      migrated = true;
+    } else {
+      def = normalizeTrigger(entry);
+    }
+    if (!def || seen.has(def.id)) { dropped++; continue; }
+    seen.add(def.id);
+    out.push(def);
+  }
+  return { triggers: out, migrated: migrated || dropped > 0, dropped };
+}
+
+export function toTriggerDocument(triggers: TriggerDef[]): TriggerDocument {
+  return { version: TRIGGER_SCHEMA_VERSION, triggers };
+}
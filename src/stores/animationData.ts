@@ -1,41 +1,19 @@
 import { writable, get } from 'svelte/store';
+import type { AnimProperty, EasingName, TimelineKeyframe } from '../lib/schemas/timeline';
 
-export type EasingName = 'linear' | 'easeInOutQuad';
-export type AnimProperty = 'opacity'; // extend later: 'x'|'y'|'scale'|'rotation' etc.
-
-export interface Keyframe {
-  id: string;
-  elementId: string;
-  property: AnimProperty;
-  time: number; // ms
-  value: number; // for now numeric
-  easing: EasingName;
-}
+export type { AnimProperty, EasingName };
+export type Keyframe = TimelineKeyframe;
 
 export type TimelineKeyframes = Record<string, Keyframe[]>; // timelineId -> keyframes
 
-const STORAGE_KEY = 'animationData';
-
-function load(): TimelineKeyframes {
-  if (typeof localStorage === 'undefined') return {};
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? (JSON.parse(raw) as TimelineKeyframes) : {};
-  } catch {
-    return {};
-  }
-}
-function save(obj: TimelineKeyframes) {
-  if (typeof localStorage === 'undefined') return;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-}
-
-const _map = writable<TimelineKeyframes>(load());
-_map.subscribe(save);
+// Persisted inside the project document (see projectDocument.ts)
+const _map = writable<TimelineKeyframes>({});
 
 export const animationData = {
   subscribe: _map.subscribe,
   getForTimeline(timelineId: string): Keyframe[] { return (get(_map)[timelineId] ?? []).slice().sort((a,b)=>a.time-b.time); },
+  /** Swap in another project's keyframes (open / new project). */
+  replaceAll(map: TimelineKeyframes) { _map.set(structuredClone(map)); },
   addKeyframe(timelineId: string, kf: Keyframe) {
     _map.update((m) => { const arr = (m[timelineId] ?? (m[timelineId] = [])); arr.push(kf); return m; });
   },
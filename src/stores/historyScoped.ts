@@ -1,22 +1,33 @@
 import { get, writable } from 'svelte/store';
-import { projectData, currentPageId, currentLessonId, currentModuleId, getPageGeneration } from './project';
-import { queueSave } from '../lib/persistence';
-import type { Page, Lesson, Module } from '../lib/schemas/project';
+import { projectData, currentPageId, currentLessonId, currentModuleId, afterStructureRestore } from './project';
+import { queueSave, queueHistorySave, readPersistedHistory, setHistorySource } from '../lib/persistence';
+import type { Page, Lesson, Module, Course, ProjectData } from '../lib/schemas/project';
 import { deepClone } from '../lib/schemas/project';
 import { addNotification } from './notifications';
 import { timelineData, type TimelineRecord } from './timelineData';
 import { timelineClips } from './timelineClips';
 import { selectedTimelineId } from './timelineData';
+import { commitState, createPatchStack, redoState, undoState, travelTo, setCheckpoint, keepRecent, type PatchEntry, type PatchStack } from '../lib/history/patchStack';
+import { PERSISTED_HISTORY_VERSION, atLiveState, fingerprint, packStack, unpackStack, type PersistedStack } from '../lib/history/persist';
+import { describePatch, type HistorySubject } from '../lib/history/describe';
 
 // Focus scope determines which stack undo/redo targets
-export type FocusScope = 'page' | 'lesson' | 'module' | 'timeline' | 'stage';
+export type FocusScope = 'page' | 'lesson' | 'module' | 'course' | 'timeline' | 'stage';
 export const focusScope = writable<FocusScope>('page');
+/** Bumped whenever any stack changes, so views of the history can refresh. */
+export const historyRevision = writable(0);
+// `stack`: the patch stack that changed, so its saved form gets rebuilt (see Persistence)
+function bumpRevision(stack?: object) {
+  if (stack) packCache.delete(stack);
+  historyRevision.update(n => n + 1);
+  queueHistorySave();
+}
 
-// Ring buffer stack implementation ------------------------------------------------
+// Patch stacks (lib/history/patchStack): one baseline clone per entity plus forward/inverse
+// patches between commits, so a commit costs a diff rather than a deep clone of the page.
 export type CommitCategory = 'transform' | 'structure' | 'style' | 'meta' | 'timeline';
-interface Snapshot<T> { data: T; category: CommitCategory; ts: number; }
-interface Stack<T> { past: Snapshot<T>[]; future: Snapshot<T>[]; limit: number; }
-function createStack<T>(limit = 100): Stack<T> { return { past: [], future: [], limit }; }
+type Stack<T> = PatchStack<T, CommitCategory>;
+const createStack = <T>(limit = 100): Stack<T> => createPatchStack<T, CommitCategory>(limit);
 const SQUASH_WINDOW_MS = 300; // temporal merge window
 
 // Active transform sessions (page-level). While active, transform commits are suppressed until end.
@@ -45,60 +56,49 @@ export function endPageTransform(pageId: string) {
 const pageStacks: Record<string, Stack<Page>> = {};
 const lessonStacks: Record<string, Stack<Lesson>> = {};
 const moduleStacks: Record<string, Stack<Module>> = {};
-const timelineStacks: Record<string, Stack<TimelineRecord>> = {};
+const timelineStacks: Record<string, Stack<TimelineSnapshot>> = {};
 // Combined Stage history (page + timeline)
 type StageSnapshot = { pageId: string; timelineId: string; page: Page; timeline: TimelineRecord; clips: ReturnType<typeof timelineClips.getForTimeline> };
+type TimelineSnapshot = TimelineRecord & { __clips: ReturnType<typeof timelineClips.getForTimeline> };
 const stageStacks: Record<string, Stack<StageSnapshot>> = {};
-// Structure stack captures course.modules ordering and modulesById shallow snapshot
-interface ModuleStructureSnapshot { modulesOrder: { id: string; order: number }[]; modulesById: Record<string, Module>; }
-const moduleStructureStack: Stack<ModuleStructureSnapshot> = createStack<ModuleStructureSnapshot>(30);
+// A page's slots, which projectDocument writes outside history commits. Page and stage history
+// leave them out, and a restore keeps the live ones, so undoing an element edit doesn't take
+// back keyframes, triggers, variables or scripts written since.
+const PAGE_SLOTS = ['timelines', 'triggers', 'variables', 'scripts'] as const;
+function withoutSlots(page: Page): Page {
+  const rest = { ...page };
+  for (const key of PAGE_SLOTS) delete rest[key];
+  return rest;
+}
+function withLiveSlots(page: Page, live: Page | undefined): Page {
+  const out = { ...page };
+  for (const key of PAGE_SLOTS) {
+    if (live?.[key] !== undefined) (out as Record<typeof key, unknown>)[key] = live[key];
+    else delete out[key];
+  }
+  return out;
+}
+// Course structure history: transactions over the outline (see commitCourseStructure)
+interface Outline { modules: Course['modules']; modulesById: Record<string, Module>; lessonsById: Record<string, Lesson>; pageIds: string[]; }
+interface StructureEntry {
+  label: string;
+  before: Outline;
+  after: Outline;
+  /** Pages the edit deleted, restored on undo. */
+  removedPages: Record<string, Page>;
+  /** Pages the edit created; their content is captured on undo so redo brings it back. */
+  addedPages: Record<string, Page | null>;
+  ts: number;
+  checkpoint?: string;
+}
+const courseStack = { past: [] as StructureEntry[], future: [] as StructureEntry[], limit: 50, startCheckpoint: undefined as string | undefined };
+let structureDepth = 0;
 
 // Autosave now delegated to persistence worker via queueSave (partial payloads)
 function scheduleAutosave(scope: 'page' | 'lesson' | 'module' | 'course', payload: any) {
   queueSave({ scope, ...payload, ts: Date.now() });
 }
 
-// Generation / hash tracking to skip redundant commits
-const lastPageGen: Record<string, number> = {};
-const lastPageHash: Record<string, string> = {};
-const lastLessonHash: Record<string, string> = {};
-const lastModuleHash: Record<string, string> = {};
-const lastTimelineHash: Record<string, string> = {};
-const lastStageHash: Record<string, string> = {};
-
-function pageHash(p: Page): string {
-  const parts: any[] = [p.metadata.updatedAt, p.backgroundColor, p.elements.length];
-  for (const el of p.elements) {
-    // Style fingerprint kept lightweight: stringify only shallow style or length-limited slice
-    let styleSig = '';
-    try { styleSig = el.style ? JSON.stringify(el.style) : ''; } catch { styleSig=''; }
-    parts.push(el.id, el.position.x, el.position.y, el.size?.dimensions?.width, el.size?.dimensions?.height, el.rotation, el.opacity, el.visible ? 1 : 0, el.zIndex, styleSig);
-  }
-  return parts.join('|');
-}
-
-function lessonHash(l: Lesson): string {
-  return l.pages.map(r => r.id+':'+r.order).join(',') + '|' + l.metadata.updatedAt;
-}
-function moduleHash(m: Module): string {
-  return m.lessons.map(r => r.id+':'+r.order).join(',') + '|' + m.metadata.updatedAt;
-}
-function timelineHash(t: TimelineRecord): string {
-  const clips = timelineClips.getForTimeline(t.id)
-    .map(c => `${c.id}:${Math.floor(c.start)}-${Math.floor(c.end)}`)
-    .sort()
-    .join('|');
-  const cues = (t.cuePoints ?? [])
-    .map(c=>c.id+':'+Math.floor(c.time)+':' + (c.name||''))
-    .sort()
-    .join(',');
-  return [t.id, Math.floor(t.duration), t.loop ? 1 : 0, cues, clips].join('|');
-}
-
-function stageHash(page: Page, timeline: TimelineRecord): string {
-  return pageHash(page) + '||' + timelineHash(timeline);
-}
-
 // Stage (page + timeline) ------------------------------------------------------
 function getCurrentStageSnapshot(timelineIdOverride?: string): StageSnapshot | null {
   const pid = get(currentPageId); const tid = timelineIdOverride ?? get(selectedTimelineId);
@@ -106,34 +106,29 @@ function getCurrentStageSnapshot(timelineIdOverride?: string): StageSnapshot | n
   const pd = get(projectData);
   const page = pd.pagesById[pid]; if (!page) return null;
   const tl = timelineData.getById(tid); if (!tl) return null;
-  const clips = timelineClips.getForTimeline(tid).map(c => ({ ...c }));
-  return { pageId: pid, timelineId: tid, page: deepClone(page), timeline: deepClone(tl), clips };
+  // No copies needed: the stack diffs against its own baseline
+  return { pageId: pid, timelineId: tid, page: withoutSlots(page), timeline: tl, clips: timelineClips.getForTimeline(tid) };
 }
 
 export function commitStageChange(source: 'page' | 'timeline', category: CommitCategory, timelineIdOverride?: string) {
   const snap = getCurrentStageSnapshot(timelineIdOverride);
   if (!snap) return;
-  const h = stageHash(snap.page, snap.timeline);
-  if (lastStageHash[snap.pageId] === h) return;
   const stack = stageStacks[snap.pageId] ?? (stageStacks[snap.pageId] = createStack<StageSnapshot>());
-  pushSnapshot(stack, snap, category);
-  lastStageHash[snap.pageId] = h;
+  pushState(stack, snap, category, 'stage');
 }
 
 // Commit helpers -----------------------------------------------------------------
-function pushSnapshot<T>(stack: Stack<T>, snap: T, category: CommitCategory) {
-  const now = Date.now();
-  const last = stack.past[stack.past.length - 1];
+// Returns false when the state is unchanged since the last commit
+function pushState<T>(stack: Stack<T>, current: T, category: CommitCategory, subject: HistorySubject): boolean {
   const allowSquash = category !== 'transform' && category !== 'style';
-  if (allowSquash && last && last.category === category && (now - last.ts) < SQUASH_WINDOW_MS) {
-    // Squash: replace last snapshot for non-transform categories
-    last.data = snap;
-    last.ts = now;
-  } else {
-    stack.past.push({ data: snap, category, ts: now });
-    if (stack.past.length > stack.limit) stack.past.splice(0, stack.past.length - stack.limit);
-  }
-  stack.future = []; // clear redo on new divergent commit
+  // Squash: fold into the last patch for non-transform categories
+  const squash = (last: PatchEntry<CommitCategory>) => allowSquash && last.category === category && (Date.now() - last.ts) < SQUASH_WINDOW_MS;
+  if (!commitState(stack, current, category, squash)) return false;
+  // (Re)label the newest entry, which may just have absorbed this change
+  const last = stack.past[stack.past.length - 1];
+  if (last) last.label = describePatch(subject, last, last.category);
+  bumpRevision(stack);
+  return true;
 }
 
 function shallowEqualKeys(a: Record<string, any>, b: Record<string, any>, keys: string[]): boolean {
@@ -247,33 +242,25 @@ export function commitPageChange(pageId: string, category?: CommitCategory, opts
   const pd = get(projectData);
   const page = pd.pagesById[pageId];
   if (!page) return;
-  const gen = getPageGeneration(pageId);
-  const h = pageHash(page);
   // Suppress mid-drag transform commits unless forced at end
   if (category === 'transform' && activeTransformPages.has(pageId) && !opts?.forceTransform) {
-    // Mark that something changed so endPageTransform will commit
-    if (lastPageHash[pageId] !== h) pendingTransformPages.add(pageId);
+    // Mark as pending so endPageTransform commits (an unchanged page then records nothing)
+    pendingTransformPages.add(pageId);
     return;
   }
   // Isolation deferral (any category) until forced end
   if (isolationPages.has(pageId) && !opts?.forceIsolation) {
-    if (lastPageHash[pageId] !== h) pendingIsolationPages.add(pageId);
+    pendingIsolationPages.add(pageId);
     return;
   }
-  if (lastPageGen[pageId] === gen && lastPageHash[pageId] === h) return; // skip unchanged (including forced if identical)
   // If merged stage scope is active, commit into stage stack
   if (get(focusScope) === 'stage') {
     commitStageChange('page', category ?? 'structure');
-    lastPageGen[pageId] = gen; lastPageHash[pageId] = h;
     return;
   }
   const stack = pageStacks[pageId] ?? (pageStacks[pageId] = createStack<Page>());
-  const prev = stack.past[stack.past.length - 1]?.data;
-  const inferred = category ?? inferPageCategory(prev, page);
-  console.log(`Committing page change for ${pageId} with category: ${inferred}`);
-  pushSnapshot(stack, deepClone(page), inferred);
-  console.log(`Snapshot pushed for ${pageId}. Current stack length: ${stack.past.length}`);
-  lastPageGen[pageId] = gen; lastPageHash[pageId] = h;
+  const inferred = category ?? inferPageCategory(stack.base ?? undefined, page);
+  if (!pushState(stack, withoutSlots(page), inferred, 'page')) return; // skip unchanged (including forced if identical)
   scheduleAutosave('page', { pages: { [pageId]: page } });
 }
 
@@ -281,13 +268,9 @@ export function commitLessonChange(lessonId: string, category?: CommitCategory)
   const pd = get(projectData);
   const lesson = pd.lessonsById[lessonId];
   if (!lesson) return;
-  const h = lessonHash(lesson);
-  if (lastLessonHash[lessonId] === h) return;
   const stack = lessonStacks[lessonId] ?? (lessonStacks[lessonId] = createStack<Lesson>());
-  const prev = stack.past[stack.past.length - 1]?.data;
-  const inferred = category ?? inferLessonCategory(prev, lesson);
-  pushSnapshot(stack, deepClone(lesson), inferred);
-  lastLessonHash[lessonId] = h;
+  const inferred = category ?? inferLessonCategory(stack.base ?? undefined, lesson);
+  if (!pushState(stack, lesson, inferred, 'lesson')) return;
   scheduleAutosave('lesson', { lessons: { [lessonId]: lesson } });
 }
 
@@ -295,215 +278,410 @@ export function commitModuleChange(moduleId: string, category?: CommitCategory)
   const pd = get(projectData);
   const mod = pd.modulesById[moduleId];
   if (!mod) return;
-  const h = moduleHash(mod);
-  if (lastModuleHash[moduleId] === h) return;
   const stack = moduleStacks[moduleId] ?? (moduleStacks[moduleId] = createStack<Module>());
-  const prev = stack.past[stack.past.length - 1]?.data;
-  const inferred = category ?? inferModuleCategory(prev, mod);
-  pushSnapshot(stack, deepClone(mod), inferred);
-  lastModuleHash[moduleId] = h;
+  const inferred = category ?? inferModuleCategory(stack.base ?? undefined, mod);
+  if (!pushState(stack, mod, inferred, 'module')) return;
   scheduleAutosave('module', { modules: { [moduleId]: mod } });
 }
 
-export function commitModuleStructure() {
+// Course structure -----------------------------------------------------------------
+// Creating, deleting, moving and reordering modules / lessons / pages spans several entity
+// maps at once, so these edits are recorded as one transaction each: the outline (course
+// module refs, modules, lessons, page ids) before and after, plus the content of pages the
+// edit removed or added. Undo puts a deleted lesson back together with its pages.
+
+function captureOutline(pd: ProjectData): Outline {
+  return { modules: deepClone(pd.course.modules), modulesById: deepClone(pd.modulesById), lessonsById: deepClone(pd.lessonsById), pageIds: Object.keys(pd.pagesById) };
+}
+
+function outlineKey(o: Outline): string {
+  return JSON.stringify([o.modules, o.modulesById, o.lessonsById, [...o.pageIds].sort()]);
+}
+
+/**
+ * Run a structure edit as one course-scope undo step. Nested calls join the outer transaction;
+ * an edit that leaves the outline unchanged records nothing.
+ */
+export function commitCourseStructure<T>(label: string, mutate: () => T): T {
+  if (structureDepth > 0) return mutate();
   const pd = get(projectData);
-  const snap: ModuleStructureSnapshot = {
-    modulesOrder: deepClone(pd.course.modules),
-    modulesById: deepClone(pd.modulesById)
-  };
-  pushSnapshot(moduleStructureStack, snap, 'structure');
-  scheduleAutosave('module', { modules: snap.modulesById, course: { modules: snap.modulesOrder } });
+  const before = captureOutline(pd);
+  const pagesBefore = { ...pd.pagesById };
+  structureDepth++;
+  let result: T;
+  try { result = mutate(); } finally { structureDepth--; }
+  const next = get(projectData);
+  const after = captureOutline(next);
+  if (outlineKey(before) === outlineKey(after)) return result;
+
+  const removedPages: Record<string, Page> = {};
+  for (const [id, page] of Object.entries(pagesBefore)) if (!next.pagesById[id]) removedPages[id] = deepClone(page);
+  const addedPages: Record<string, Page | null> = {};
+  for (const id of after.pageIds) if (!pagesBefore[id]) addedPages[id] = null;
+  courseStack.past.push({ label, before, after, removedPages, addedPages, ts: Date.now() });
+  evictCourse();
+  courseStack.future = [];
+  settleOutline(before, after);
+  bumpRevision();
+  return result;
+}
+
+// Same eviction rule as the patch stacks: never past the oldest pinned state
+function evictCourse() {
+  while (courseStack.past.length > courseStack.limit && !courseStack.startCheckpoint) {
+    courseStack.startCheckpoint = courseStack.past.shift()!.checkpoint;
+  }
+}
+
+// Lesson / module snapshots embed child refs; once the outline changed under them they would
+// resurrect stale refs on undo, so their stacks start over. Then persist the new outline.
+function settleOutline(from: Outline, to: Outline) {
+  for (const id of new Set([...Object.keys(from.modulesById), ...Object.keys(to.modulesById)])) {
+    if (JSON.stringify(from.modulesById[id]?.lessons) === JSON.stringify(to.modulesById[id]?.lessons)) continue;
+    delete moduleStacks[id];
+  }
+  for (const id of new Set([...Object.keys(from.lessonsById), ...Object.keys(to.lessonsById)])) {
+    if (JSON.stringify(from.lessonsById[id]?.pages) === JSON.stringify(to.lessonsById[id]?.pages)) continue;
+    delete lessonStacks[id];
+  }
+  const pd = get(projectData);
+  const gone = (a: string[], b: Record<string, unknown>) => a.filter((id) => !(id in b));
+  const pages: Record<string, Page> = {};
+  for (const id of to.pageIds) if (!from.pageIds.includes(id) && pd.pagesById[id]) pages[id] = pd.pagesById[id];
+  scheduleAutosave('course', {
+    course: pd.course,
+    modules: pd.modulesById,
+    lessons: pd.lessonsById,
+    pages,
+    removed: {
+      modules: gone(Object.keys(from.modulesById), pd.modulesById),
+      lessons: gone(Object.keys(from.lessonsById), pd.lessonsById),
+      pages: gone(from.pageIds, pd.pagesById),
+    },
+  });
+}
+
+// Which modules / lessons exist and their child refs come from `to`. Renames and other
+// metadata edits are recorded on the module / lesson stacks, so entities on both sides keep
+// their live fields; those leaving are captured into `from` first, for the way back.
+function applyOutline(p: ProjectData, from: Outline, to: Outline) {
+  p.course.modules = deepClone(to.modules);
+  p.modulesById = mergeOutline(p.modulesById, from.modulesById, to.modulesById, 'lessons');
+  p.lessonsById = mergeOutline(p.lessonsById, from.lessonsById, to.lessonsById, 'pages');
+}
+
+function mergeOutline<T extends Module | Lesson>(live: Record<string, T>, from: Record<string, T>, to: Record<string, T>, refs: keyof T): Record<string, T> {
+  for (const id of Object.keys(from)) if (!(id in to) && live[id]) from[id] = deepClone(live[id]);
+  const out: Record<string, T> = {};
+  for (const [id, entity] of Object.entries(to)) out[id] = live[id] ? { ...live[id], [refs]: deepClone(entity[refs]) } : deepClone(entity);
+  return out;
+}
+
+function undoCourse() {
+  const entry = courseStack.past.pop(); if (!entry) return;
+  projectData.update(p => {
+    for (const id of Object.keys(entry.addedPages)) {
+      const page = p.pagesById[id];
+      entry.addedPages[id] = page ? deepClone(page) : null;
+      delete p.pagesById[id];
+    }
+    applyOutline(p, entry.after, entry.before);
+    for (const [id, page] of Object.entries(entry.removedPages)) p.pagesById[id] = deepClone(page);
+    return p;
+  });
+  courseStack.future.push(entry);
+  afterStructureRestore();
+  settleOutline(entry.after, entry.before);
+}
+function redoCourse() {
+  const entry = courseStack.future.pop(); if (!entry) return;
+  projectData.update(p => {
+    for (const id of Object.keys(entry.removedPages)) {
+      // Keep edits made to the page while it was restored
+      if (p.pagesById[id]) entry.removedPages[id] = deepClone(p.pagesById[id]);
+      delete p.pagesById[id];
+    }
+    applyOutline(p, entry.before, entry.after);
+    for (const [id, page] of Object.entries(entry.addedPages)) if (page) p.pagesById[id] = deepClone(page);
+    return p;
+  });
+  courseStack.past.push(entry);
+  afterStructureRestore();
+  settleOutline(entry.before, entry.after);
 }
 
 // Undo/Redo ----------------------------------------------------------------------
+// The patch stack behind the active scope (everything but course) and how to put one of its states back
+interface ScopeTarget { stack: Stack<any>; restore: (state: any) => void; }
+
+function restorePage(id: string, page: Page) {
+  let restored = page;
+  projectData.update(p => { restored = p.pagesById[id] = withLiveSlots(page, p.pagesById[id]); return p; });
+  scheduleAutosave('page', { pages: { [id]: restored } });
+}
+function restoreLesson(id: string, lesson: Lesson) {
+  projectData.update(p => { p.lessonsById[id] = lesson; return p; });
+  scheduleAutosave('lesson', { lessons: { [id]: lesson } });
+}
+function restoreModule(id: string, mod: Module) {
+  projectData.update(p => { p.modulesById[id] = mod; return p; });
+  scheduleAutosave('module', { modules: { [id]: mod } });
+}
+function restoreTimeline(id: string, snap: TimelineSnapshot) {
+  timelineData.update(snap);
+  timelineClips.setForTimeline(id, snap.__clips);
+}
+function restoreStage(snap: StageSnapshot) {
+  projectData.update(p => { p.pagesById[snap.pageId] = withLiveSlots(snap.page, p.pagesById[snap.pageId]); return p; });
+  timelineData.update(snap.timeline);
+  timelineClips.setForTimeline(snap.timelineId, snap.clips);
+}
+
+function scopeTarget(scope: FocusScope): ScopeTarget | null {
+  let id: string | null;
+  switch (scope) {
+    case 'page':
+      id = get(currentPageId);
+      return id && pageStacks[id] ? { stack: pageStacks[id], restore: (s: Page) => restorePage(id!, s) } : null;
+    case 'lesson':
+      id = get(currentLessonId);
+      return id && lessonStacks[id] ? { stack: lessonStacks[id], restore: (s: Lesson) => restoreLesson(id!, s) } : null;
+    case 'module':
+      id = get(currentModuleId);
+      return id && moduleStacks[id] ? { stack: moduleStacks[id], restore: (s: Module) => restoreModule(id!, s) } : null;
+    case 'timeline':
+      id = get(selectedTimelineId);
+      return id && timelineStacks[id] ? { stack: timelineStacks[id], restore: (s: TimelineSnapshot) => restoreTimeline(id!, s) } : null;
+    case 'stage':
+      id = get(currentPageId);
+      return id && stageStacks[id] ? { stack: stageStacks[id], restore: restoreStage } : null;
+    default:
+      return null;
+  }
+}
+
 export function canUndo(): boolean {
   const scope = get(focusScope);
-  if (scope === 'page') {
-    const id = get(currentPageId); if (!id) return false; const s = pageStacks[id]; return !!s && s.past.length > 1; // need previous state
-  } else if (scope === 'lesson') {
-    const id = get(currentLessonId); if (!id) return false; const s = lessonStacks[id]; return !!s && s.past.length > 1;
-  } else if (scope === 'module') {
-    const id = get(currentModuleId); if (!id) return false; const s = moduleStacks[id]; return !!s && s.past.length > 1;
-  } else if (scope === 'timeline') {
-    const id = get(selectedTimelineId); if (!id) return false; const s = timelineStacks[id]; return !!s && s.past.length > 1;
-  } else { // stage
-    const pid = get(currentPageId); if (!pid) return false; const s = stageStacks[pid]; return !!s && s.past.length > 1;
-  }
+  if (scope === 'course') return courseStack.past.length > 0;
+  return (scopeTarget(scope)?.stack.past.length ?? 0) > 0;
 }
 
 export function canRedo(): boolean {
   const scope = get(focusScope);
-  if (scope === 'page') {
-    const id = get(currentPageId); if (!id) return false; const s = pageStacks[id]; return !!s && s.future.length > 0;
-  } else if (scope === 'lesson') {
-    const id = get(currentLessonId); if (!id) return false; const s = lessonStacks[id]; return !!s && s.future.length > 0;
-  } else if (scope === 'module') {
-    const id = get(currentModuleId); if (!id) return false; const s = moduleStacks[id]; return !!s && s.future.length > 0;
-  } else if (scope === 'timeline') {
-    const id = get(selectedTimelineId); if (!id) return false; const s = timelineStacks[id]; return !!s && s.future.length > 0;
-  } else { // stage
-    const pid = get(currentPageId); if (!pid) return false; const s = stageStacks[pid]; return !!s && s.future.length > 0;
-  }
+  if (scope === 'course') return courseStack.future.length > 0;
+  return (scopeTarget(scope)?.stack.future.length ?? 0) > 0;
 }
 
 export function undo() {
   const scope = get(focusScope);
-  if (scope === 'page') return undoPage();
-  if (scope === 'lesson') return undoLesson();
-  if (scope === 'module') return undoModule();
-  if (scope === 'timeline') return undoTimeline();
-  return undoStage();
+  const target = scope === 'course' ? null : scopeTarget(scope);
+  if (scope === 'course') undoCourse();
+  else {
+    const state = target && undoState(target.stack);
+    if (state) target.restore(state);
+  }
+  bumpRevision(target?.stack);
 }
 
 export function redo() {
   const scope = get(focusScope);
-  if (scope === 'page') return redoPage();
-  if (scope === 'lesson') return redoLesson();
-  if (scope === 'module') return redoModule();
-  if (scope === 'timeline') return redoTimeline();
-  return redoStage();
-}
-
-function undoPage() {
-  const id = get(currentPageId); if (!id) return;
-  const stack = pageStacks[id]; if (!stack || stack.past.length < 2) return; // need at least current + previous
-  const currentSnap = stack.past.pop(); // remove current state
-  if (currentSnap) stack.future.push(currentSnap); // move to future
-  const target = stack.past[stack.past.length - 1];
-  if (!target) return;
-  projectData.update(p => { p.pagesById[id] = deepClone(target.data); return p; });
-  scheduleAutosave('page', { pages: { [id]: target.data } });
-}
-function redoPage() {
-  const id = get(currentPageId); if (!id) return;
-  const stack = pageStacks[id]; if (!stack || stack.future.length === 0) return;
-  const nextSnap = stack.future.pop()!;
-  projectData.update(p => { p.pagesById[id] = deepClone(nextSnap.data); return p; });
-  stack.past.push(nextSnap); // now this becomes current
-  scheduleAutosave('page', { pages: { [id]: nextSnap.data } });
-}
-
-function undoLesson() {
-  const id = get(currentLessonId); if (!id) return;
-  const stack = lessonStacks[id]; if (!stack || stack.past.length < 2) return;
-  const currentSnap = stack.past.pop();
-  if (currentSnap) stack.future.push(currentSnap);
-  const target = stack.past[stack.past.length - 1]; if (!target) return;
-  projectData.update(p => { p.lessonsById[id] = deepClone(target.data); return p; });
-  scheduleAutosave('lesson', { lessons: { [id]: target.data } });
-}
-function redoLesson() {
-  const id = get(currentLessonId); if (!id) return;
-  const stack = lessonStacks[id]; if (!stack || stack.future.length === 0) return;
-  const nextSnap = stack.future.pop()!;
-  projectData.update(p => { p.lessonsById[id] = deepClone(nextSnap.data); return p; });
-  stack.past.push(nextSnap);
-  scheduleAutosave('lesson', { lessons: { [id]: nextSnap.data } });
-}
-
-function undoModule() {
-  // Module structure stack first
-  if (moduleStructureStack.past.length > 1) {
-    const currentPD = get(projectData);
-    const currentSnap = moduleStructureStack.past.pop();
-    if (currentSnap) moduleStructureStack.future.push(currentSnap);
-    const target = moduleStructureStack.past[moduleStructureStack.past.length - 1];
-    if (!target) return;
-
-    projectData.update(p => { p.course.modules = deepClone(target.data.modulesOrder); p.modulesById = deepClone(target.data.modulesById); return p; });
-    scheduleAutosave('module', { modules: target.data.modulesById, course: { modules: target.data.modulesOrder } });
-    return;
+  const target = scope === 'course' ? null : scopeTarget(scope);
+  if (scope === 'course') redoCourse();
+  else {
+    const state = target && redoState(target.stack);
+    if (state) target.restore(state);
   }
-  const id = get(currentModuleId); if (!id) return;
-  const stack = moduleStacks[id]; if (!stack || stack.past.length < 2) return;
-  const currentSnap = stack.past.pop(); if (currentSnap) stack.future.push(currentSnap);
-  const target = stack.past[stack.past.length - 1]; if (!target) return;
-  projectData.update(p => { p.modulesById[id] = deepClone(target.data); return p; });
-  scheduleAutosave('module', { modules: { [id]: target.data } });
-}
-function redoModule() {
-  if (moduleStructureStack.future.length > 0) {
-    const nextSnap = moduleStructureStack.future.pop()!;
-    projectData.update(p => { p.course.modules = deepClone(nextSnap.data.modulesOrder); p.modulesById = deepClone(nextSnap.data.modulesById); return p; });
-    moduleStructureStack.past.push(nextSnap);
-    scheduleAutosave('module', { modules: nextSnap.data.modulesById, course: { modules: nextSnap.data.modulesOrder } });
-    return;
+  bumpRevision(target?.stack);
+}
+
+// History panel ------------------------------------------------------------------
+// Rows are states, oldest first: row 0 is the oldest state still kept, each further row the
+// state after one entry. Rows past `current` are redoable.
+export interface HistoryRow {
+  position: number;
+  label: string;
+  category: CommitCategory | null;
+  ts: number | null;
+  checkpoint?: string;
+}
+export interface HistoryView { scope: FocusScope; rows: HistoryRow[]; current: number; }
+
+type Row = { label?: string; category?: CommitCategory; ts: number; checkpoint?: string };
+function toRows(past: Row[], future: Row[], startCheckpoint: string | undefined): HistoryRow[] {
+  const entries = [...past, ...[...future].reverse()];
+  return [
+    { position: 0, label: 'Start', category: null, ts: null, checkpoint: startCheckpoint },
+    ...entries.map((e, i) => ({ position: i + 1, label: e.label ?? 'Edit', category: e.category ?? 'structure', ts: e.ts, checkpoint: e.checkpoint })),
+  ];
+}
+
+/** The active scope's history, for the History panel. */
+export function historyView(): HistoryView {
+  const scope = get(focusScope);
+  if (scope === 'course') {
+    return { scope, rows: toRows(courseStack.past, courseStack.future, courseStack.startCheckpoint), current: courseStack.past.length };
+  }
+  const stack = scopeTarget(scope)?.stack;
+  if (!stack) return { scope, rows: [], current: 0 };
+  return { scope, rows: toRows(stack.past, stack.future, stack.startCheckpoint), current: stack.past.length };
+}
+
+/** Jump the active scope to the state at `position` (see HistoryView). */
+export function jumpToHistory(position: number) {
+  const scope = get(focusScope);
+  if (scope === 'course') {
+    // Structure entries restore several maps at once; step through them
+    while (courseStack.past.length > position && courseStack.past.length) undoCourse();
+    while (courseStack.past.length < position && courseStack.future.length) redoCourse();
+  } else {
+    const target = scopeTarget(scope);
+    const state = target && travelTo(target.stack, position);
+    if (state) target.restore(state);
+    return bumpRevision(target?.stack);
   }
-  const id = get(currentModuleId); if (!id) return;
-  const stack = moduleStacks[id]; if (!stack || stack.future.length === 0) return;
-  const nextSnap = stack.future.pop()!;
-  projectData.update(p => { p.modulesById[id] = deepClone(nextSnap.data); return p; });
-  stack.past.push(nextSnap);
-  scheduleAutosave('module', { modules: { [id]: nextSnap.data } });
+  bumpRevision();
+}
+
+/** Pin a named checkpoint on the active scope's state at `position`; null unpins it. Pinned states are never evicted. */
+export function setHistoryCheckpoint(position: number, name: string | null) {
+  const scope = get(focusScope);
+  if (scope === 'course') {
+    const value = name ?? undefined;
+    const total = courseStack.past.length + courseStack.future.length;
+    if (position === 0) courseStack.startCheckpoint = value;
+    else if (position <= courseStack.past.length) courseStack.past[position - 1].checkpoint = value;
+    else if (position <= total) courseStack.future[total - position].checkpoint = value;
+    if (!value) evictCourse();
+  } else {
+    const target = scopeTarget(scope);
+    if (target) setCheckpoint(target.stack, position, name);
+    return bumpRevision(target?.stack);
+  }
+  bumpRevision();
 }
 
 // Timeline history --------------------------------------------------------------
 export function commitTimelineChange(timelineId: string, category: CommitCategory = 'timeline') {
   const rec = timelineData.getById(timelineId);
   if (!rec) return;
-  const h = timelineHash(rec);
-  if (lastTimelineHash[timelineId] === h) return;
   // If merged stage scope is active, commit to stage instead
   if (get(focusScope) === 'stage') {
     commitStageChange('timeline', category, timelineId);
-    lastTimelineHash[timelineId] = h;
     return;
   }
-  const stack = timelineStacks[timelineId] ?? (timelineStacks[timelineId] = createStack<TimelineRecord>());
+  const stack = timelineStacks[timelineId] ?? (timelineStacks[timelineId] = createStack<TimelineSnapshot>());
   // Snapshot consists of timeline record and its clips
-  const snap: any = { ...rec, __clips: timelineClips.getForTimeline(timelineId).map(c => ({ ...c })) };
-  pushSnapshot(stack, snap, category);
-  lastTimelineHash[timelineId] = h;
-}
-
-function undoTimeline() {
-  const id = get(selectedTimelineId); if (!id) return;
-  const stack = timelineStacks[id]; if (!stack || stack.past.length < 2) return;
-  const currentSnap = stack.past.pop(); if (currentSnap) stack.future.push(currentSnap);
-  const target = stack.past[stack.past.length - 1]; if (!target) return;
-  timelineData.update(target.data as TimelineRecord);
-  const clips = (target.data as any).__clips as any[] | undefined;
-  if (clips) timelineClips.setForTimeline(id, clips as any);
-}
-function redoTimeline() {
-  const id = get(selectedTimelineId); if (!id) return;
-  const stack = timelineStacks[id]; if (!stack || stack.future.length === 0) return;
-  const nextSnap = stack.future.pop()!;
-  timelineData.update(nextSnap.data as TimelineRecord);
-  const clips = (nextSnap.data as any).__clips as any[] | undefined;
-  if (clips) timelineClips.setForTimeline(id, clips as any);
-  stack.past.push(nextSnap);
-}
-
-// Stage undo/redo --------------------------------------------------------------
-function undoStage() {
-  const pid = get(currentPageId); if (!pid) return;
-  const stack = stageStacks[pid]; if (!stack || stack.past.length < 2) return;
-  const currentSnap = stack.past.pop(); if (currentSnap) stack.future.push(currentSnap);
-  const target = stack.past[stack.past.length - 1]; if (!target) return;
-  // Restore page
-  projectData.update(p => { p.pagesById[target.data.pageId] = deepClone(target.data.page); return p; });
-  // Restore timeline
-  timelineData.update(deepClone(target.data.timeline));
-  // Restore clips
-  timelineClips.setForTimeline(target.data.timelineId, deepClone(target.data.clips) as any);
-}
-function redoStage() {
-  const pid = get(currentPageId); if (!pid) return;
-  const stack = stageStacks[pid]; if (!stack || stack.future.length === 0) return;
-  const nextSnap = stack.future.pop()!;
-  // Apply page
-  projectData.update(p => { p.pagesById[nextSnap.data.pageId] = deepClone(nextSnap.data.page); return p; });
-  // Apply timeline
-  timelineData.update(deepClone(nextSnap.data.timeline));
-  // Apply clips
-  timelineClips.setForTimeline(nextSnap.data.timelineId, deepClone(nextSnap.data.clips) as any);
-  stack.past.push(nextSnap);
+  pushState(stack, { ...rec, __clips: timelineClips.getForTimeline(timelineId) }, category, 'timeline');
+}
+
+// Persistence --------------------------------------------------------------------
+// Page, lesson and module stacks and the course stack are saved next to the project (packed
+// by lib/history/persist) so undo survives a reload; timeline and stage history is per session.
+const PERSISTED_ENTRIES = 30;
+// Packed form per stack, dropped by bumpRevision when that stack changes
+const packCache = new WeakMap<object, PersistedStack | null>();
+
+interface PersistedCourse { fingerprint: string; past: StructureEntry[]; future: StructureEntry[]; startCheckpoint?: string; }
+interface PersistedHistory {
+  version: number;
+  savedAt: number;
+  pages: Record<string, PersistedStack>;
+  lessons: Record<string, PersistedStack>;
+  modules: Record<string, PersistedStack>;
+  course: PersistedCourse | null;
+}
+
+// Child refs only: renames and other metadata edits don't invalidate structure history
+function outlineRefs(pd: ProjectData) {
+  return [
+    pd.course.modules,
+    Object.values(pd.modulesById).map(m => [m.id, m.lessons]),
+    Object.values(pd.lessonsById).map(l => [l.id, l.pages]),
+    Object.keys(pd.pagesById).sort(),
+  ];
+}
+
+// Fingerprinted against the live entity (`toLive` gives its history form): it is usually
+// one uncommitted edit past the stack's baseline
+function packAll<T>(stacks: Record<string, Stack<T>>, live: Record<string, T>, omit?: readonly string[], toLive: (entity: T) => T = (e) => e): Record<string, PersistedStack> {
+  const out: Record<string, PersistedStack> = {};
+  for (const [id, stack] of Object.entries(stacks)) {
+    if (!live[id]) continue;
+    let packed = packCache.get(stack);
+    if (packed === undefined) { packed = packStack(stack, PERSISTED_ENTRIES, omit); packCache.set(stack, packed); }
+    if (packed) out[id] = atLiveState(packed, stack.base, toLive(live[id]), omit);
+  }
+  return out;
+}
+
+function exportHistory(): PersistedHistory {
+  const pd = get(projectData);
+  const recent = keepRecent(courseStack.past, PERSISTED_ENTRIES, courseStack.startCheckpoint);
+  return {
+    version: PERSISTED_HISTORY_VERSION,
+    savedAt: Date.now(),
+    pages: packAll(pageStacks, pd.pagesById, PAGE_SLOTS, withoutSlots),
+    lessons: packAll(lessonStacks, pd.lessonsById),
+    modules: packAll(moduleStacks, pd.modulesById),
+    course: courseStack.past.length || courseStack.future.length
+      ? { fingerprint: fingerprint(outlineRefs(pd)), past: recent.past, future: courseStack.future.slice(-PERSISTED_ENTRIES), startCheckpoint: recent.startCheckpoint }
+      : null,
+  };
+}
+
+function unpackAll<T>(saved: Record<string, PersistedStack> | undefined, into: Record<string, Stack<T>>, current: Record<string, T>, omit?: readonly string[]) {
+  let dropped = 0;
+  for (const [id, packed] of Object.entries(saved ?? {})) {
+    const stack = current[id] ? unpackStack<T, CommitCategory>(packed as PersistedStack<CommitCategory>, current[id], 100, omit) : null;
+    if (stack) into[id] = stack; else dropped++;
+  }
+  return dropped;
+}
+
+/**
+ * Load the history saved for the open project and start saving it. Call once the project is in
+ * place: at startup, and after another project replaced it (following resetHistory). A new
+ * project passes `load = false`, which also clears whatever was saved under its key.
+ */
+let restoreRun = 0;
+export async function restoreHistory(load = true) {
+  // Saving waits for the stored history, so a save meanwhile can't replace it with an empty one
+  setHistorySource(null);
+  const run = ++restoreRun;
+  const saved = load ? await readPersistedHistory() as PersistedHistory | null : null;
+  if (run !== restoreRun) return; // another project took over while reading
+  setHistorySource(exportHistory);
+  if (!saved || saved.version !== PERSISTED_HISTORY_VERSION) return bumpRevision();
+  const pd = get(projectData);
+  const pages = Object.fromEntries(Object.entries(pd.pagesById).map(([id, page]) => [id, withoutSlots(page)]));
+  let dropped = unpackAll(saved.pages, pageStacks, pages, PAGE_SLOTS)
+    + unpackAll(saved.lessons, lessonStacks, pd.lessonsById)
+    + unpackAll(saved.modules, moduleStacks, pd.modulesById);
+  const course = saved.course;
+  if (course && course.fingerprint === fingerprint(outlineRefs(pd)) && Array.isArray(course.past) && Array.isArray(course.future)) {
+    courseStack.past = course.past;
+    courseStack.future = course.future;
+    courseStack.startCheckpoint = course.startCheckpoint;
+  } else if (course) dropped++;
+  // Saved at a state the project no longer matches (edited elsewhere, or lost between writes)
+  if (dropped) console.info(`[history] ${dropped} saved history stack(s) no longer match the project and were discarded`);
+  bumpRevision();
 }
 
 // Convenience for external components
 export function setFocusScope(scope: FocusScope) { focusScope.set(scope); }
 
+/** Drop every stack, e.g. after another project replaced the open one. */
+export function resetHistory() {
+  for (const stacks of [pageStacks, lessonStacks, moduleStacks, timelineStacks, stageStacks] as Record<string, unknown>[]) {
+    for (const k of Object.keys(stacks)) delete stacks[k];
+  }
+  courseStack.past = [];
+  courseStack.future = [];
+  courseStack.startCheckpoint = undefined;
+  bumpRevision();
+}
+
 // Debug helper
 export function debugHistory() {
   return {
@@ -511,7 +689,7 @@ export function debugHistory() {
     pageStacks: Object.fromEntries(Object.entries(pageStacks).map(([k,v]) => [k,{past:v.past.length,future:v.future.length,lastCat:v.past[v.past.length-1]?.category}])),
     lessonStacks: Object.fromEntries(Object.entries(lessonStacks).map(([k,v]) => [k,{past:v.past.length,future:v.future.length,lastCat:v.past[v.past.length-1]?.category}])),
     moduleStacks: Object.fromEntries(Object.entries(moduleStacks).map(([k,v]) => [k,{past:v.past.length,future:v.future.length,lastCat:v.past[v.past.length-1]?.category}])),
-    moduleStructure: { past: moduleStructureStack.past.length, future: moduleStructureStack.future.length },
+    course: { past: courseStack.past.length, future: courseStack.future.length, last: courseStack.past[courseStack.past.length-1]?.label },
     stageStacks: Object.fromEntries(Object.entries(stageStacks).map(([k,v]) => [k,{past:v.past.length,future:v.future.length,lastCat:v.past[v.past.length-1]?.category}]))
   };
 }
@@ -15,7 +15,8 @@ export type SideNavKey =
     | "cf_map"
     | "assets"
     | "inspector"
-    | "animations";
+    | "animations"
+    | "history";
 export type RightUtilKey = "styles" | "actions";
 
 const isBrowser = typeof window !== "undefined";
@@ -1,4 +1,6 @@
 import { writable } from 'svelte/store';
+import { devOutput } from './devOutput';
+import type { ValidationResult } from '../lib/validation/projectValidation';
 
 /** Unified notification object */
 export interface AppNotification {
@@ -27,3 +29,28 @@ export function clearNotifications() { notifications.set([]); }
 export function notifyLockedMultiSelect() { addNotification('Locked element cannot be added to multi-selection', { type: 'warn' }); }
 export function notifyLockedInteraction() { addNotification('Element is locked', { type: 'warn', ttl: 2500 }); }
 export function notifyHiddenSelection() { addNotification('Element is hidden (visibility off)', { type: 'info', ttl: 2500 }); }
+
+/**
+ * Summarise what happened to a project on load / import: format migrations that ran and the
+ * validation report. Each step and issue is logged to the Output panel.
+ */
+export function notifyProjectLoad(res: ValidationResult, label: string, backedUp = false) {
+  const steps = res.migrations ?? [];
+  const issues = res.report?.issues ?? [];
+  if (!steps.length && !issues.length) return;
+  for (const step of steps) {
+    devOutput.append('info', `Migrated v${step.from} → v${step.to}: ${step.description}`, { source: 'migration' });
+  }
+  for (const issue of issues) {
+    devOutput.append(issue.repaired ? 'info' : 'warn', `${issue.path}: ${issue.message}`, { source: 'validation', code: issue.code });
+  }
+  const parts: string[] = [];
+  if (steps.length) {
+    const to = steps[steps.length - 1].to;
+    parts.push(`upgraded from format v${steps[0].from} to v${to}${backedUp ? ' (original backed up)' : ''}`);
+  }
+  const { repaired = 0, unrepaired = 0 } = res.report ?? {};
+  if (repaired) parts.push(`repaired ${repaired} problem${repaired === 1 ? '' : 's'}`);
+  if (unrepaired) parts.push(`${unrepaired} left as is`);
+  addNotification(`${label}: ${parts.join(', ')} (details in Output)`, { type: unrepaired ? 'warn' : 'info', ttl: 8000 });
+}
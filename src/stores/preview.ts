@@ -0,0 +1,204 @@
+// Preview / play mode: runs the current page the way a learner sees it.
+// Entering preview switches the stage to 'preview', snapshots variable values, and for each page
+// restarts its timeline, re-registers triggers and runs global + page scripts in a fresh sandbox.
+// Script element patches land in an overlay and variable values are held at their preview-start
+// values for the document, so preview never mutates what gets saved.
+
+import { derived, get, writable } from 'svelte/store';
+import { projectData, currentPageId, selectPage, clearSelection } from './project';
+import { pageSequence } from '../lib/schemas/project';
+import { stage, setStage, previewSource, stageInteractive, timelineStageKey } from './stage';
+import { timelines } from './timelines';
+import { timelineData } from './timelineData';
+import { pageTimelineId } from './timelineOrchestrator';
+import { triggersStore } from './triggers';
+import { registerTrigger } from '../lib/runtime/triggers';
+import { scripts, type ScriptDef } from './scripts';
+import { variableDefs, variableValues, snapshotValues, restoreValues } from './variables';
+import { devOutput } from './devOutput';
+import { holdVariableValues } from './projectDocument';
+import { createSandbox, type Sandbox } from '../Terminal/runtime/sandboxClient';
+
+/** Element id -> accumulated script patches applied on top of the document while previewing. */
+export const previewOverlay = writable<Record<string, Record<string, any>>>({});
+
+export const isPreviewing = derived(stage, (s) => s === 'preview');
+
+/** Position of the current page in course reading order. */
+export const previewPosition = derived([projectData, currentPageId], ([$p, $pid]) => {
+  const seq = pageSequence($p);
+  const index = seq.findIndex((x) => x.pageId === $pid);
+  return { index, total: seq.length, hasPrev: index > 0, hasNext: index >= 0 && index < seq.length - 1 };
+});
+
+let initialValues: Record<string, any> | null = null;
+let sandbox: Sandbox | null = null;
+let sessionOffs: Array<() => void> = [];
+
+function mergePatch(target: Record<string, any>, patch: Record<string, any>) {
+  for (const [key, value] of Object.entries(patch ?? {})) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      if (!target[key] || typeof target[key] !== 'object' || Array.isArray(target[key])) target[key] = {};
+      mergePatch(target[key], value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+/** Element with any preview overlay applied (returns the original when untouched). */
+export function withPreviewOverlay<T extends { id: string }>(el: T, overlay: Record<string, Record<string, any>>): T {
+  const patch = overlay[el.id];
+  if (!patch) return el;
+  const next = JSON.parse(JSON.stringify(el));
+  mergePatch(next, patch);
+  return next;
+}
+
+function currentTimelineId(pageId: string) {
+  return pageTimelineId(pageId, timelineStageKey('preview'));
+}
+
+// Scripts share one sandbox run; each is isolated in its own function so one failure
+// does not stop the others, and any returned cleanup functions are chained.
+function composeScripts(list: ScriptDef[]): string {
+  const parts = list.map((s) => [
+    `try {`,
+    `  const __r = (function () {\n${s.code ?? ''}\n  })();`,
+    `  if (typeof __r === 'function') __stops.push(__r);`,
+    `} catch (e) { Mava.error(${JSON.stringify(`[${s.name}]`)}, String((e && e.message) || e)); }`,
+  ].join('\n'));
+  return ['const __stops = [];', ...parts, 'return () => __stops.forEach((f) => { try { f(); } catch {} });'].join('\n');
+}
+
+function scriptsForPage(pageId: string): ScriptDef[] {
+  const all = get(scripts);
+  return [
+    ...all.filter((s) => s.scope === 'global'),
+    ...all.filter((s) => s.scope === 'page' && s.pageId === pageId),
+  ];
+}
+
+function pushVariables(sb: Sandbox) {
+  const vals = get(variableValues);
+  for (const def of get(variableDefs)) {
+    try { sb.setVar(def.name, vals[def.id]); } catch {}
+  }
+}
+
+function stopSession() {
+  while (sessionOffs.length) { const off = sessionOffs.pop(); try { off?.(); } catch {} }
+  if (sandbox) { try { sandbox.stop(); } catch {} }
+  const pid = get(currentPageId);
+  if (pid) timelines.get(currentTimelineId(pid))?.stop();
+}
+
+function startSession() {
+  stopSession();
+  previewOverlay.set({});
+  const pageId = get(currentPageId);
+  if (!pageId) return;
+  const tlId = currentTimelineId(pageId);
+
+  // Timeline from the top; the orchestrator has created the runtime for this page already
+  let tl = timelines.get(tlId);
+  if (!tl) {
+    const rec = timelineData.getById(tlId);
+    if (rec) tl = timelines.create(rec);
+  }
+  // Fresh trigger registrations: timers restart and 'current timeline' triggers bind to this page
+  for (const def of triggersStore.all()) {
+    try { registerTrigger(def); } catch (e) { console.warn('Failed to register trigger', def?.id, e); }
+  }
+
+  const list = scriptsForPage(pageId);
+  if (list.length) {
+    if (!sandbox) sandbox = createSandbox();
+    const sb = sandbox;
+    sessionOffs.push(sb.onLog((level, args) => {
+      const msg = args.map((a) => (typeof a === 'string' ? a : JSON.stringify(a))).join(' ');
+      devOutput.append(level === 'log' ? 'info' : level, msg, { source: 'preview' });
+    }));
+    sessionOffs.push(sb.onEvent((e) => {
+      if (!e) return;
+      const payload = e.payload ?? e;
+      if (e.type === 'runtimeError') {
+        devOutput.append('error', e.message || 'Runtime error', { source: 'preview', stack: e.stack });
+      } else if (e.type === 'elementPatch' && payload?.id && payload?.changes && typeof payload.changes === 'object') {
+        const id = String(payload.id);
+        previewOverlay.update((o) => {
+          const patch = { ...(o[id] ?? {}) };
+          mergePatch(patch, payload.changes);
+          return { ...o, [id]: patch };
+        });
+      } else if (e.type === 'timelineCommand') {
+        const t = timelines.get(tlId);
+        if (payload?.action === 'play') t?.play();
+        else if (payload?.action === 'pause') t?.pause();
+        else if (payload?.action === 'seek') t?.seek(Number(payload.time) || 0);
+      }
+    }));
+    pushVariables(sb);
+    sessionOffs.push(variableValues.subscribe(() => pushVariables(sb)));
+    const page = get(projectData).pagesById[pageId];
+    try { sb.setBuiltin({ project: { title: get(projectData).course?.metadata?.title }, page: { id: pageId, elements: JSON.parse(JSON.stringify(page?.elements ?? [])) } }); } catch {}
+    let raf: number | null = null;
+    let last: number | null = null;
+    const loop = (t: number) => {
+      const dt = last == null ? 0 : t - last;
+      last = t;
+      try { sb.setTime(t, dt); } catch {}
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    sessionOffs.push(() => { if (raf != null) cancelAnimationFrame(raf); });
+    sb.run(composeScripts(list));
+  }
+
+  tl?.seek(0);
+  tl?.play();
+}
+
+export function enterPreview() {
+  if (get(stage) === 'preview') return;
+  initialValues = snapshotValues();
+  // Learner values must not reach the document (autosave, a crash mid-preview)
+  holdVariableValues(initialValues);
+  clearSelection();
+  setStage('preview');
+  stageInteractive.set(true);
+  startSession();
+}
+
+export function exitPreview() {
+  if (get(stage) !== 'preview') return;
+  stopSession();
+  previewOverlay.set({});
+  // Preview must not leave learner state behind in the authored document
+  if (initialValues) restoreValues(initialValues);
+  initialValues = null;
+  holdVariableValues(null);
+  stageInteractive.set(false);
+  setStage(get(previewSource));
+}
+
+/** Restore variables to their values at preview start and replay the current page. */
+export function resetPreview() {
+  if (initialValues) restoreValues(initialValues);
+  startSession();
+}
+
+export function restartPreviewPage() { startSession(); }
+
+function goTo(offset: number) {
+  const seq = pageSequence(get(projectData));
+  const index = seq.findIndex((x) => x.pageId === get(currentPageId));
+  const target = seq[index + offset];
+  if (!target) return;
+  stopSession();
+  selectPage(target.pageId);
+  startSession();
+}
+
+export function previewNext() { goTo(1); }
+export function previewPrev() { goTo(-1); }
@@ -17,13 +17,17 @@
  * runtime mutation semantics and transient indexing structures.
  */
 import { writable, derived, get } from 'svelte/store';
-import { notifyLockedMultiSelect, notifyHiddenSelection } from './notifications';
+import { notifyLockedMultiSelect, notifyHiddenSelection, notifyProjectLoad, addNotification } from './notifications';
 import type { ProjectData, Course, Module, Lesson, Page } from '../lib/schemas/project';
 import { CURRENT_PROJECT_VERSION } from '../lib/schemas/project';
 import { validateAndMigrateProject } from '../lib/validation/projectValidation';
+import { keepMigrationBackup, keepProjectBackup } from '../lib/persistence/migrationBackup';
 import type { Element, ElementType } from '../lib/schemas/element';
-import { commitPageChange, commitLessonChange, commitModuleChange, commitModuleStructure, startPageTransform, endPageTransform, activeTransformPages, pendingTransformPages, startIsolation, endIsolation, type CommitCategory } from './historyScoped';
+import type { AnimProperty } from '../lib/schemas/timeline';
+import { DEFAULT_SHADOW, defaultSizeFor, defaultStyleFor } from '../lib/schemas/elementDefaults';
+import { commitPageChange, commitLessonChange, commitModuleChange, commitCourseStructure, startPageTransform, endPageTransform, activeTransformPages, pendingTransformPages, startIsolation, endIsolation, type CommitCategory } from './historyScoped';
 import { initIdCounters, generateModuleId, generateLessonId, generatePageId, generateElementId } from '../lib/id';
+import { mergeImported, type ImportedContent, type ImportPlacement } from '../lib/persistence/remap';
 import { spatialSettings } from './settings';
 import { visibilitySettings } from './visibility';
 
@@ -62,6 +66,7 @@ function createInitialData(): ProjectData {
         id: 'course-1',
         modules: [{ id: 'module-1', order: 1 }],
         cfNodeIds: [],
+        timelines: {}, triggers: [], variables: [], scripts: [],
         metadata: {
             title: 'Untitled Course', description: '', duration: 0, version: 1,
             createdAt: now, updatedAt: now, lastEditedBy: { userId: 'system', name: 'System' }, publishedAt: 'pending'
@@ -78,7 +83,7 @@ function createInitialData(): ProjectData {
         }
     };
     const page: Page = {
-        id: 'page-1', visible: true, elements: [], backgroundColor: '#ffffff', layouts: {
+        id: 'page-1', visible: true, elements: [], backgroundColor: '#ffffff', timelines: {}, triggers: [], variables: [], scripts: [], layouts: {
             desktop: { stageSize: { width: 1280, height: 720 }, elementProps: {} },
             tablet: { stageSize: { width: 1024, height: 768 }, elementProps: {} },
             mobile: { stageSize: { width: 375, height: 667 }, elementProps: {} }
@@ -612,102 +617,139 @@ export function patchElement(elementId: string, changes: Record<string, any>, op
     });
 }
 
+/** Set (or clear, with an empty source) the expression driving one property of an element. */
+export function setElementExpression(elementId: string, property: AnimProperty, source: string) {
+    const pageId = elementToPage.get(elementId) ?? get(currentPageId);
+    const trimmed = source.trim();
+    let changed = false;
+    projectData.update((p) => {
+        const page = p.pagesById[pageId]; if (!page) return p;
+        page.elements = page.elements.map((el) => {
+            if (el.id !== elementId || el.locked || (el.expressions?.[property] ?? '') === trimmed) return el;
+            const expressions = { ...el.expressions };
+            if (trimmed) expressions[property] = trimmed; else delete expressions[property];
+            changed = true;
+            return { ...el, expressions: Object.keys(expressions).length ? expressions : undefined };
+        });
+        return { ...p };
+    });
+    if (changed) commitPageChange(pageId, 'style');
+}
+
 // ---- Hierarchy creation helpers ----
 export function createModule(): string {
-    commitModuleStructure();
-    let createdId = '';
-    projectData.update((p) => {
-    const id = generateModuleId(); createdId = id;
-        const order = (p.course.modules[p.course.modules.length - 1]?.order ?? 0) + 1;
-        const mod: Module = {
-            id,
-            visible: true,
-            lessons: [],
-            metadata: {
-                title: '', // start empty for inline naming
-                description: '',
-                duration: 0,
-                version: 1,
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-                lastEditedBy: { userId: 'system', name: 'System' }
-            }
-        };
-        p.course.modules.push({ id, order });
-        p.modulesById[id] = mod;
-        // focus selection on the new module
-        currentModuleId.set(id);
-        return p;
+    return commitCourseStructure('New module', () => {
+        let createdId = '';
+        projectData.update((p) => {
+        const id = generateModuleId(); createdId = id;
+            const order = (p.course.modules[p.course.modules.length - 1]?.order ?? 0) + 1;
+            const mod: Module = {
+                id,
+                visible: true,
+                lessons: [],
+                metadata: {
+                    title: '', // start empty for inline naming
+                    description: '',
+                    duration: 0,
+                    version: 1,
+                    createdAt: Date.now(),
+                    updatedAt: Date.now(),
+                    lastEditedBy: { userId: 'system', name: 'System' }
+                }
+            };
+            p.course.modules.push({ id, order });
+            p.modulesById[id] = mod;
+            // focus selection on the new module
+            currentModuleId.set(id);
+            return p;
+        });
+        return createdId;
     });
-    return createdId;
 }
 
 export function createLesson(moduleId: string): string | null {
-    commitModuleChange(moduleId);
-    let createdId: string | null = null;
-    projectData.update((p) => {
-        const mod = p.modulesById[moduleId];
-        if (!mod) return p;
-    const id = generateLessonId(); createdId = id;
-        const order = (mod.lessons[mod.lessons.length - 1]?.order ?? 0) + 1;
-        const lesson: Lesson = {
-            id,
-            type: 'activity',
-            visible: true,
-            pages: [],
-            metadata: {
-                title: '', // start empty for inline naming
-                duration: 0,
-                version: 1,
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-                lastEditedBy: { userId: 'system', name: 'System' }
-            }
-        };
-        mod.lessons.push({ id, order });
-        p.lessonsById[id] = lesson;
-        currentModuleId.set(moduleId);
-        currentLessonId.set(id);
-        return p;
+    return commitCourseStructure('New lesson', () => {
+        let createdId: string | null = null;
+        projectData.update((p) => {
+            const mod = p.modulesById[moduleId];
+            if (!mod) return p;
+        const id = generateLessonId(); createdId = id;
+            const order = (mod.lessons[mod.lessons.length - 1]?.order ?? 0) + 1;
+            const lesson: Lesson = {
+                id,
+                type: 'activity',
+                visible: true,
+                pages: [],
+                metadata: {
+                    title: '', // start empty for inline naming
+                    duration: 0,
+                    version: 1,
+                    createdAt: Date.now(),
+                    updatedAt: Date.now(),
+                    lastEditedBy: { userId: 'system', name: 'System' }
+                }
+            };
+            mod.lessons.push({ id, order });
+            p.lessonsById[id] = lesson;
+            currentModuleId.set(moduleId);
+            currentLessonId.set(id);
+            return p;
+        });
+        return createdId;
     });
-    return createdId;
 }
 
 export function createPage(lessonId: string): string | null {
-    commitLessonChange(lessonId);
-    let createdId: string | null = null;
-    projectData.update((p) => {
-        const les = p.lessonsById[lessonId];
-        if (!les) return p;
-    const id = generatePageId(); createdId = id;
-        const order = (les.pages[les.pages.length - 1]?.order ?? 0) + 1;
-        const page: Page = {
-            id,
-            visible: true,
-            elements: [],
-            backgroundColor: '#ffffff',
-            layouts: {
-                desktop: { stageSize: { width: 1280, height: 720 }, elementProps: {} },
-                tablet: { stageSize: { width: 1024, height: 768 }, elementProps: {} },
-                mobile: { stageSize: { width: 375, height: 667 }, elementProps: {} },
-            },
-            metadata: {
-                title: '', // start empty for inline naming
-                duration: 0,
-                version: 1,
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-                lastEditedBy: { userId: 'system', name: 'System' }
-            }
-        };
-        les.pages.push({ id, order });
-        p.pagesById[id] = page;
-        currentLessonId.set(lessonId);
-        currentPageId.set(id);
-    pageGeneration[id] = 0;
-        return p;
+    return commitCourseStructure('New page', () => {
+        let createdId: string | null = null;
+        projectData.update((p) => {
+            const les = p.lessonsById[lessonId];
+            if (!les) return p;
+        const id = generatePageId(); createdId = id;
+            const order = (les.pages[les.pages.length - 1]?.order ?? 0) + 1;
+            const page: Page = {
+                id,
+                visible: true,
+                elements: [],
+                backgroundColor: '#ffffff',
+                layouts: {
+                    desktop: { stageSize: { width: 1280, height: 720 }, elementProps: {} },
+                    tablet: { stageSize: { width: 1024, height: 768 }, elementProps: {} },
+                    mobile: { stageSize: { width: 375, height: 667 }, elementProps: {} },
+                },
+                metadata: {
+                    title: '', // start empty for inline naming
+                    duration: 0,
+                    version: 1,
+                    createdAt: Date.now(),
+                    updatedAt: Date.now(),
+                    lastEditedBy: { userId: 'system', name: 'System' }
+                }
+            };
+            les.pages.push({ id, order });
+            p.pagesById[id] = page;
+            currentLessonId.set(lessonId);
+            currentPageId.set(id);
+        pageGeneration[id] = 0;
+            return p;
+        });
+        return createdId;
+    });
+}
+
+/**
+ * Add content copied from another project (see lib/persistence/remap) at `at` as one structure
+ * edit. Undo takes the modules, lessons and pages out again; course-wide timelines, triggers,
+ * variables and scripts that came with it stay.
+ */
+export function insertImportedContent(content: ImportedContent, label = 'Import', at: ImportPlacement = {}) {
+    commitCourseStructure(label, () => {
+        projectData.update((p) => {
+            mergeImported(p, content, at);
+            rebuildIndexes(p);
+            return p;
+        });
     });
-    return createdId;
 }
 
 // --- Rename operations (VS Code style inline rename) ---------------------------
@@ -728,241 +770,245 @@ export function renamePage(pageId: string, title: string) {
 // --- Reorder operations ---------------------------------------------------------
 export function reorderModules(srcId: string, destId: string, before: boolean) {
     if (srcId === destId) return;
-    commitModuleStructure();
-    projectData.update(p => {
-        const arr = p.course.modules;
-        const si = arr.findIndex(r => r.id === srcId);
-        const di = arr.findIndex(r => r.id === destId);
-        if (si === -1 || di === -1) return p;
-        const [item] = arr.splice(si,1);
-        let insertIndex = di + (before ? 0 : 1);
-        if (si < di) insertIndex--; // adjust after removal
-        if (insertIndex < 0) insertIndex = 0; if (insertIndex > arr.length) insertIndex = arr.length;
-        arr.splice(insertIndex,0,item);
-        arr.forEach((r,i)=> r.order = i+1);
-        return p;
+    commitCourseStructure('Reorder modules', () => {
+        projectData.update(p => {
+            const arr = p.course.modules;
+            const si = arr.findIndex(r => r.id === srcId);
+            const di = arr.findIndex(r => r.id === destId);
+            if (si === -1 || di === -1) return p;
+            const [item] = arr.splice(si,1);
+            let insertIndex = di + (before ? 0 : 1);
+            if (si < di) insertIndex--; // adjust after removal
+            if (insertIndex < 0) insertIndex = 0; if (insertIndex > arr.length) insertIndex = arr.length;
+            arr.splice(insertIndex,0,item);
+            arr.forEach((r,i)=> r.order = i+1);
+            return p;
+        });
     });
 }
 
 export function reorderLessons(moduleId: string, srcLessonId: string, destLessonId: string, before: boolean) {
     if (srcLessonId === destLessonId) return;
-    commitModuleChange(moduleId);
-    projectData.update(p => {
-        const mod = p.modulesById[moduleId]; if (!mod) return p;
-        const arr = mod.lessons;
-        const si = arr.findIndex(r => r.id === srcLessonId);
-        const di = arr.findIndex(r => r.id === destLessonId);
-        if (si === -1 || di === -1) return p;
-        const [item] = arr.splice(si,1);
-        let insertIndex = di + (before ? 0 : 1);
-        if (si < di) insertIndex--;
-        if (insertIndex < 0) insertIndex = 0; if (insertIndex > arr.length) insertIndex = arr.length;
-        arr.splice(insertIndex,0,item);
-        arr.forEach((r,i)=> r.order = i+1);
-        return p;
+    commitCourseStructure('Reorder lessons', () => {
+        projectData.update(p => {
+            const mod = p.modulesById[moduleId]; if (!mod) return p;
+            const arr = mod.lessons;
+            const si = arr.findIndex(r => r.id === srcLessonId);
+            const di = arr.findIndex(r => r.id === destLessonId);
+            if (si === -1 || di === -1) return p;
+            const [item] = arr.splice(si,1);
+            let insertIndex = di + (before ? 0 : 1);
+            if (si < di) insertIndex--;
+            if (insertIndex < 0) insertIndex = 0; if (insertIndex > arr.length) insertIndex = arr.length;
+            arr.splice(insertIndex,0,item);
+            arr.forEach((r,i)=> r.order = i+1);
+            return p;
+        });
     });
 }
 export function reorderPages(lessonId: string, srcPageId: string, destPageId: string, before: boolean) {
     if (srcPageId === destPageId) return;
-    commitLessonChange(lessonId);
-    projectData.update(p => {
-        const les = p.lessonsById[lessonId]; if (!les) return p;
-        const arr = les.pages;
-        const si = arr.findIndex(r => r.id === srcPageId);
-        const di = arr.findIndex(r => r.id === destPageId);
-        if (si === -1 || di === -1) return p;
-        const [item] = arr.splice(si,1);
-        let insertIndex = di + (before ? 0 : 1);
-        if (si < di) insertIndex--;
-        if (insertIndex < 0) insertIndex = 0; if (insertIndex > arr.length) insertIndex = arr.length;
-        arr.splice(insertIndex,0,item);
-        arr.forEach((r,i)=> r.order = i+1);
-        return p;
+    commitCourseStructure('Reorder pages', () => {
+        projectData.update(p => {
+            const les = p.lessonsById[lessonId]; if (!les) return p;
+            const arr = les.pages;
+            const si = arr.findIndex(r => r.id === srcPageId);
+            const di = arr.findIndex(r => r.id === destPageId);
+            if (si === -1 || di === -1) return p;
+            const [item] = arr.splice(si,1);
+            let insertIndex = di + (before ? 0 : 1);
+            if (si < di) insertIndex--;
+            if (insertIndex < 0) insertIndex = 0; if (insertIndex > arr.length) insertIndex = arr.length;
+            arr.splice(insertIndex,0,item);
+            arr.forEach((r,i)=> r.order = i+1);
+            return p;
+        });
     });
 }
 
 // Cross-parent moves -------------------------------------------------------------
 export function moveLesson(lessonId: string, targetModuleId: string, destLessonId: string | null, before: boolean) {
-    projectData.update(p => {
-        // locate source module
-        let sourceModuleId: string | null = null;
-        for (const mRef of p.course.modules) {
-            const mod = p.modulesById[mRef.id];
-            if (mod.lessons.some(l => l.id === lessonId)) { sourceModuleId = mod.id; break; }
-        }
-        if (!sourceModuleId) return p;
-        const sourceMod = p.modulesById[sourceModuleId]; const targetMod = p.modulesById[targetModuleId];
-        if (!sourceMod || !targetMod) return p;
-        if (sourceModuleId === targetModuleId && destLessonId) {
-            // same parent case already handled by reorderLessons externally
+    commitCourseStructure('Move lesson', () => {
+        projectData.update(p => {
+            // locate source module
+            let sourceModuleId: string | null = null;
+            for (const mRef of p.course.modules) {
+                const mod = p.modulesById[mRef.id];
+                if (mod.lessons.some(l => l.id === lessonId)) { sourceModuleId = mod.id; break; }
+            }
+            if (!sourceModuleId) return p;
+            const sourceMod = p.modulesById[sourceModuleId]; const targetMod = p.modulesById[targetModuleId];
+            if (!sourceMod || !targetMod) return p;
+            if (sourceModuleId === targetModuleId && destLessonId) {
+                // same parent case already handled by reorderLessons externally
+                return p;
+            }
+            // remove from source
+            const idx = sourceMod.lessons.findIndex(l => l.id === lessonId);
+            if (idx === -1) return p;
+            const [ref] = sourceMod.lessons.splice(idx,1);
+            sourceMod.lessons.forEach((r,i)=> r.order = i+1);
+            // insert into target
+            if (destLessonId) {
+                const ti = targetMod.lessons.findIndex(l => l.id === destLessonId);
+                let insertIndex = ti === -1 ? targetMod.lessons.length : ti + (before ? 0 : 1);
+                if (insertIndex < 0) insertIndex = 0; if (insertIndex > targetMod.lessons.length) insertIndex = targetMod.lessons.length;
+                targetMod.lessons.splice(insertIndex,0,ref);
+            } else {
+                targetMod.lessons.push(ref);
+            }
+            targetMod.lessons.forEach((r,i)=> r.order = i+1);
+            // adjust current selections if needed
+            if (get(currentLessonId) === lessonId) currentModuleId.set(targetModuleId);
             return p;
-        }
-        commitModuleChange(sourceModuleId); if (sourceModuleId !== targetModuleId) commitModuleChange(targetModuleId);
-        // remove from source
-        const idx = sourceMod.lessons.findIndex(l => l.id === lessonId);
-        if (idx === -1) return p;
-        const [ref] = sourceMod.lessons.splice(idx,1);
-        sourceMod.lessons.forEach((r,i)=> r.order = i+1);
-        // insert into target
-        if (destLessonId) {
-            const ti = targetMod.lessons.findIndex(l => l.id === destLessonId);
-            let insertIndex = ti === -1 ? targetMod.lessons.length : ti + (before ? 0 : 1);
-            if (insertIndex < 0) insertIndex = 0; if (insertIndex > targetMod.lessons.length) insertIndex = targetMod.lessons.length;
-            targetMod.lessons.splice(insertIndex,0,ref);
-        } else {
-            targetMod.lessons.push(ref);
-        }
-        targetMod.lessons.forEach((r,i)=> r.order = i+1);
-        // adjust current selections if needed
-        if (get(currentLessonId) === lessonId) currentModuleId.set(targetModuleId);
-        return p;
+        });
     });
 }
 export function movePage(pageId: string, targetLessonId: string, destPageId: string | null, before: boolean) {
-    projectData.update(p => {
-        // locate source lesson
-        let sourceLessonId: string | null = null;
-        for (const [lId, les] of Object.entries(p.lessonsById)) {
-            if (les.pages.some(pr => pr.id === pageId)) { sourceLessonId = lId; break; }
-        }
-        if (!sourceLessonId) return p;
-        const sourceLes = p.lessonsById[sourceLessonId]; const targetLes = p.lessonsById[targetLessonId];
-        if (!sourceLes || !targetLes) return p;
-        if (sourceLessonId === targetLessonId && destPageId) {
-            return p; // same parent handled elsewhere
-        }
-        commitLessonChange(sourceLessonId); if (sourceLessonId !== targetLessonId) commitLessonChange(targetLessonId);
-        const idx = sourceLes.pages.findIndex(pr => pr.id === pageId);
-        if (idx === -1) return p;
-        const [ref] = sourceLes.pages.splice(idx,1);
-        sourceLes.pages.forEach((r,i)=> r.order = i+1);
-        if (destPageId) {
-            const ti = targetLes.pages.findIndex(pr => pr.id === destPageId);
-            let insertIndex = ti === -1 ? targetLes.pages.length : ti + (before ? 0 : 1);
-            if (insertIndex < 0) insertIndex = 0; if (insertIndex > targetLes.pages.length) insertIndex = targetLes.pages.length;
-            targetLes.pages.splice(insertIndex,0,ref);
-        } else {
-            targetLes.pages.push(ref);
-        }
-        targetLes.pages.forEach((r,i)=> r.order = i+1);
-        if (get(currentPageId) === pageId) currentLessonId.set(targetLessonId);
-        return p;
+    commitCourseStructure('Move page', () => {
+        projectData.update(p => {
+            // locate source lesson
+            let sourceLessonId: string | null = null;
+            for (const [lId, les] of Object.entries(p.lessonsById)) {
+                if (les.pages.some(pr => pr.id === pageId)) { sourceLessonId = lId; break; }
+            }
+            if (!sourceLessonId) return p;
+            const sourceLes = p.lessonsById[sourceLessonId]; const targetLes = p.lessonsById[targetLessonId];
+            if (!sourceLes || !targetLes) return p;
+            if (sourceLessonId === targetLessonId && destPageId) {
+                return p; // same parent handled elsewhere
+            }
+            const idx = sourceLes.pages.findIndex(pr => pr.id === pageId);
+            if (idx === -1) return p;
+            const [ref] = sourceLes.pages.splice(idx,1);
+            sourceLes.pages.forEach((r,i)=> r.order = i+1);
+            if (destPageId) {
+                const ti = targetLes.pages.findIndex(pr => pr.id === destPageId);
+                let insertIndex = ti === -1 ? targetLes.pages.length : ti + (before ? 0 : 1);
+                if (insertIndex < 0) insertIndex = 0; if (insertIndex > targetLes.pages.length) insertIndex = targetLes.pages.length;
+                targetLes.pages.splice(insertIndex,0,ref);
+            } else {
+                targetLes.pages.push(ref);
+            }
+            targetLes.pages.forEach((r,i)=> r.order = i+1);
+            if (get(currentPageId) === pageId) currentLessonId.set(targetLessonId);
+            return p;
+        });
     });
 }
 
 // ---- Hierarchy deletion helpers ----
 export function deletePage(pageId: string) {
-    // commit lesson before deletion for undo
-    const lessonId = get(currentLessonId);
-    if (lessonId) commitLessonChange(lessonId);
-    projectData.update((p) => {
-        // find lesson containing the page
-        let parentLessonId: string | null = null;
-        for (const [lId, rawLes] of Object.entries(p.lessonsById)) {
-            const les = rawLes as Lesson;
-            const idx = les.pages.findIndex((r: any) => r.id === pageId);
-            if (idx !== -1) {
-                parentLessonId = lId;
-                les.pages.splice(idx, 1);
-                break;
+    commitCourseStructure('Delete page', () => {
+        projectData.update((p) => {
+            // find lesson containing the page
+            let parentLessonId: string | null = null;
+            for (const [lId, rawLes] of Object.entries(p.lessonsById)) {
+                const les = rawLes as Lesson;
+                const idx = les.pages.findIndex((r: any) => r.id === pageId);
+                if (idx !== -1) {
+                    parentLessonId = lId;
+                    les.pages.splice(idx, 1);
+                    break;
+                }
             }
-        }
-        const page = p.pagesById[pageId];
-        if (page) {
-            // remove element indexes
-            for (const el of page.elements) elementToPage.delete(el.id);
-            delete p.pagesById[pageId];
-            delete pageGeneration[pageId];
-        }
-        if (get(currentPageId) === pageId) {
-            // select first page of that lesson if exists
-            if (parentLessonId) {
-                const les = p.lessonsById[parentLessonId];
-                const next = les.pages[0]?.id;
-                if (next) currentPageId.set(next);
+            const page = p.pagesById[pageId];
+            if (page) {
+                // remove element indexes
+                for (const el of page.elements) elementToPage.delete(el.id);
+                delete p.pagesById[pageId];
+                delete pageGeneration[pageId];
             }
-        }
-        return p;
+            if (get(currentPageId) === pageId) {
+                // select first page of that lesson if exists
+                if (parentLessonId) {
+                    const les = p.lessonsById[parentLessonId];
+                    const next = les.pages[0]?.id;
+                    if (next) currentPageId.set(next);
+                }
+            }
+            return p;
+        });
     });
 }
 
 export function deleteLesson(lessonId: string) {
-    // capture module before change
-    const parentModuleId = get(currentModuleId);
-    if (parentModuleId) commitModuleChange(parentModuleId);
-    projectData.update((p) => {
-        // find module containing the lesson
-        let parentModuleId: string | null = null;
-        for (const [mId, rawMod] of Object.entries(p.modulesById)) {
-            const mod = rawMod as Module;
-            const idx = mod.lessons.findIndex((r: any) => r.id === lessonId);
-            if (idx !== -1) {
-                parentModuleId = mId;
-                mod.lessons.splice(idx, 1);
-                break;
+    commitCourseStructure('Delete lesson', () => {
+        projectData.update((p) => {
+            // find module containing the lesson
+            let parentModuleId: string | null = null;
+            for (const [mId, rawMod] of Object.entries(p.modulesById)) {
+                const mod = rawMod as Module;
+                const idx = mod.lessons.findIndex((r: any) => r.id === lessonId);
+                if (idx !== -1) {
+                    parentModuleId = mId;
+                    mod.lessons.splice(idx, 1);
+                    break;
+                }
             }
-        }
-        const lesson = p.lessonsById[lessonId];
-        if (lesson) {
-            // delete pages under lesson
-            for (const pr of lesson.pages) {
-                const pg = p.pagesById[pr.id];
-                if (pg) {
-                    for (const el of pg.elements) elementToPage.delete(el.id);
-                    delete p.pagesById[pr.id];
-                    delete pageGeneration[pr.id];
+            const lesson = p.lessonsById[lessonId];
+            if (lesson) {
+                // delete pages under lesson
+                for (const pr of lesson.pages) {
+                    const pg = p.pagesById[pr.id];
+                    if (pg) {
+                        for (const el of pg.elements) elementToPage.delete(el.id);
+                        delete p.pagesById[pr.id];
+                        delete pageGeneration[pr.id];
+                    }
                 }
+                delete p.lessonsById[lessonId];
             }
-            delete p.lessonsById[lessonId];
-        }
-        if (get(currentLessonId) === lessonId) {
-            if (parentModuleId) {
-                const mod = p.modulesById[parentModuleId];
-                const next = mod.lessons[0]?.id;
-                if (next) currentLessonId.set(next);
-                const nextPage = next ? p.lessonsById[next]?.pages[0]?.id : undefined;
-                if (nextPage) currentPageId.set(nextPage);
+            if (get(currentLessonId) === lessonId) {
+                if (parentModuleId) {
+                    const mod = p.modulesById[parentModuleId];
+                    const next = mod.lessons[0]?.id;
+                    if (next) currentLessonId.set(next);
+                    const nextPage = next ? p.lessonsById[next]?.pages[0]?.id : undefined;
+                    if (nextPage) currentPageId.set(nextPage);
+                }
             }
-        }
-        return p;
+            return p;
+        });
     });
 }
 
 export function deleteModule(moduleId: string) {
-    commitModuleStructure();
-    projectData.update((p) => {
-        // remove from course.modules
-        const idx = p.course.modules.findIndex((r) => r.id === moduleId);
-        if (idx !== -1) p.course.modules.splice(idx, 1);
-
-        const mod = p.modulesById[moduleId];
-        if (mod) {
-            // delete lessons under module
-            for (const lr of mod.lessons) {
-                const lesson = p.lessonsById[lr.id];
-                if (lesson) {
-                    for (const pr of lesson.pages) {
-                        const pg = p.pagesById[pr.id];
-                        if (pg) {
-                            for (const el of pg.elements) elementToPage.delete(el.id);
-                            delete p.pagesById[pr.id];
-                            delete pageGeneration[pr.id];
+    commitCourseStructure('Delete module', () => {
+        projectData.update((p) => {
+            // remove from course.modules
+            const idx = p.course.modules.findIndex((r) => r.id === moduleId);
+            if (idx !== -1) p.course.modules.splice(idx, 1);
+
+            const mod = p.modulesById[moduleId];
+            if (mod) {
+                // delete lessons under module
+                for (const lr of mod.lessons) {
+                    const lesson = p.lessonsById[lr.id];
+                    if (lesson) {
+                        for (const pr of lesson.pages) {
+                            const pg = p.pagesById[pr.id];
+                            if (pg) {
+                                for (const el of pg.elements) elementToPage.delete(el.id);
+                                delete p.pagesById[pr.id];
+                                delete pageGeneration[pr.id];
+                            }
                         }
+                        delete p.lessonsById[lr.id];
                     }
-                    delete p.lessonsById[lr.id];
                 }
+                delete p.modulesById[moduleId];
             }
-            delete p.modulesById[moduleId];
-        }
-        if (get(currentModuleId) === moduleId) {
-            const next = p.course.modules[0]?.id;
-            if (next) currentModuleId.set(next);
-            const nextLesson = next ? p.modulesById[next]?.lessons[0]?.id : undefined;
-            if (nextLesson) currentLessonId.set(nextLesson);
-            const nextPage = nextLesson ? p.lessonsById[nextLesson]?.pages[0]?.id : undefined;
-            if (nextPage) currentPageId.set(nextPage);
-        }
-        return p;
+            if (get(currentModuleId) === moduleId) {
+                const next = p.course.modules[0]?.id;
+                if (next) currentModuleId.set(next);
+                const nextLesson = next ? p.modulesById[next]?.lessons[0]?.id : undefined;
+                if (nextLesson) currentLessonId.set(nextLesson);
+                const nextPage = nextLesson ? p.lessonsById[nextLesson]?.pages[0]?.id : undefined;
+                if (nextPage) currentPageId.set(nextPage);
+            }
+            return p;
+        });
     });
 }
 
@@ -1031,46 +1077,16 @@ function defaultElementByType(type: ElementType): Omit<Element, 'id'> {
         name: type.charAt(0).toUpperCase() + type.slice(1),
         type,
         position: pos,
-        size: { dimensions: { width: 120, height: 80 }, locked: false },
-        shadow: { color: 'rgba(0,0,0,0.15)', offsetX: 0, offsetY: 2, blur: 6 },
+        size: { dimensions: defaultSizeFor(type), locked: false },
+        shadow: { ...DEFAULT_SHADOW },
         rotation: 0,
         opacity: 1,
         visible: true,
         zIndex: 1
     };
-    switch (type) {
-        case 'rectangle':
-            common.size.dimensions = { width: 160, height: 100 };
-            common.style = { strokeColor: '#1f2937', fillColor: '#3b82f6', strokeWidth: 1, strokeStyle: 'solid', padding: { top:0,right:0,bottom:0,left:0 }, borderRadius: { dimensions: { topLeft:4, topRight:4, bottomRight:4, bottomLeft:4 }, locked: true } };
-            break;
-        case 'ellipse':
-            common.size.dimensions = { width: 100, height: 100 };
-            common.style = { strokeColor: '#1f2937', fillColor: '#f59e0b', strokeWidth: 1, strokeStyle: 'solid', padding: { top:0,right:0,bottom:0,left:0 }, borderRadius: { dimensions: { topLeft:50, topRight:50, bottomRight:50, bottomLeft:50 }, locked: true } };
-            break;
-        case 'line':
-            common.size.dimensions = { width: 180, height: 4 };
-            common.style = { strokeColor: '#1f2937', strokeWidth: 2, strokeStyle: 'solid' };
-            break;
-        case 'text':
-            common.size.dimensions = { width: 220, height: 60 };
-            common.style = { fontSize: 18, fontFamily: 'Inter, system-ui, sans-serif', color: '#111827', textAlign: 'left', fontWeight: 'normal', placement: 'top', highlight: { color: '#ffff00', start: 0, end: 0 }, content: 'New Text' };
-            break;
-        case 'image':
-            common.size.dimensions = { width: 200, height: 140 };
-            common.style = { src: '', alt: 'Image', fit: 'cover', borderRadius: 4, opacity: 1, filters: { brightness:100, contrast:100, grayscale:0, blur:0 } };
-            break;
-        case 'hotspot':
-            common.size.dimensions = { width: 120, height: 80 };
-            common.style = { strokeColor: '#dc2626', fillColor: 'rgba(220,38,38,0.15)', strokeWidth: 1, strokeStyle: 'dashed', padding: { top:0,right:0,bottom:0,left:0 }, borderRadius: { dimensions: { topLeft:4, topRight:4, bottomRight:4, bottomLeft:4 }, locked: true } };
-            break;
-        case 'collection':
-            common.size.dimensions = { width: 240, height: 160 };
-            common.style = { strokeColor: '#0f172a', fillColor: '#e2e8f0', strokeWidth: 2, strokeStyle: 'solid', padding: { top:4,right:4,bottom:4,left:4 }, borderRadius: { dimensions: { topLeft:6, topRight:6, bottomRight:6, bottomLeft:6 }, locked: true } };
-            common.elements = [];
-            break;
-        default:
-            break;
-    }
+    const style = defaultStyleFor(type);
+    if (Object.keys(style).length) common.style = style;
+    if (type === 'collection') common.elements = [];
     return common;
 }
 
@@ -1735,20 +1751,38 @@ export function scaleCollection(collectionId: string, newW: number, newH: number
     });
 }
 
+/**
+ * The project in localStorage could not be opened at boot and the studio started blank;
+ * openSavedProject then keeps autosave off so the blank project doesn't replace it.
+ */
+export let storedProjectRefused = false;
+
 // Load saved project if available (was inside legacy history manager)
 // Re-run validation load path manually
 if (typeof window !== 'undefined') {
     try {
         const raw = localStorage.getItem(STORAGE_KEY);
         if (raw) {
-            const parsed = JSON.parse(raw);
-            const result = validateAndMigrateProject(parsed);
+            let parsed: unknown = raw;
+            let result: ReturnType<typeof validateAndMigrateProject>;
+            try {
+                parsed = JSON.parse(raw);
+                result = validateAndMigrateProject(parsed);
+            } catch (e) {
+                result = { ok: false, error: e instanceof Error ? e.message : String(e) };
+            }
             if (result.ok && result.data) {
                 const pd = result.data;
+                keepMigrationBackup(result, 'Saved project').then((kept) => notifyProjectLoad(result, 'Saved project', kept));
                 normalizeLegacyIds(pd);
                 projectData.set(pd);
                 rebuildIndexes(pd);
                 initIdCounters(pd);
+            } else {
+                // Starting blank: keep the stored document so the next autosave doesn't lose it
+                storedProjectRefused = true;
+                keepProjectBackup({ source: 'Saved project', fromVersion: result.fromVersion ?? NaN, savedAt: Date.now(), steps: [], document: parsed })
+                    .then((kept) => addNotification(`Saved project could not be opened: ${result.error}${kept ? ' A copy was kept as a backup.' : ''} Autosave is off until you create or open a project.`, { type: 'error', ttl: 0 }));
             }
         }
     } catch (e) { console.warn('Initial load failed', e); }
@@ -1761,6 +1795,52 @@ if (typeof window !== 'undefined') {
     initIdCounters(pd);
 }
 
+/**
+ * Replace the open project wholesale (project file open / new project). `pd` must already be
+ * validated; pass nothing to start from the blank scaffold. Navigation moves to the first page
+ * and selection / isolation state is dropped since it referred to the previous project.
+ */
+export function loadProject(pd: ProjectData = createInitialData()) {
+    normalizeLegacyIds(pd);
+    clearSelection();
+    activeCollectionId.set(null);
+    projectData.set(pd);
+    rebuildIndexes(pd);
+    initIdCounters(pd);
+    const mid = [...pd.course.modules].sort((a, b) => a.order - b.order)[0]?.id ?? '';
+    const lid = mid ? [...pd.modulesById[mid].lessons].sort((a, b) => a.order - b.order)[0]?.id ?? '' : '';
+    const pid = lid ? [...pd.lessonsById[lid].pages].sort((a, b) => a.order - b.order)[0]?.id ?? '' : '';
+    currentModuleId.set(mid);
+    currentLessonId.set(lid);
+    currentPageId.set(pid);
+}
+
+/**
+ * Re-derive indexes after course-scope undo/redo swapped modules / lessons / pages, and move
+ * navigation off anything that no longer exists (keeping what still does).
+ */
+export function afterStructureRestore() {
+    const pd = get(projectData);
+    for (const pid of Object.keys(pageGeneration)) if (!pd.pagesById[pid]) delete pageGeneration[pid];
+    rebuildIndexes(pd);
+    const first = (refs: { id: string; order: number }[] | undefined) => [...(refs ?? [])].sort((a, b) => a.order - b.order)[0]?.id ?? '';
+    const lessonOf = (pageId: string) => Object.values(pd.lessonsById).find(l => l.pages.some(r => r.id === pageId))?.id ?? '';
+    const moduleOf = (lessonId: string) => Object.values(pd.modulesById).find(m => m.lessons.some(r => r.id === lessonId))?.id ?? '';
+    // Walk up from the current page (it may have moved), else fall back level by level
+    let pid = get(currentPageId);
+    let lid = pid ? lessonOf(pid) : '';
+    if (!lid) { pid = ''; lid = moduleOf(get(currentLessonId)) ? get(currentLessonId) : ''; }
+    let mid = lid ? moduleOf(lid) : '';
+    if (!mid) mid = pd.course.modules.some(r => r.id === get(currentModuleId)) ? get(currentModuleId) : first(pd.course.modules);
+    if (!lid) lid = first(pd.modulesById[mid]?.lessons);
+    if (!pid) pid = first(pd.lessonsById[lid]?.pages);
+    if (get(currentModuleId) !== mid) currentModuleId.set(mid);
+    if (get(currentLessonId) !== lid) currentLessonId.set(lid);
+    if (get(currentPageId) !== pid) currentPageId.set(pid);
+    const sel = get(selectedElementIds);
+    if ([...sel].some(id => !elementToPage.has(id))) clearSelection();
+}
+
 // Lazy legacy ID migration (runs on access / startup) ---------------------------------
 function normalizeLegacyIds(p: ProjectData) {
     const modIdMap: Record<string,string> = {};
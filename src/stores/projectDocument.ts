@@ -0,0 +1,188 @@
+/**
+ * projectDocument.ts
+ * ----------------------------------------------------------------------------
+ * Keeps the studio stores (timelines, clips, keyframes, triggers, variables, scripts) and the
+ * StudioSlots inside ProjectData in step, so the document is the single thing that gets
+ * validated, saved, exported and snapshotted by history.
+ *  - Store edits are written back into the course / page slots (debounced) and queued for
+ *    autosave like any other page change.
+ *  - When the document changes underneath the stores (undo/redo restoring a page, a project
+ *    being opened) the stores are re-hydrated from it.
+ *  - On first run after the v2 schema, state left in the old per-store localStorage keys is
+ *    folded into the document and the keys are removed.
+ */
+import { get } from 'svelte/store';
+import { projectData, loadProject, storedProjectRefused } from './project';
+import { timelineData } from './timelineData';
+import { timelineClips } from './timelineClips';
+import { animationData } from './animationData';
+import { triggersStore } from './triggers';
+import { replaceVariables, listAll, snapshotValues, variableDefs, variableValues } from './variables';
+import { scripts } from './scripts';
+import { queueSave } from '../lib/persistence';
+import type { ProjectData, StudioSlots, Page } from '../lib/schemas/project';
+import { assignSlots, foldLegacyStudioState, joinStudioState, splitStudioState, type LegacyStudioState, type StudioState } from '../lib/persistence/studioState';
+
+const PROJECT_KEY = 'studioProjectData';
+const LEGACY_KEYS = { timelines: 'timelineData', clips: 'timelineClips', keyframes: 'animationData', triggers: 'triggers', variables: 'studioVariables.v1' } as const;
+const WRITE_DELAY = 50;
+
+// What we last wrote (or hydrated) per owner ('course' or a page id): the slot objects by
+// reference for the cheap check, and their JSON for when references changed but content didn't.
+interface Written { refs: unknown[]; json: string }
+const written = new Map<string, Written>();
+let hydrating = false;
+let writing = false;
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+// Variable values written to the document while set (preview: learner values stay out of it)
+let heldValues: Record<string, any> | null = null;
+
+const slotRefs = (s: StudioSlots) => [s.timelines, s.triggers, s.variables, s.scripts];
+const slotJson = (s: StudioSlots) => JSON.stringify([s.timelines ?? {}, s.triggers ?? [], s.variables ?? [], s.scripts ?? []]);
+
+const EMPTY_JSON = slotJson({});
+
+function remember(owner: string, slots: StudioSlots) {
+  written.set(owner, { refs: slotRefs(slots), json: slotJson(slots) });
+}
+
+function owners(pd: ProjectData): [string, StudioSlots][] {
+  return [['course', pd.course], ...Object.entries(pd.pagesById)];
+}
+
+function currentState(): StudioState {
+  return {
+    timelines: timelineData.getAll(),
+    clips: get(timelineClips),
+    keyframes: get(animationData),
+    triggers: triggersStore.all(),
+    variables: { defs: listAll(), values: heldValues ?? snapshotValues() },
+    scripts: get(scripts),
+  };
+}
+
+/** Replace the studio stores with the state stored in `pd`. */
+export function hydrateStudioStores(pd: ProjectData) {
+  if (writeTimer) { clearTimeout(writeTimer); writeTimer = null; }
+  const state = joinStudioState(pd);
+  hydrating = true;
+  try {
+    // Variables first: triggers and scripts resolve names against them as they register
+    replaceVariables(state.variables.defs, state.variables.values);
+    timelineData.replaceAll(state.timelines);
+    timelineClips.replaceAll(state.clips);
+    animationData.replaceAll(state.keyframes);
+    triggersStore.replaceAll(state.triggers);
+    scripts.set(state.scripts);
+  } finally {
+    hydrating = false;
+  }
+  written.clear();
+  for (const [owner, slots] of owners(pd)) remember(owner, slots);
+}
+
+/** Open `pd` (already validated) as the current project, stores first so nothing sees a mix. */
+export function openDocument(pd: ProjectData) {
+  hydrateStudioStores(pd);
+  writing = true; // the document already holds this state; skip the echo check
+  try { loadProject(pd); } finally { writing = false; }
+  for (const [owner, slots] of owners(get(projectData))) remember(owner, slots);
+}
+
+/**
+ * Write `values` instead of the live variable values until called with null. Preview holds the
+ * authored values so autosave, save and export never persist what the learner changed.
+ */
+export function holdVariableValues(values: Record<string, any> | null) {
+  heldValues = values ? { ...values } : null;
+}
+
+/** Write pending store edits into the document now (e.g. right before a save or export). */
+export function flushStudioState() {
+  if (writeTimer) { clearTimeout(writeTimer); writeTimer = null; }
+  const pd = get(projectData);
+  const split = splitStudioState(pd, currentState());
+  const changedPages: Record<string, Page> = {};
+  let courseChanged = false;
+  const targets: [string, StudioSlots, Required<StudioSlots>][] = [
+    ['course', pd.course, split.course],
+    ...Object.entries(split.pages).map(([id, slots]) => [id, pd.pagesById[id], slots] as [string, StudioSlots, Required<StudioSlots>]),
+  ];
+  for (const [owner, target, slots] of targets) {
+    if (written.get(owner)?.json === slotJson(slots)) continue;
+    assignSlots(target, slots);
+    remember(owner, target);
+    if (owner === 'course') courseChanged = true;
+    else changedPages[owner] = target as Page;
+  }
+  if (!courseChanged && !Object.keys(changedPages).length) return;
+  writing = true;
+  try { projectData.set(pd); } finally { writing = false; }
+  queueSave({
+    scope: courseChanged ? 'course' : 'page',
+    ...(courseChanged ? { course: pd.course } : {}),
+    ...(Object.keys(changedPages).length ? { pages: changedPages } : {}),
+    ts: Date.now(),
+  });
+}
+
+function scheduleWrite() {
+  if (hydrating) return;
+  if (writeTimer) clearTimeout(writeTimer);
+  writeTimer = setTimeout(flushStudioState, WRITE_DELAY);
+}
+
+// The document changed without us: re-hydrate when any owner's slots differ from what we know
+function onDocumentChange(pd: ProjectData) {
+  if (writing || hydrating) return;
+  const list = owners(pd);
+  // A page was deleted (or restored away by undo): its timelines etc. must leave the stores
+  let external = [...written.keys()].some((o) => o !== 'course' && !pd.pagesById[o]);
+  for (const [owner, slots] of list) {
+    if (external) break;
+    const prev = written.get(owner);
+    const refs = slotRefs(slots);
+    if (prev && refs.every((r, i) => r === prev.refs[i])) continue;
+    const json = slotJson(slots);
+    // New pages arrive with empty (or no) slots; nothing to hydrate
+    if (prev ? prev.json === json : json === EMPTY_JSON) { written.set(owner, { refs, json }); continue; }
+    external = true;
+  }
+  if (external) hydrateStudioStores(pd);
+}
+
+function readLegacy(): LegacyStudioState | null {
+  const read = (key: string) => {
+    try { const raw = localStorage.getItem(key); return raw ? JSON.parse(raw) : undefined; } catch { return undefined; }
+  };
+  const legacy: LegacyStudioState = {
+    timelines: read(LEGACY_KEYS.timelines),
+    clips: read(LEGACY_KEYS.clips),
+    keyframes: read(LEGACY_KEYS.keyframes),
+    triggers: read(LEGACY_KEYS.triggers),
+    variables: read(LEGACY_KEYS.variables),
+  };
+  return Object.values(legacy).some((v) => v !== undefined) ? legacy : null;
+}
+
+if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+  // Not into the blank stand-in for a stored project that couldn't be opened: that write would replace it
+  const legacy = storedProjectRefused ? null : readLegacy();
+  if (legacy) {
+    const pd = foldLegacyStudioState(get(projectData), legacy);
+    projectData.set(pd);
+    // Persist the folded document before dropping the old keys so nothing is lost on a crash
+    try {
+      localStorage.setItem(PROJECT_KEY, JSON.stringify(pd));
+      for (const key of Object.values(LEGACY_KEYS)) localStorage.removeItem(key);
+      console.info('[projectDocument] moved timelines, triggers and variables into the project document');
+    } catch (e) {
+      console.warn('[projectDocument] could not persist migrated project; keeping legacy keys', e);
+    }
+  }
+  hydrateStudioStores(get(projectData));
+  for (const store of [timelineData, timelineClips, animationData, triggersStore, variableDefs, variableValues, scripts]) {
+    store.subscribe(scheduleWrite);
+  }
+  projectData.subscribe(onDocumentChange);
+}
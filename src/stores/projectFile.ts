@@ -0,0 +1,344 @@
+/**
+ * projectFile.ts
+ * ----------------------------------------------------------------------------
+ * New / open / save / save-as for `.mava` project files.
+ *  - Desktop: goes through the Tauri commands (native dialogs, recent files); once a project
+ *    has a path, autosaves are routed to that file (see lib/persistence).
+ *  - Web: the open project keeps living in localStorage; "save" downloads a `.mava` file and
+ *    "open" reads one picked through a file input.
+ */
+import { get, writable } from 'svelte/store';
+import { insertImportedContent, projectData, storedProjectRefused } from './project';
+import { selectedTimelineId } from './timelineData';
+import { selectScript } from './scripts';
+import { resetHistory, restoreHistory } from './historyScoped';
+import { flushStudioState, openDocument } from './projectDocument';
+import { addNotification, notifyProjectLoad } from './notifications';
+import { devOutput } from './devOutput';
+import { markSaved } from './saveStatus';
+import {
+  flushSaves, holdStoredProject, loadFromStorage, queueFileWrite, recoveryOptions, releaseStoredProject, resetSaves, setFileSaveTarget,
+} from '../lib/persistence';
+import { readRecoverySnapshot, takeRecoverySnapshot } from '../lib/persistence/recovery';
+import {
+  clearRecentProjects, isDesktop, listRecentProjects, newProjectFile, openProjectFile, saveProjectFile, saveProjectFileAs,
+  type RecentProject,
+} from '../lib/persistence/desktop';
+import { decodeProjectBundle, encodeProjectFile, encodeProjectJson } from '../lib/persistence/projectFile';
+import { copyForImport, resolveVariableNames, type ImportPlacement, type ImportSelection } from '../lib/persistence/remap';
+import { foldLegacyStudioState, type LegacyStudioState } from '../lib/persistence/studioState';
+import { keepMigrationBackup, keepProjectBackup, type ProjectBackup } from '../lib/persistence/migrationBackup';
+import type { ProjectData } from '../lib/schemas/project';
+import { createEmptyProject, validateAndMigrateProject } from '../lib/validation/projectValidation';
+import { downloadBlob, slug } from '../lib/export/html5';
+
+export interface ProjectFileState {
+  /** File backing the open project; null while untitled (and always on web). */
+  path: string | null;
+  name: string;
+  /** Changes not yet written to `path` (or, untitled, never saved to a file). */
+  dirty: boolean;
+}
+
+const UNTITLED: ProjectFileState = { path: null, name: 'Untitled', dirty: false };
+
+export const projectFile = writable<ProjectFileState>({ ...UNTITLED });
+export const recentProjects = writable<RecentProject[]>([]);
+
+// ---- Document apply ----
+
+let applying = false;
+
+/**
+ * Validate/migrate `raw`, fold any pre-v2 studio state into it and make it the open project.
+ * `label` names the source in the repair report notification.
+ */
+function applyDocument(raw: unknown, legacyStudio: LegacyStudioState | null = null, label = 'Project') {
+  const res = validateAndMigrateProject(raw);
+  if (!res.ok || !res.data) throw new Error(res.error ?? 'Invalid project data');
+  keepMigrationBackup(res, label).then((kept) => notifyProjectLoad(res, label, kept));
+  const pd = legacyStudio ? foldLegacyStudioState(res.data, legacyStudio) : res.data;
+  applying = true;
+  try {
+    selectedTimelineId.set(null);
+    selectScript(null);
+    openDocument(pd);
+    resetHistory();
+  } finally {
+    applying = false;
+  }
+  // A project the user created or opened: autosave may replace a stored one that was held
+  releaseStoredProject();
+}
+
+function snapshotProject(): ProjectData {
+  flushStudioState();
+  return get(projectData);
+}
+
+function suggestedName(): string {
+  const st = get(projectFile);
+  if (st.path) return st.name;
+  return slug(get(projectData).course.metadata?.title ?? '') || 'project';
+}
+
+function fail(action: string, e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e);
+  devOutput.append('error', `${action} failed: ${msg}`, { source: 'project' });
+  addNotification(`${action} failed: ${msg}`, { type: 'error' });
+}
+
+function confirmDiscard(): boolean {
+  if (!get(projectFile).dirty) return true;
+  return typeof confirm === 'undefined' || confirm('The current project has unsaved changes. Discard them?');
+}
+
+/** Point autosave at `path` (desktop) and record it as the open project's file. */
+function attach(path: string | null, name: string) {
+  setFileSaveTarget(path ? { path, write: () => writeTo(path) } : null);
+  resetSaves();
+  projectFile.set({ path, name, dirty: false });
+}
+
+async function writeTo(path: string) {
+  const bytes = encodeProjectFile(snapshotProject());
+  await saveProjectFile(path, bytes);
+  projectFile.update((s) => (s.path === path ? { ...s, dirty: false } : s));
+  markSaved();
+}
+
+// ---- Actions ----
+
+export async function refreshRecentProjects() {
+  if (!isDesktop()) return;
+  try { recentProjects.set(await listRecentProjects()); } catch (e) { console.warn('[projectFile] recent files unavailable', e); }
+}
+
+export async function clearRecent() {
+  if (!isDesktop()) return;
+  try { await clearRecentProjects(); recentProjects.set([]); } catch (e) { fail('Clearing recent files', e); }
+}
+
+/**
+ * Boot: switch to the project saved in IndexedDB (when there is one) and start autosaving.
+ * A stored project that can't be opened is backed up (when it could be read) and held: the
+ * blank project doesn't autosave over it until the user creates or opens one.
+ */
+export async function openSavedProject() {
+  let raw: unknown = null;
+  try {
+    raw = await loadFromStorage();
+    // project.ts already kept a backup of the localStorage copy and said so
+    if (storedProjectRefused) return holdStoredProject();
+    if (raw) applyDocument(raw, null, 'Saved project');
+  } catch (e) {
+    holdStoredProject();
+    const kept = raw != null && await keepProjectBackup({
+      source: 'Saved project', fromVersion: (raw as { projectVersion?: number }).projectVersion ?? NaN, savedAt: Date.now(), steps: [], document: raw,
+    });
+    const msg = e instanceof Error ? e.message : String(e);
+    devOutput.append('error', `Loading saved project failed: ${msg}`, { source: 'project' });
+    addNotification(`Saved project could not be opened: ${msg}${kept ? ' A copy was kept as a backup.' : ''} Autosave is off until you create or open a project.`, { type: 'error', ttl: 0 });
+    return;
+  }
+  resetSaves();
+}
+
+export async function newProject() {
+  if (!confirmDiscard()) return;
+  try {
+    flushSaves();
+    applyDocument(createEmptyProject());
+    if (isDesktop()) await newProjectFile();
+    attach(null, UNTITLED.name);
+    restoreHistory(false);
+  } catch (e) {
+    fail('New project', e);
+  }
+}
+
+/** Open a project file: `path` on desktop (dialog when omitted); web callers use openProjectBytes. */
+export async function openProject(path?: string) {
+  if (!isDesktop() || !confirmDiscard()) return;
+  try {
+    flushSaves();
+    const opened = await openProjectFile(path);
+    if (!opened) return;
+    const file = decodeProjectBundle(opened.bytes);
+    applyDocument(file.project, file.legacyStudio, opened.name);
+    attach(opened.path, opened.name);
+    // History is keyed by file, so pick it up once attached
+    restoreHistory();
+    addNotification(`Opened ${opened.name}`, { type: 'info' });
+  } catch (e) {
+    fail('Opening project', e);
+  } finally {
+    refreshRecentProjects();
+  }
+}
+
+/** Load a `.mava` file or JSON bundle read in the browser (file input, drag and drop). */
+export function openProjectBytes(bytes: Uint8Array, fileName: string) {
+  if (!confirmDiscard()) return;
+  try {
+    const file = decodeProjectBundle(bytes);
+    applyDocument(file.project, file.legacyStudio, fileName);
+    attach(null, fileName.replace(/\.(mava|json)$/i, ''));
+    restoreHistory();
+    addNotification(`Opened ${fileName}`, { type: 'info' });
+  } catch (e) {
+    fail('Opening project', e);
+  }
+}
+
+export async function saveProject() {
+  const { path } = get(projectFile);
+  if (!isDesktop() || !path) return saveProjectAs();
+  try {
+    await writeTo(path);
+    addNotification(`Saved ${get(projectFile).name}`, { type: 'info', ttl: 2000 });
+  } catch (e) {
+    fail('Saving project', e);
+  } finally {
+    refreshRecentProjects();
+  }
+}
+
+export async function saveProjectAs() {
+  try {
+    const name = suggestedName();
+    const bytes = encodeProjectFile(snapshotProject());
+    if (!isDesktop()) {
+      downloadBlob(bytes, `${name}.mava`, 'application/octet-stream');
+      projectFile.update((s) => ({ ...s, name, dirty: false }));
+      return;
+    }
+    const path = await saveProjectFileAs(name, bytes);
+    if (!path) return;
+    attach(path, path.split(/[\\/]/).pop()!.replace(/\.mava$/i, ''));
+    addNotification(`Saved ${get(projectFile).name}`, { type: 'info', ttl: 2000 });
+  } catch (e) {
+    fail('Saving project', e);
+  } finally {
+    refreshRecentProjects();
+  }
+}
+
+/** Download the open project as a portable bundle: `.mava` (zip, media as files) or a single JSON file. */
+export function exportProjectBundle(format: 'mava' | 'json') {
+  try {
+    const project = snapshotProject();
+    const name = suggestedName();
+    if (format === 'json') downloadBlob(encodeProjectJson(project), `${name}.json`, 'application/json');
+    else downloadBlob(encodeProjectFile(project), `${name}.mava`, 'application/octet-stream');
+  } catch (e) {
+    fail('Exporting project', e);
+  }
+}
+
+/** Decode and validate another project's bundle for importing from it (nothing is opened). */
+export function readImportSource(bytes: Uint8Array, fileName: string): ProjectData {
+  const file = decodeProjectBundle(bytes);
+  const res = validateAndMigrateProject(file.project);
+  if (!res.ok || !res.data) throw new Error(res.error ?? 'Invalid project data');
+  notifyProjectLoad(res, fileName);
+  return file.legacyStudio ? foldLegacyStudioState(res.data, file.legacyStudio) : res.data;
+}
+
+/**
+ * Copy `select` out of `source` into the open project at `at`, under fresh ids. Imported
+ * variables whose name is already taken are reused (same type) or renamed; returns false when
+ * the import failed (already reported).
+ */
+export function importFromProject(source: ProjectData, select: ImportSelection, at: ImportPlacement, label: string): boolean {
+  try {
+    const content = copyForImport(source, select);
+    const vars = resolveVariableNames(content, snapshotProject().course.variables ?? []);
+    insertImportedContent(content, label, at);
+    const renamed = [
+      ...Object.entries(vars.renamed),
+      ...Object.values(vars.renamedOnPages).flatMap((r) => Object.entries(r)),
+    ].map(([from, to]) => `${from} → ${to}`);
+    const what = content.modules.length ? `${content.modules.length} module(s)` : `${content.rootLessons.length} lesson(s)`;
+    addNotification(
+      `Imported ${what}, ${content.pages.length} page(s)` + (renamed.length ? `. Renamed variables: ${renamed.join(', ')} (scripts are not updated)` : ''),
+      { type: 'info', ttl: renamed.length ? 8000 : 4000 },
+    );
+    return true;
+  } catch (e) {
+    fail('Importing', e);
+    return false;
+  }
+}
+
+/**
+ * Add every module of another project bundle to the end of the open course, with its
+ * course-wide timelines, triggers, variables and scripts.
+ */
+export function importProjectBytes(bytes: Uint8Array, fileName: string) {
+  let source: ProjectData;
+  try {
+    source = readImportSource(bytes, fileName);
+  } catch (e) {
+    fail('Importing project', e);
+    return;
+  }
+  const modules = [...source.course.modules].sort((x, y) => x.order - y.order).map((r) => r.id);
+  importFromProject(source, { modules, courseSlots: true }, {}, `Import ${fileName}`);
+}
+
+/**
+ * Replace the open project with recovery snapshot `id`. The current document is snapshotted
+ * first, so a wrong pick can be restored back from the same list. The file (if any) stays
+ * attached and is marked dirty; undo history starts over.
+ */
+export async function restoreRecoverySnapshot(id: string) {
+  try {
+    const raw = await readRecoverySnapshot(id);
+    if (!raw) throw new Error('Snapshot not found');
+    flushSaves();
+    await takeRecoverySnapshot(snapshotProject(), recoveryOptions(), 'Before restore', true);
+    applyDocument(raw, null, 'Recovery snapshot');
+    resetSaves();
+    restoreHistory(false);
+    projectFile.update((s) => ({ ...s, dirty: true }));
+    queueFileWrite();
+    addNotification('Restored project from snapshot', { type: 'info' });
+  } catch (e) {
+    fail('Restoring snapshot', e);
+  }
+}
+
+/** Open a kept backup (see migrationBackup.ts) as the project; it goes through migration again. */
+export function restoreProjectBackup(backup: ProjectBackup) {
+  if (!confirmDiscard()) return;
+  try {
+    flushSaves();
+    applyDocument(backup.document, null, `Backup of ${backup.source}`);
+    attach(null, UNTITLED.name);
+    restoreHistory(false);
+    addNotification(`Opened the backup of ${backup.source}`, { type: 'info' });
+  } catch (e) {
+    fail('Opening backup', e);
+  }
+}
+
+/** Download a kept backup as stored, e.g. one refused as too new, to open in a newer studio. */
+export function downloadProjectBackup(backup: ProjectBackup) {
+  const json = JSON.stringify(backup.document, null, 2);
+  downloadBlob(json, `${slug(backup.source)}-backup-${backup.savedAt}.json`, 'application/json');
+}
+
+// ---- Change tracking ----
+// Studio stores write through to ProjectData (projectDocument.ts), so watching the document
+// covers every edit: mark the project dirty and, with a file open, queue a write to it.
+if (typeof window !== 'undefined') {
+  let ready = false;
+  projectData.subscribe(() => {
+    if (!ready || applying) return;
+    if (!get(projectFile).dirty) projectFile.update((s) => ({ ...s, dirty: true }));
+    queueFileWrite();
+  });
+  ready = true;
+  refreshRecentProjects();
+}
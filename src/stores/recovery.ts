@@ -0,0 +1,34 @@
+/**
+ * recovery.ts
+ * ----------------------------------------------------------------------------
+ * Opens the recovery dialog: on boot after an unclean shutdown (when there is something to
+ * recover), or on demand from the Project menu. Snapshots themselves are taken by the
+ * autosave path (lib/persistence/recovery).
+ */
+import { writable } from 'svelte/store';
+import { beginSession, endSession, listRecoverySnapshots } from '../lib/persistence/recovery';
+
+/** Why the dialog is showing; null while closed. */
+export type RecoveryPrompt = 'unclean-shutdown' | 'manual';
+
+export const recoveryPrompt = writable<RecoveryPrompt | null>(null);
+
+export function openRecovery() {
+  recoveryPrompt.set('manual');
+}
+
+export function closeRecovery() {
+  recoveryPrompt.set(null);
+}
+
+let started = false;
+
+/** Mark the session as running and offer a restore if the last one crashed. Called once at boot. */
+export function startRecoverySession() {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+  if (beginSession() && listRecoverySnapshots().length) recoveryPrompt.set('unclean-shutdown');
+  window.addEventListener('pagehide', endSession);
+  // Back from the back/forward cache: the session is running again
+  window.addEventListener('pageshow', (e) => { if (e.persisted) beginSession(); });
+}
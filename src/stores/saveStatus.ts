@@ -0,0 +1,69 @@
+/**
+ * saveStatus.ts
+ * ----------------------------------------------------------------------------
+ * Where autosave stands for the open project, shown in the header. lib/persistence reports
+ * into it: `saving` once a change is queued, `saved` when the worker (IndexedDB), the
+ * localStorage fallback or the project file confirmed the write, `failed` / `quota-exceeded`
+ * when it did not. A failure is announced once; the next successful write clears it.
+ */
+import { get, writable } from 'svelte/store';
+import { addNotification } from './notifications';
+import { devOutput } from './devOutput';
+
+export type SaveState = 'idle' | 'saving' | 'saved' | 'failed' | 'quota-exceeded';
+
+export interface SaveStatus {
+  state: SaveState;
+  /** Last confirmed write of the project, this session. */
+  lastSaved: number | null;
+  /** Message of the failure behind `failed` / `quota-exceeded`. */
+  error: string | null;
+}
+
+export const saveStatus = writable<SaveStatus>({ state: 'idle', lastSaved: null, error: null });
+
+/** Storage full, by DOMException name (browsers disagree) or an error forwarded from the worker. */
+export function isQuotaError(e: unknown): boolean {
+  const name = (e as { name?: string } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+export function errorMessage(e: unknown): string {
+  return e instanceof Error || (e && typeof e === 'object' && 'message' in e) ? String((e as Error).message) : String(e);
+}
+
+export function markSaving() {
+  const s = get(saveStatus);
+  // Keep showing a failure until a write actually succeeds
+  if (s.state === 'saving' || s.state === 'failed' || s.state === 'quota-exceeded') return;
+  saveStatus.set({ ...s, state: 'saving' });
+}
+
+export function markSaved() {
+  saveStatus.set({ state: 'saved', lastSaved: Date.now(), error: null });
+}
+
+/** The project could not be written; `what` names the target in the notification. */
+export function markSaveFailed(what: string, e: unknown) {
+  const quota = isQuotaError(e);
+  const message = errorMessage(e);
+  const prev = get(saveStatus);
+  saveStatus.set({ ...prev, state: quota ? 'quota-exceeded' : 'failed', error: message });
+  devOutput.append('error', `Saving to ${what} failed: ${message}`, { source: 'persistence' });
+  if (prev.state === 'failed' || prev.state === 'quota-exceeded') return;
+  addNotification(
+    quota
+      ? `Storage is full: your latest changes could not be saved to ${what}. Free some space (e.g. fewer recovery snapshots) or save the project to a file.`
+      : `Your latest changes could not be saved to ${what}: ${message}`,
+    { type: 'error', ttl: 0 },
+  );
+}
+
+/** A write that is not the project itself (undo history, snapshots) failed: tell once per session. */
+const reported = new Set<string>();
+export function reportSideSaveFailure(what: string, e: unknown) {
+  devOutput.append('warn', `Saving ${what} failed: ${errorMessage(e)}`, { source: 'persistence' });
+  if (reported.has(what)) return;
+  reported.add(what);
+  addNotification(`${what[0].toUpperCase()}${what.slice(1)} could not be saved${isQuotaError(e) ? ': storage is full' : ''}. The project itself is unaffected.`, { type: 'warn', ttl: 8000 });
+}
@@ -22,3 +22,25 @@ if (typeof window !== 'undefined') {
 export function updateSpatialSettings(patch: Partial<SpatialSettings>) {
     spatialSettings.update(s => ({ ...s, ...patch }));
 }
+
+export interface RecoverySettings {
+    keep: number;             // recovery snapshots kept (0 turns them off)
+    intervalMinutes: number;  // minimum time between snapshots
+}
+
+const RECOVERY_KEY = 'studioRecoverySettings';
+const recoveryDefaults: RecoverySettings = { keep: 10, intervalMinutes: 5 };
+
+function loadRecovery(): RecoverySettings {
+    if (typeof window === 'undefined') return recoveryDefaults;
+    try { const raw = localStorage.getItem(RECOVERY_KEY); if (!raw) return recoveryDefaults; return { ...recoveryDefaults, ...JSON.parse(raw) }; } catch { return recoveryDefaults; }
+}
+
+export const recoverySettings = writable<RecoverySettings>(loadRecovery());
+if (typeof window !== 'undefined') {
+    recoverySettings.subscribe(v => { try { localStorage.setItem(RECOVERY_KEY, JSON.stringify(v)); } catch {} });
+}
+
+export function updateRecoverySettings(patch: Partial<RecoverySettings>) {
+    recoverySettings.update(s => ({ ...s, ...patch }));
+}
@@ -1,7 +1,24 @@
-import { writable } from 'svelte/store';
+import { get, writable } from 'svelte/store';
 
-export type StageKey = 'create' | 'template' | 'animate';
+export type StageKey = 'create' | 'template' | 'animate' | 'preview';
+/** Authoring stages (everything except the learner preview). */
+export type AuthoringStageKey = Exclude<StageKey, 'preview'>;
 
 const initial: StageKey = 'create';
 export const stage = writable<StageKey>(initial);
-export function setStage(s: StageKey) { stage.set(s); }
+/** Stage preview was entered from; its page timelines are the ones preview plays. */
+export const previewSource = writable<AuthoringStageKey>('create');
+
+export function setStage(s: StageKey) {
+  const prev = get(stage);
+  if (s === 'preview' && prev !== 'preview') previewSource.set(prev);
+  stage.set(s);
+}
+
+/** Stage key used for timeline ids (`page-<id>:<key>`); preview reuses its source stage. */
+export function timelineStageKey(s: StageKey): AuthoringStageKey {
+  return s === 'preview' ? get(previewSource) : s;
+}
+
+/** True while the stage should behave like the learner view (element triggers live). */
+export const stageInteractive = writable<boolean>(false);
@@ -1,6 +1,8 @@
 import { timelineData, type TimelineRecord } from './timelineData';
 import { timelineClips as clipsStore, type Clip } from './timelineClips';
-import { animationData, type Keyframe } from './animationData';
+import { animationData, makeKeyframeId, type EasingName, type Keyframe } from './animationData';
+import { sequenceTimelineId, type MotionPathRef, type NestedTimelineClip } from '../lib/schemas/timeline';
+import { wouldNestCycle } from '../lib/runtime/nestedTimelines';
 import { timelines } from './timelines';
 import { commitTimelineChange } from './historyScoped';
 
@@ -75,8 +77,88 @@ export function addKeyframe(timelineId: string, kf: Keyframe, opts?: { ensureCli
   if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
 }
 
+export function setKeyframeEasing(timelineId: string, kfId: string, easing: EasingName, opts?: { commit?: boolean }) {
+  const kf = animationData.getForTimeline(timelineId).find(k => k.id === kfId); if (!kf) return;
+  animationData.updateKeyframe(timelineId, { ...kf, easing });
+  if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
+}
+
+/**
+ * Put an element on a path. A new track gets keyframes at `span.start` (progress 0) and
+ * `span.end` (1); an existing one keeps its keyframes and takes the new settings, with any
+ * `progress` given (keyframe id -> 0..1) written to its values.
+ */
+export function setMotionPath(timelineId: string, elementId: string, ref: MotionPathRef, span: { start: number; end: number }, opts?: { progress?: Record<string, number>; commit?: boolean }) {
+  const track = animationData.getForTimeline(timelineId).filter(k => k.elementId === elementId && k.property === 'motionPath');
+  if (!track.length) {
+    const end = Math.max(span.end, span.start + 1);
+    for (const [time, value] of [[span.start, 0], [end, 1]]) {
+      addKeyframe(timelineId, { id: makeKeyframeId(), elementId, property: 'motionPath', time, value, easing: 'linear', motionPath: { ...ref } }, { ensureClipCovers: true });
+    }
+  } else {
+    for (const k of track) {
+      const value = opts?.progress?.[k.id] ?? k.value;
+      animationData.updateKeyframe(timelineId, { ...k, value, motionPath: { ...ref } });
+    }
+  }
+  if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
+}
+
+export function removeMotionPath(timelineId: string, elementId: string, opts?: { commit?: boolean }) {
+  for (const k of animationData.getForTimeline(timelineId)) {
+    if (k.elementId === elementId && k.property === 'motionPath') animationData.removeKeyframe(timelineId, k.id);
+  }
+  if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
+}
+
 export function moveKeyframe(timelineId: string, kfId: string, newTime: number, opts?: { commit?: boolean }) {
   const kf = animationData.getForTimeline(timelineId).find(k => k.id === kfId); if (!kf) return;
   animationData.updateKeyframe(timelineId, { ...kf, time: newTime });
   if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
 }
+
+// ---- Nested timelines ----
+
+/** New empty sequence kept with the page, for nesting into its stage timelines. */
+export function createSequence(pageId: string, opts?: { name?: string; duration?: number }) {
+  const existing = timelineData.getAll().filter((t) => t.id.startsWith(sequenceTimelineId(pageId, '')));
+  const rec: TimelineRecord = {
+    id: sequenceTimelineId(pageId, Math.random().toString(36).slice(2, 10)),
+    name: opts?.name?.trim() || `Sequence ${existing.length + 1}`,
+    duration: Math.max(MIN_TIMELINE_MS, Math.floor(opts?.duration ?? 2000)),
+    loop: false,
+    cuePoints: [],
+  };
+  timelineData.add(rec);
+  commitTimelineChange(rec.id, 'timeline');
+  return rec;
+}
+
+/** Embed `clip.timelineId` in `timelineId`; throws when the child already contains the parent. */
+export function addNestedClip(timelineId: string, clip: Omit<NestedTimelineClip, 'id'>, opts?: { commit?: boolean }) {
+  const rec = timelineData.getById(timelineId); if (!rec) return;
+  if (!timelineData.getById(clip.timelineId)) throw new Error('Timeline to insert no longer exists.');
+  if (wouldNestCycle(timelineId, clip.timelineId, (id) => timelineData.getById(id))) {
+    throw new Error('A timeline cannot contain itself.');
+  }
+  const id = 'nest-' + Math.random().toString(36).slice(2);
+  timelineData.update({ ...rec, nested: [...(rec.nested ?? []), { ...clip, id }] });
+  if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
+  return id;
+}
+
+export function updateNestedClip(timelineId: string, clip: NestedTimelineClip, opts?: { commit?: boolean }) {
+  const rec = timelineData.getById(timelineId); if (!rec) return;
+  const prev = rec.nested?.find((c) => c.id === clip.id); if (!prev) return;
+  if (clip.timelineId !== prev.timelineId && wouldNestCycle(timelineId, clip.timelineId, (id) => timelineData.getById(id))) {
+    throw new Error('A timeline cannot contain itself.');
+  }
+  timelineData.update({ ...rec, nested: rec.nested!.map((c) => (c.id === clip.id ? { ...clip } : c)) });
+  if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
+}
+
+export function removeNestedClip(timelineId: string, clipId: string, opts?: { commit?: boolean }) {
+  const rec = timelineData.getById(timelineId); if (!rec) return;
+  timelineData.update({ ...rec, nested: (rec.nested ?? []).filter((c) => c.id !== clipId) });
+  if (opts?.commit) commitTimelineChange(timelineId, 'timeline');
+}
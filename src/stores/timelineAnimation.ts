@@ -0,0 +1,110 @@
+import { get, writable } from 'svelte/store';
+import { selectedTimelineId, timelineData, type TimelineRecord } from './timelineData';
+import { timelines } from './timelines';
+import { animationData } from './animationData';
+import { currentPage } from './project';
+import { getValueByName, variableValues } from './variables';
+import { devOutput } from './devOutput';
+import { buildTracks, sampleTracks, type AnimatedState, type KeyframeTracks } from '../lib/runtime/keyframes';
+import { resolveMotionPaths } from '../lib/runtime/motionPath';
+import { applyExpressions, type ExpressionIssue } from '../lib/runtime/expressions';
+import { nestedTimeAt } from '../lib/runtime/nestedTimelines';
+
+/**
+ * currentAnimation: sampled keyframe state per elementId for the currently selected timeline
+ * at its playhead. Elements without tracks are absent; null when no timeline is selected.
+ * Updated on every tick / seek, so both scrubbing and playback drive it. Timelines nested in
+ * the selected one are sampled at their mapped time underneath its own tracks (the nearer
+ * timeline wins per property). Property expressions are evaluated last, on top of keyframes
+ * and motion paths.
+ */
+export const currentAnimation = writable<Record<string, AnimatedState> | null>(null);
+
+let tracks: KeyframeTracks = new Map();
+// Nested timelines, deepest first; `timeAt` maps the selected timeline's time onto each
+interface NestedLayer { tracks: KeyframeTracks; timeAt: (time: number) => number }
+let layers: NestedLayer[] = [];
+let detach: (() => void) | null = null;
+let attached: ReturnType<typeof timelines.get> = undefined;
+let timer: any = null;
+
+// Each failing expression is reported once per message, not on every frame
+const reported = new Set<string>();
+function reportIssue(issue: ExpressionIssue) {
+  const key = `${issue.elementId}\u0000${issue.property}\u0000${issue.expression}\u0000${issue.message}`;
+  if (reported.has(key)) return;
+  reported.add(key);
+  const name = get(currentPage)?.elements.find((e) => e.id === issue.elementId)?.name ?? issue.elementId;
+  devOutput.append('error', `Expression ${name}.${issue.property}: ${issue.message}`, { source: 'expression', ...issue });
+}
+
+function recompute() {
+  const tid = get(selectedTimelineId);
+  if (!tid) { currentAnimation.set(null); return; }
+  const page = get(currentPage);
+  const elements = page?.elements ?? [];
+  const hasExpressions = elements.some((e) => e.expressions && Object.values(e.expressions).some(Boolean));
+  if (!tracks.size && !layers.length && !hasExpressions) { currentAnimation.set({}); return; }
+  const tl = timelines.get(tid);
+  const time = tl?.time ?? 0;
+  const states: Record<string, AnimatedState> = {};
+  for (const layer of [...layers, { tracks, timeAt: (t: number) => t }]) {
+    if (!layer.tracks.size) continue;
+    const sampled = sampleTracks(layer.tracks, layer.timeAt(time));
+    resolveMotionPaths(sampled, layer.tracks, elements);
+    for (const [id, state] of Object.entries(sampled)) states[id] = { ...states[id], ...state };
+  }
+  if (hasExpressions) {
+    applyExpressions(states, elements, {
+      time,
+      duration: tl?.durationMs ?? 0,
+      variable: (name) => getValueByName(name, page?.id),
+      onIssue: reportIssue,
+    });
+  }
+  currentAnimation.set(states);
+}
+
+function collectLayers(parentId: string, timeAt: (time: number) => number, byId: Map<string, TimelineRecord>, seen: Set<string>): NestedLayer[] {
+  const out: NestedLayer[] = [];
+  for (const clip of byId.get(parentId)?.nested ?? []) {
+    const child = byId.get(clip.timelineId);
+    if (!child || seen.has(child.id)) continue; // missing, or a cycle
+    const childAt = (t: number) => nestedTimeAt(clip, child.duration, timeAt(t)).time;
+    out.push(...collectLayers(child.id, childAt, byId, new Set([...seen, child.id])));
+    out.push({ tracks: buildTracks(animationData.getForTimeline(child.id)), timeAt: childAt });
+  }
+  return out;
+}
+
+function rebuild() {
+  const tid = get(selectedTimelineId);
+  tracks = tid ? buildTracks(animationData.getForTimeline(tid)) : new Map();
+  const byId = new Map(timelineData.getAll().map((t) => [t.id, t]));
+  layers = tid ? collectLayers(tid, (t) => t, byId, new Set([tid])) : [];
+  recompute();
+}
+
+function attach() {
+  if (detach) { detach(); detach = null; }
+  const tid = get(selectedTimelineId);
+  const tl = tid ? timelines.get(tid) : undefined;
+  attached = tl;
+  if (tl) {
+    const handler = () => recompute();
+    tl.on(handler);
+    detach = () => tl.off(handler);
+  }
+  // The runtime is recreated on some edits (cues); follow the new one
+  if (timer) { clearInterval(timer); timer = null; }
+  if (tid) timer = setInterval(() => { if (timelines.get(tid) !== attached) attach(); }, 250);
+  rebuild();
+}
+
+// React to timeline selection, keyframe and nesting edits, page edits (moving a motion path,
+// editing an expression) and variable changes
+selectedTimelineId.subscribe(() => attach());
+animationData.subscribe(() => rebuild());
+timelineData.subscribe(() => rebuild());
+currentPage.subscribe(() => recompute());
+variableValues.subscribe(() => recompute());
@@ -1,29 +1,18 @@
 import { writable, get } from 'svelte/store';
+import type { TimelineClip } from '../lib/schemas/timeline';
 
-export interface Clip {
-  id: string;
-  elementId: string;
-  start: number; // ms
-  end: number;   // ms (exclusive)
-  label?: string;
-}
+export type Clip = TimelineClip;
 
 export type TimelineClips = Record<string, Clip[]>; // timelineId -> clips
 
-const STORAGE_KEY = 'timelineClips';
-
-function load(): TimelineClips {
-  if (typeof localStorage === 'undefined') return {};
-  try { const raw = localStorage.getItem(STORAGE_KEY); return raw ? JSON.parse(raw) as TimelineClips : {}; } catch { return {}; }
-}
-function save(obj: TimelineClips) { if (typeof localStorage === 'undefined') return; localStorage.setItem(STORAGE_KEY, JSON.stringify(obj)); }
-
-const _map = writable<TimelineClips>(load());
-_map.subscribe(save);
+// Persisted inside the project document (see projectDocument.ts)
+const _map = writable<TimelineClips>({});
 
 export const timelineClips = {
   subscribe: _map.subscribe,
   getForTimeline(timelineId: string): Clip[] { return (get(_map)[timelineId] ?? []); },
+  /** Swap in another project's clips (open / new project). */
+  replaceAll(map: TimelineClips) { _map.set(structuredClone(map)); },
   setForTimeline(timelineId: string, clips: Clip[]) {
     _map.update((m) => { m[timelineId] = clips.map(c => ({ ...c })); return m; });
   },
@@ -3,24 +3,8 @@ import type { TimelineConfig } from '../lib/schemas/timeline';
 
 export interface TimelineRecord extends TimelineConfig { name: string; }
 
-const STORAGE_KEY = 'timelineData';
-
-function load(): TimelineRecord[] {
-  if (typeof localStorage === 'undefined') return [];
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? (JSON.parse(raw) as TimelineRecord[]) : [];
-  } catch {
-    return [];
-  }
-}
-function save(list: TimelineRecord[]) {
-  if (typeof localStorage === 'undefined') return;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
-}
-
-const _list = writable<TimelineRecord[]>(load());
-_list.subscribe(save);
+// Persisted inside the project document (see projectDocument.ts)
+const _list = writable<TimelineRecord[]>([]);
 
 export const timelineData = {
   subscribe: _list.subscribe,
@@ -38,6 +22,8 @@ export const timelineData = {
     _list.update((arr) => arr.filter((t) => t.id !== id));
   },
   getAll(): TimelineRecord[] { return get(_list); },
+  /** Swap in another project's timelines (open / new project). */
+  replaceAll(list: TimelineRecord[]) { _list.set(list.map((t) => ({ ...t }))); },
   addCue(timelineId: string, cue: { id?: string; time: number; name?: string }) {
     const rec = get(_list).find(t=>t.id===timelineId); if (!rec) return;
     const id = cue.id ?? ('cue-' + Math.random().toString(36).slice(2));
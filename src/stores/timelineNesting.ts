@@ -0,0 +1,88 @@
+import { get } from 'svelte/store';
+import { timelineData, type TimelineRecord } from './timelineData';
+import { timelines } from './timelines';
+import { nestedTimeAt, wouldNestCycle, type NestedTime } from '../lib/runtime/nestedTimelines';
+import type { TimelineEvent } from '../lib/runtime/timeline';
+
+/**
+ * Drives nested timelines from their parents. Every parent runtime with nested clips maps its
+ * ticks and seeks onto each child (nestedTimeAt); while the parent plays it also owns the
+ * child's clock (setDriver), and the child's cues, including those bubbled from deeper levels,
+ * are re-emitted on the parent with their path. A paused parent lets go, so a sequence can
+ * still be played on its own in the editor. A child embedded by several clips follows
+ * whichever clip moved it last. Rebound whenever the records change or a runtime is created.
+ */
+
+let unbind: Array<() => void> = [];
+
+function bindParent(rec: TimelineRecord, byId: Map<string, TimelineRecord>) {
+  const parent = timelines.get(rec.id);
+  if (!parent) return; // bound once something creates it
+  const lookup = (id: string) => byId.get(id);
+  const children = (rec.nested ?? [])
+    .filter((clip) => byId.has(clip.timelineId) && !wouldNestCycle(rec.id, clip.timelineId, lookup))
+    .map((clip) => {
+      const childRec = byId.get(clip.timelineId)!;
+      const runtime = timelines.get(childRec.id) ?? timelines.create(childRec);
+      return { clip, runtime, last: nestedTimeAt(clip, runtime.durationMs, parent.time) as NestedTime };
+    });
+  if (!children.length) return;
+
+  const drive = (kind: 'tick' | 'seek') => {
+    for (const c of children) {
+      const next = nestedTimeAt(c.clip, c.runtime.durationMs, parent.time);
+      // Cues fire only while the clip plays; outside it the child just rests in place
+      if (kind === 'tick' && (next.active || c.last.active)) c.runtime.drive(next.time, 'tick', next.iteration !== c.last.iteration);
+      else if (kind === 'seek' || next.time !== c.runtime.time) c.runtime.drive(next.time, 'seek');
+      c.last = next;
+    }
+  };
+  const take = () => children.forEach((c) => { c.runtime.setDriver(rec.id); c.runtime.followPlayState(true); });
+  const release = () => children.forEach((c) => {
+    if (c.runtime.drivenBy !== rec.id) return;
+    c.runtime.followPlayState(false);
+    c.runtime.setDriver(null);
+  });
+  const onParent = (e: TimelineEvent) => {
+    if (e.type === 'tick') drive('tick');
+    else if (e.type === 'seek') drive('seek');
+    else if (e.type === 'play') take();
+    else if (e.type === 'pause') release();
+    else if (e.type === 'stop') { release(); drive('seek'); }
+  };
+  parent.on(onParent);
+  const offs = children.map(({ runtime }) => {
+    const onChild = (e: TimelineEvent) => {
+      if (e.type === 'cue' && runtime.drivenBy === rec.id) parent.bubbleCue(e.cue, [runtime.id, ...(e.path ?? [])]);
+    };
+    runtime.on(onChild);
+    return () => runtime.off(onChild);
+  });
+  // Start in step with the parent
+  drive('seek');
+  if (parent.isPlaying) take();
+  unbind.push(() => {
+    parent.off(onParent);
+    offs.forEach((off) => off());
+    release();
+  });
+}
+
+function rebind() {
+  unbind.forEach((fn) => fn());
+  unbind = [];
+  const list = get(timelineData);
+  const byId = new Map(list.map((t) => [t.id, t]));
+  for (const rec of list) if (rec.nested?.length) bindParent(rec, byId);
+}
+
+// Creating child runtimes notifies the registry again: coalesce into one rebind per turn
+let queued = false;
+function schedule() {
+  if (queued) return;
+  queued = true;
+  queueMicrotask(() => { queued = false; rebind(); });
+}
+
+timelineData.subscribe(() => schedule());
+timelines.watch(() => schedule());
@@ -1,14 +1,19 @@
 import { get } from 'svelte/store';
 import { currentPageId, projectData } from './project';
-import { stage } from './stage';
+import { stage, timelineStageKey } from './stage';
 import { timelineData, selectedTimelineId, type TimelineRecord } from './timelineData';
 import { timelines } from './timelines';
 import { devOutput } from './devOutput';
+// Hydrate timelineData from the document before the first ensureTimeline below
+import './projectDocument';
 
 function makeId(pageId: string, stageKey: string) {
   return `page-${pageId}:${stageKey}`;
 }
 
+/** Id of the timeline that belongs to a page in a given stage. */
+export function pageTimelineId(pageId: string, stageKey: string) { return makeId(pageId, stageKey); }
+
 function ensureTimeline(pageId: string, stageKey: string) {
   const id = makeId(pageId, stageKey);
   const list = timelineData.getAll();
@@ -25,7 +30,10 @@ function ensureTimeline(pageId: string, stageKey: string) {
   selectedTimelineId.set(id);
   // Attach event logging once (naive - idempotent enough for now)
   tl.on((e) => {
-    if (e.type === 'cue') devOutput.append('info', `Cue: ${e.cue.label ?? e.cue.id} @ ${e.cue.time}ms`, { timelineId: id });
+    if (e.type === 'cue') {
+      const via = e.path?.length ? ` via ${e.path.join(' › ')}` : '';
+      devOutput.append('info', `Cue: ${e.cue.label ?? e.cue.id} @ ${e.cue.time}ms${via}`, { timelineId: id, path: e.path });
+    }
     if (e.type === 'loop') devOutput.append('info', `Loop ${e.count}`, { timelineId: id });
   });
 }
@@ -36,9 +44,10 @@ let prevStage: string | null = null;
 
 function recompute() {
   const pid = get(currentPageId);
-  const s = get(stage);
+  const s = timelineStageKey(get(stage));
   if (!pid || !s) return;
-  if (pid === prevPage && s === prevStage) return;
+  // Same page and stage, unless the record vanished (another project was opened)
+  if (pid === prevPage && s === prevStage && timelineData.getById(makeId(pid, s))) return;
   prevPage = pid; prevStage = s;
   ensureTimeline(pid, s);
 }
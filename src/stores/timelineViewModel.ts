@@ -31,7 +31,7 @@ function buildVM(): TimelineVM {
     clips = Array.from(all.values()).map((c) => {
       const layer = layers.find((l) => l.id === c.elementId);
       const keyframes = kfs.filter((k) => k.elementId === c.elementId && k.time >= c.start && k.time <= c.end).map((k) => ({ id: k.id, time: k.time }));
-      const triggers = trig.filter(t => (t.source?.kind === 'timeline.event' && t.source.event === 'cue'))
+      const triggers = trig.filter(t => (t.source?.kind === 'timeline' && t.source.event === 'cue'))
         .map((t) => ({ id: t.id, time: (t as any).source?.cueTime ?? c.start }))
         .filter(x => x.time >= c.start && x.time <= c.end);
       return { id: c.id, layerId: c.elementId, start: c.start, end: c.end, label: layer?.name ?? c.elementId, keyframes, triggers, locked: !!layer?.locked };
@@ -1,6 +1,9 @@
 import { TimelineRuntime } from '../lib/runtime/timeline';
 
 const registry = new Map<string, TimelineRuntime>();
+// Told about every runtime created or deleted (runtimes are recreated on some edits)
+const watchers = new Set<(id: string) => void>();
+const notify = (id: string) => { for (const fn of watchers) fn(id); };
 
 export const timelines = {
   get(id: string) { return registry.get(id); },
@@ -9,6 +12,7 @@ export const timelines = {
     if (tl) return tl;
     tl = new TimelineRuntime({ ...cfg });
     registry.set(cfg.id, tl);
+    notify(cfg.id);
     return tl;
   },
   delete(id: string) {
@@ -16,7 +20,10 @@ export const timelines = {
     if (tl) {
       tl.stop();
       registry.delete(id);
+      notify(id);
     }
   },
-  all() { return Array.from(registry.values()); }
+  all() { return Array.from(registry.values()); },
+  /** Call `fn` with the id of each runtime created or deleted from now on; returns the unsubscribe. */
+  watch(fn: (id: string) => void) { watchers.add(fn); return () => { watchers.delete(fn); }; },
 };
@@ -1,34 +1,30 @@
 import { writable, get } from 'svelte/store';
 import type { TriggerDef } from '../lib/schemas/triggers';
 
-const STORAGE_KEY = 'triggers';
-
-function load(): TriggerDef[] {
-  if (typeof localStorage === 'undefined') return [];
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? (JSON.parse(raw) as TriggerDef[]) : [];
-  } catch {
-    return [];
-  }
-}
-function save(list: TriggerDef[]) {
-  if (typeof localStorage === 'undefined') return;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
-}
-
-const _list = writable<TriggerDef[]>(load());
-_list.subscribe(save);
+// Persisted inside the project document (see projectDocument.ts)
+const _list = writable<TriggerDef[]>([]);
 
 export const triggersStore = {
   subscribe: _list.subscribe,
   add(def: TriggerDef) {
     _list.update((arr) => [...arr, def]);
   },
+  update(def: TriggerDef) {
+    _list.update((arr) => arr.map((t) => (t.id === def.id ? def : t)));
+  },
+  /** Replace by id, or append when new. */
+  upsert(def: TriggerDef) {
+    _list.update((arr) => (arr.some((t) => t.id === def.id) ? arr.map((t) => (t.id === def.id ? def : t)) : [...arr, def]));
+  },
   remove(id: string) {
     _list.update((arr) => arr.filter((t) => t.id !== id));
   },
+  /** Swap in another project's triggers (open / new project). */
+  replaceAll(list: TriggerDef[]) {
+    _list.set([...list]);
+  },
   all(): TriggerDef[] { return get(_list); },
+  getById(id: string): TriggerDef | undefined { return get(_list).find((t) => t.id === id); },
   getForTimeline(timelineId: string): TriggerDef[] {
     return get(_list).filter((t) => t.source?.kind === 'timeline' && t.source.timelineId === timelineId);
   },
@@ -1,30 +1,49 @@
+import { get } from 'svelte/store';
 import { triggersStore } from './triggers';
-import { registerTrigger } from '../lib/runtime/triggers';
+import { registerTrigger, unregisterTrigger } from '../lib/runtime/triggers';
 import type { TriggerDef } from '../lib/schemas/triggers';
 import { timelines } from './timelines';
+import { selectedTimelineId } from './timelineData';
 
-// On import, register all persisted triggers. registerTrigger is idempotent.
-function initAll() {
-  const list = triggersStore.all();
-  list.forEach((def: TriggerDef) => {
-    try { registerTrigger(def); } catch (e) { console.warn('Failed to register trigger', def?.id, e); }
-  });
+function safeRegister(def: TriggerDef) {
+  try { registerTrigger(def); } catch (e) { console.warn('Failed to register trigger', def?.id, e); }
 }
 
-initAll();
+// Keep runtime registrations in sync with the store: (re)register added/changed defs,
+// dispose removed ones. registerTrigger is idempotent.
+let registered = new Map<string, TriggerDef>();
+triggersStore.subscribe((list) => {
+  const next = new Map<string, TriggerDef>();
+  for (const def of list) {
+    next.set(def.id, def);
+    if (registered.get(def.id) !== def) safeRegister(def);
+  }
+  for (const id of registered.keys()) {
+    if (!next.has(id)) unregisterTrigger(id);
+  }
+  registered = next;
+});
+
+// Triggers without an explicit timeline follow the selected one
+function bindsToSelected(def: TriggerDef) {
+  return def.source?.kind === 'timeline' && !def.source.timelineId && !def.timelineId;
+}
+selectedTimelineId.subscribe(() => {
+  triggersStore.all().filter(bindsToSelected).forEach(safeRegister);
+});
 
 // When a new timeline runtime is created later than triggers, we may need to re-register
-// timeline.event triggers for that timeline so their event listeners bind.
+// timeline triggers for that timeline so their event listeners bind.
 // We monkey-patch timelines.create to run a quick rebind for that id.
 const origCreate = timelines.create.bind(timelines);
 (timelines as any).create = (cfg: any) => {
   const tl = origCreate(cfg);
   const id: string = cfg?.id;
   if (id) {
-    const forTl = triggersStore.getForTimeline(id);
-    forTl.forEach((def) => {
-      try { registerTrigger(def); } catch (e) { console.warn('Failed to re-register trigger', def?.id, e); }
-    });
+    const forTl = triggersStore.all().filter((def) =>
+      (def.source?.kind === 'timeline' && def.source.timelineId === id) || def.timelineId === id || (bindsToSelected(def) && get(selectedTimelineId) === id)
+    );
+    forTl.forEach(safeRegister);
   }
   return tl;
 };
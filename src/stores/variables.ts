@@ -1,9 +1,9 @@
 import { derived, get, writable } from 'svelte/store';
 import { currentPageId } from './project';
-import type { VarScope as SchemaScope } from '../lib/schemas/variables';
+import type { VarScope as SchemaScope, StudioVarType } from '../lib/schemas/variables';
 
 export type VarScope = Extract<SchemaScope, 'global'|'page'>;
-export type VarType = 'string' | 'number' | 'boolean' | 'json' | 'object' | 'array';
+export type VarType = StudioVarType;
 
 export interface VariableDef {
     id: string;
@@ -14,35 +14,12 @@ export interface VariableDef {
     readOnly?: boolean;
 }
 
-const STORAGE_KEY = 'studioVariables.v1';
-
 function makeId() { return Math.random().toString(36).slice(2); }
 
-// State
+// State (persisted inside the project document, see projectDocument.ts)
 const _defs = writable<VariableDef[]>([]);
 const _values = writable<Record<string, any>>({}); // id -> value
 
-// Load/save
-if (typeof window !== 'undefined') {
-    try {
-        const raw = localStorage.getItem(STORAGE_KEY);
-        if (raw) {
-            const data = JSON.parse(raw);
-            if (Array.isArray(data.defs)) _defs.set(data.defs);
-            if (data.values && typeof data.values === 'object') _values.set(data.values);
-        }
-    } catch {}
-
-    const persist = () => {
-        try {
-            const out = JSON.stringify({ defs: get(_defs), values: get(_values) });
-            localStorage.setItem(STORAGE_KEY, out);
-        } catch {}
-    };
-    _defs.subscribe(persist);
-    _values.subscribe(persist);
-}
-
 export const variableDefs = derived(_defs, x => x);
 export const variableValues = derived(_values, x => x);
 
@@ -114,6 +91,22 @@ export function resolveByName(name: string, pageId?: string): VariableDef | null
     return globalVar || null;
 }
 
+/** Copy of all current values (by id), e.g. the authored state before a preview run. */
+export function snapshotValues(): Record<string, any> {
+    return JSON.parse(JSON.stringify(get(_values)));
+}
+
+/** Replace all values with a snapshot taken by snapshotValues(). */
+export function restoreValues(snapshot: Record<string, any>) {
+    _values.set(JSON.parse(JSON.stringify(snapshot ?? {})));
+}
+
+/** Replace every definition and value, e.g. when another project is opened. */
+export function replaceVariables(defs: VariableDef[], values: Record<string, any>) {
+    _defs.set(JSON.parse(JSON.stringify(defs ?? [])));
+    _values.set(JSON.parse(JSON.stringify(values ?? {})));
+}
+
 export function subscribeValueByName(name: string, pageId: string | undefined, cb: (v: any) => void): () => void {
     // Subscribe to both defs and values; call cb whenever the resolved value changes
     let last: any = Symbol('init');
@@ -160,6 +153,8 @@ export const variablesApi = {
     getValueByName,
     resolveByName,
     subscribeValueByName,
+    snapshotValues,
+    restoreValues,
     listAll,
     listForPage,
     variableDefs,
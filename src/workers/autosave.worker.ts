@@ -1,6 +1,11 @@
 // Autosave Web Worker (Stage 3)
 // Receives partial updates (pages / lessons / modules) and merges into a shadow copy.
-// Debounced flush writes full snapshot to localStorage (offline-first durability).
+// Debounced flush writes the changed pages (plus the rest of the project) to IndexedDB;
+// without it, or with a project file attached, the main thread is asked to persist instead.
+// Undo history goes to IndexedDB as well (also with a project file attached); when that fails
+// the main thread keeps it in localStorage.
+
+import { fullWrite, hasIndexedDb, writeHistory, writeProject, type ProjectWrite } from '../lib/persistence/idb';
 
 interface PageUpdate { [id: string]: any }
 interface LessonUpdate { [id: string]: any }
@@ -14,10 +19,12 @@ interface ShadowProject {
     pagesById: Record<string, any>;
 }
 
-interface InitMessage { type: 'init'; key: string; full: ShadowProject }
-interface ChangeMessage { type: 'change'; scope: 'page' | 'lesson' | 'module' | 'course'; pages?: PageUpdate; lessons?: LessonUpdate; modules?: ModuleUpdate; course?: any; ts: number; }
+/** `toFile`: a project file is attached; the main thread writes it (persist-request). */
+interface InitMessage { type: 'init'; key: string; full: ShadowProject; toFile?: boolean }
+interface ChangeMessage { type: 'change'; scope: 'page' | 'lesson' | 'module' | 'course'; pages?: PageUpdate; lessons?: LessonUpdate; modules?: ModuleUpdate; course?: any; removed?: { pages?: string[]; lessons?: string[]; modules?: string[] }; ts: number; }
 interface FlushMessage { type: 'flush' }
-interface LoadMessage { type: 'load'; key: string }
+/** Packed undo history (lib/history/persist), stored under its own key. */
+interface HistoryMessage { type: 'history'; key: string; data: unknown }
 
 // Minimal ambient type (if lib.dom not included for worker build)
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -26,6 +33,14 @@ const ctx: any = self as any;
 
 let shadow: ShadowProject | null = null;
 let storageKey = 'studioProjectData';
+let pendingHistory: { key: string; data: unknown } | null = null;
+let projectDirty = false;
+let toFile = false;
+// Pages to write / delete on the next flush; a full rewrite after init or a failed write
+let dirtyPages = new Set<string>();
+let removedPages = new Set<string>();
+let rewriteAll = true;
+let writing = false;
 let debounceTimer: any = null;
 const DELAY = 800;
 
@@ -35,45 +50,93 @@ function scheduleFlush() {
 }
 
 function flush() {
-    if (!shadow) return;
-    try {
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const compact = shadow; // could strip transient fields here
-        (self as any).localStorage?.setItem(storageKey, JSON.stringify(compact));
-    } catch (e) {
-        // localStorage not accessible inside worker in some environments.
-        // Fallback: post back so main thread can persist.
+    flushHistory();
+    if (!shadow || !projectDirty) return;
+    if (toFile || !hasIndexedDb()) {
+        projectDirty = false;
         ctx.postMessage({ type: 'persist-request', data: shadow, key: storageKey });
+        return;
     }
+    // One write at a time; changes arriving meanwhile go out with the next flush
+    if (writing) return;
+    projectDirty = false;
+    const { pagesById, ...meta } = shadow;
+    const write: ProjectWrite = rewriteAll
+        ? fullWrite(shadow)
+        : { meta, pages: Object.fromEntries([...dirtyPages].filter((id) => pagesById[id]).map((id) => [id, pagesById[id]])), removedPages: [...removedPages], replace: false };
+    const key = storageKey;
+    dirtyPages = new Set();
+    removedPages = new Set();
+    rewriteAll = false;
+    writing = true;
+    writeProject(key, write)
+        .then(() => ctx.postMessage({ type: 'stored', key }))
+        .catch((e: any) => {
+            // Let the main thread keep a copy; rewrite everything once IndexedDB works again
+            console.warn('[autosave] IndexedDB write failed', e);
+            rewriteAll = true;
+            ctx.postMessage({ type: 'persist-request', data: shadow, key, error: { name: e?.name, message: String(e?.message ?? e) } });
+        })
+        .finally(() => {
+            writing = false;
+            if (projectDirty) scheduleFlush();
+        });
 }
 
-ctx.onmessage = (ev: MessageEvent<InitMessage | ChangeMessage | FlushMessage | LoadMessage>) => {
+function flushHistory() {
+    if (!pendingHistory) return;
+    const { key, data } = pendingHistory;
+    pendingHistory = null;
+    if (!hasIndexedDb()) {
+        ctx.postMessage({ type: 'persist-history', key, data });
+        return;
+    }
+    writeHistory(key, data)
+        .then(() => ctx.postMessage({ type: 'history-stored', key }))
+        .catch((e: any) => {
+            console.warn('[autosave] IndexedDB history write failed', e);
+            ctx.postMessage({ type: 'persist-history', key, data });
+        });
+}
+
+ctx.onmessage = (ev: MessageEvent<InitMessage | ChangeMessage | FlushMessage | HistoryMessage>) => {
     const msg = ev.data;
     switch (msg.type) {
         case 'init': {
             storageKey = msg.key;
             shadow = structuredClone(msg.full);
+            toFile = !!msg.toFile;
+            rewriteAll = true;
+            dirtyPages = new Set();
+            removedPages = new Set();
+            projectDirty = true;
             scheduleFlush();
             break;
         }
         case 'change': {
             if (!shadow) return;
-            if (msg.pages) Object.assign(shadow.pagesById, msg.pages);
+            if (msg.pages) {
+                Object.assign(shadow.pagesById, msg.pages);
+                for (const id of Object.keys(msg.pages)) { dirtyPages.add(id); removedPages.delete(id); }
+            }
             if (msg.lessons) Object.assign(shadow.lessonsById, msg.lessons);
             if (msg.modules) Object.assign(shadow.modulesById, msg.modules);
             if (msg.course) shadow.course = msg.course;
+            for (const id of msg.removed?.pages ?? []) { delete shadow.pagesById[id]; dirtyPages.delete(id); removedPages.add(id); }
+            for (const id of msg.removed?.lessons ?? []) delete shadow.lessonsById[id];
+            for (const id of msg.removed?.modules ?? []) delete shadow.modulesById[id];
+            projectDirty = true;
             scheduleFlush();
             break;
         }
-        case 'flush': {
-            flush();
+        case 'history': {
+            // Latest wins; written with the next project flush
+            pendingHistory = { key: msg.key, data: msg.data };
+            scheduleFlush();
             break;
         }
-        case 'load': {
-            try {
-                const raw = (self as any).localStorage?.getItem(msg.key);
-                if (raw) ctx.postMessage({ type: 'loaded', raw });
-            } catch {}
+        case 'flush': {
+            flush();
             break;
         }
     }